@@ -0,0 +1,51 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { Collaborator } from "@/hooks/useCollaboration";
+
+// Avatars beyond this are summarised as "+N"
+const MAX_AVATARS = 4;
+
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+}
+
+const initials = (name: string) => (name.trim().slice(0, 2) || "?").toUpperCase();
+
+// Who else has this document open right now, one avatar per person even if
+// they have it open in several tabs
+const CollaboratorAvatars = ({ collaborators }: CollaboratorAvatarsProps) => {
+  const people = Array.from(new Map(collaborators.map((c) => [c.userId, c])).values());
+  if (people.length === 0) return null;
+
+  const shown = people.slice(0, MAX_AVATARS);
+  const hidden = people.slice(MAX_AVATARS);
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {shown.map((person) => (
+        <Tooltip key={person.userId}>
+          <TooltipTrigger asChild>
+            <Avatar className="w-8 h-8 border-2 border-white">
+              <AvatarFallback className="text-xs font-medium text-white" style={{ backgroundColor: person.color }}>
+                {initials(person.name)}
+              </AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{person.name} is editing</TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Avatar className="w-8 h-8 border-2 border-white">
+              <AvatarFallback className="text-xs font-medium bg-gray-200 text-gray-700">+{hidden.length}</AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{hidden.map((person) => person.name).join(", ")}</TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+};
+
+export default CollaboratorAvatars;
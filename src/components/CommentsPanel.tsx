@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { CheckCircle, RotateCcw, Trash2 } from "lucide-react";
+import type { CommentDraft } from "@/hooks/useComments";
+import type { CommentRow, CommentThread } from "@/lib/comments";
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  draft: CommentDraft | null;
+  activeThreadId: string | null;
+  currentUserId: string;
+  // Commenters, editors and the owner can comment, reply and resolve
+  canComment: boolean;
+  // The owner can delete anyone's comments, others only their own
+  isOwner: boolean;
+  onSubmitDraft: (body: string) => Promise<unknown>;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string) => Promise<boolean>;
+  onSetResolved: (threadId: string, resolved: boolean) => void;
+  onDelete: (commentId: string) => void;
+  onFocusThread: (thread: CommentThread) => void;
+}
+
+const Quote = ({ text }: { text: string }) => (
+  <p className="text-xs text-gray-600 border-l-2 border-yellow-400 pl-2 mb-2 line-clamp-2">{text}</p>
+);
+
+// Comment threads on the document, in the order their text appears
+const CommentsPanel = ({
+  threads,
+  draft,
+  activeThreadId,
+  currentUserId,
+  canComment,
+  isOwner,
+  onSubmitDraft,
+  onCancelDraft,
+  onReply,
+  onSetResolved,
+  onDelete,
+  onFocusThread,
+}: CommentsPanelProps) => {
+  const [draftBody, setDraftBody] = useState("");
+  const [replyBodies, setReplyBodies] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const openThreads = threads
+    .filter(thread => !thread.root.resolved_at)
+    .sort((a, b) => a.position.start - b.position.start);
+  const resolvedThreads = threads.filter(thread => thread.root.resolved_at);
+  const visibleThreads = showResolved ? [...openThreads, ...resolvedThreads] : openThreads;
+
+  const handleSubmitDraft = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draftBody.trim()) return;
+
+    setIsSending(true);
+    try {
+      if (await onSubmitDraft(draftBody)) setDraftBody("");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleReply = async (e: React.FormEvent, threadId: string) => {
+    e.preventDefault();
+    const body = replyBodies[threadId] || "";
+    if (!body.trim()) return;
+
+    if (await onReply(threadId, body)) {
+      setReplyBodies(prev => ({ ...prev, [threadId]: "" }));
+    }
+  };
+
+  const renderComment = (comment: CommentRow) => (
+    <div key={comment.id} className="group">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900 truncate">
+          {comment.author_name}
+          {comment.user_id === currentUserId && <span className="font-normal text-gray-500"> (you)</span>}
+        </span>
+        <div className="flex items-center gap-1 shrink-0">
+          <span className="text-xs text-gray-400">{new Date(comment.created_at).toLocaleString()}</span>
+          {(isOwner || comment.user_id === currentUserId) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(comment.id);
+              }}
+              className="h-6 w-6 p-0 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+              title={comment.parent_id ? "Delete reply" : "Delete thread"}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{comment.body}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {draft && (
+        <Card className="border-yellow-400 ring-1 ring-yellow-400">
+          <CardContent className="p-4">
+            <form onSubmit={handleSubmitDraft} className="space-y-2">
+              <Quote text={draft.quote} />
+              <Textarea
+                placeholder="Add a comment"
+                value={draftBody}
+                onChange={(e) => setDraftBody(e.target.value)}
+                className="min-h-[60px] text-sm"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={onCancelDraft} className="h-7 text-xs">
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={isSending || !draftBody.trim()}
+                  className="bg-green-600 hover:bg-green-700 text-white text-xs h-7 px-3"
+                >
+                  Comment
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">
+          {openThreads.length} open comment{openThreads.length !== 1 ? 's' : ''}
+        </h3>
+        {resolvedThreads.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <Switch checked={showResolved} onCheckedChange={setShowResolved} />
+            Show resolved ({resolvedThreads.length})
+          </label>
+        )}
+      </div>
+
+      {visibleThreads.length === 0 && !draft && (
+        <div className="text-center py-8">
+          <p className="text-gray-600">No comments yet</p>
+          {canComment && (
+            <p className="text-gray-500 text-sm mt-1">Select some text and click Comment to start a discussion.</p>
+          )}
+        </div>
+      )}
+
+      {visibleThreads.map((thread) => {
+        const isResolved = Boolean(thread.root.resolved_at);
+        const isDetached = thread.position.start === thread.position.end;
+        return (
+          <Card
+            key={thread.id}
+            data-comment-thread={thread.id}
+            className={`border transition-colors ${
+              thread.id === activeThreadId ? "border-yellow-400 ring-1 ring-yellow-400" : "border-gray-200 hover:border-gray-300"
+            } ${isResolved ? "opacity-70" : ""}`}
+            onClick={() => onFocusThread(thread)}
+          >
+            <CardContent className="p-4 space-y-3">
+              <div>
+                {thread.root.quote && <Quote text={thread.root.quote} />}
+                {isDetached && (
+                  <p className="text-xs text-gray-500 italic mb-2">The commented text was deleted</p>
+                )}
+                {renderComment(thread.root)}
+              </div>
+
+              {thread.replies.length > 0 && (
+                <div className="space-y-3 pl-3 border-l border-gray-200">
+                  {thread.replies.map(renderComment)}
+                </div>
+              )}
+
+              {canComment && (
+                <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                  {!isResolved && (
+                    <form onSubmit={(e) => handleReply(e, thread.id)} className="flex-1">
+                      <Textarea
+                        placeholder="Reply"
+                        value={replyBodies[thread.id] || ""}
+                        onChange={(e) => setReplyBodies(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault();
+                            e.currentTarget.form?.requestSubmit();
+                          }
+                        }}
+                        className="min-h-[36px] h-9 py-2 text-sm"
+                      />
+                    </form>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSetResolved(thread.id, !isResolved)}
+                    className="h-9 text-xs shrink-0"
+                  >
+                    {isResolved ? (
+                      <>
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Reopen
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Resolve
+                      </>
+                    )}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CommentsPanel;
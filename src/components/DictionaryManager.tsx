@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Download, Plus, Upload, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DictionaryEntry,
+  addDictionaryWords,
+  fetchDictionary,
+  formatWordList,
+  parseWordList,
+  removeDictionaryWord,
+} from "@/lib/dictionary";
+
+interface DictionaryManagerProps {
+  userId: string;
+}
+
+// Adds, removes, imports and exports the words in the user's dictionary
+const DictionaryManager = ({ userId }: DictionaryManagerProps) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<DictionaryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newWord, setNewWord] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDictionary = useCallback(async () => {
+    try {
+      setEntries(await fetchDictionary());
+    } catch (error) {
+      console.error('Error fetching dictionary:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your dictionary",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadDictionary();
+  }, [loadDictionary]);
+
+  // Adds words that aren't in the dictionary yet (ignoring case)
+  const addWords = async (words: string[]) => {
+    const existing = new Set(entries.map(entry => entry.word.toLowerCase()));
+    const added = await addDictionaryWords(
+      userId,
+      words.filter(word => !existing.has(word.toLowerCase()))
+    );
+    setEntries(prev => [...prev, ...added].sort((a, b) => a.word.localeCompare(b.word)));
+    return added.length;
+  };
+
+  const handleAddWord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const words = parseWordList(newWord);
+    if (words.length === 0) return;
+
+    try {
+      await addWords(words);
+      setNewWord("");
+    } catch (error) {
+      console.error('Error adding word:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add the word",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveWord = async (entry: DictionaryEntry) => {
+    try {
+      await removeDictionaryWord(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('Error removing word:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the word",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const count = await addWords(parseWordList(await file.text()));
+      toast({
+        title: "Dictionary imported",
+        description: `Added ${count} new word${count !== 1 ? 's' : ''}`,
+      });
+    } catch (error) {
+      console.error('Error importing dictionary:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import the word list",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([formatWordList(entries.map(entry => entry.word))], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "dictionary.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Personal dictionary</CardTitle>
+            <CardDescription className="mt-1.5">
+              Names, jargon and product terms in your dictionary are never flagged as misspelled.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.csv,text/plain"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+              <Download className="w-4 h-4 mr-1" />
+              Export
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleAddWord} className="flex gap-2 mb-6">
+          <Input
+            value={newWord}
+            onChange={(e) => setNewWord(e.target.value)}
+            placeholder="Add a word"
+            className="max-w-sm"
+          />
+          <Button type="submit" disabled={!newWord.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">Your dictionary is empty.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {entries.map((entry) => (
+              <Badge key={entry.id} variant="secondary" className="text-sm font-normal pl-3 pr-1 py-1">
+                {entry.word}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveWord(entry)}
+                  className="ml-1 rounded-full p-0.5 hover:bg-gray-300"
+                  aria-label={`Remove ${entry.word}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DictionaryManager;
@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { X } from "lucide-react";
+import { normalizeTag } from "@/lib/documentLibrary";
+
+interface DocumentTagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentTitle: string;
+  tags: string[];
+  // Tags used on other documents, offered as suggestions
+  knownTags: string[];
+  onSave: (tags: string[]) => Promise<boolean>;
+}
+
+const DocumentTagsDialog = ({ open, onOpenChange, documentTitle, tags, knownTags, onSave }: DocumentTagsDialogProps) => {
+  const [draft, setDraft] = useState<string[]>(tags);
+  const [input, setInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(tags);
+      setInput("");
+    }
+  }, [open, tags]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !draft.includes(tag)) setDraft(prev => [...prev, tag]);
+    setInput("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === "Backspace" && !input && draft.length > 0) {
+      setDraft(prev => prev.slice(0, -1));
+    }
+  };
+
+  const handleSave = async () => {
+    const pending = normalizeTag(input);
+    const next = pending && !draft.includes(pending) ? [...draft, pending] : draft;
+    setIsSaving(true);
+    try {
+      if (await onSave(next)) onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const suggestions = knownTags
+    .filter(tag => !draft.includes(tag) && tag.includes(normalizeTag(input)))
+    .slice(0, 8);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tags for "{documentTitle}"</DialogTitle>
+          <DialogDescription>Press Enter or comma to add a tag.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-input px-2 py-2">
+          {draft.map((tag) => (
+            <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-gray-100 text-gray-800 text-xs rounded-full">
+              {tag}
+              <button
+                onClick={() => setDraft(prev => prev.filter(t => t !== tag))}
+                className="text-gray-500 hover:text-gray-900"
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={draft.length === 0 ? "Add a tag" : ""}
+            className="flex-1 min-w-[8rem] h-7 border-0 px-1 focus-visible:ring-0 focus-visible:ring-offset-0"
+            autoFocus
+          />
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => addTag(tag)}
+                className="px-2 py-0.5 border border-dashed border-gray-300 text-gray-600 text-xs rounded-full hover:bg-gray-50"
+              >
+                + {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            Save tags
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentTagsDialog;
@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/documentExport";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  // Every format when not given
+  formats?: ExportFormat[];
+  onExport: (format: ExportFormat, includeComments: boolean) => Promise<boolean>;
+}
+
+const ALL_FORMATS = EXPORT_FORMATS.map(option => option.value);
+
+// Picks a file format and whether unresolved comments go along
+const ExportDialog = ({ open, onOpenChange, title, description, formats = ALL_FORMATS, onExport }: ExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>(formats[0]);
+  const [includeComments, setIncludeComments] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (open && !formats.includes(format)) setFormat(formats[0]);
+  }, [open, formats, format]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsExporting(true);
+    try {
+      if (await onExport(format, includeComments)) onOpenChange(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="space-y-1">
+            {EXPORT_FORMATS.filter(option => formats.includes(option.value)).map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`export-${option.value}`} />
+                <Label htmlFor={`export-${option.value}`} className="font-normal">
+                  {option.label}
+                  {option.value === "pdf" && <span className="text-gray-500"> (opens the print dialog)</span>}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-comments"
+              checked={includeComments}
+              onCheckedChange={(checked) => setIncludeComments(checked === true)}
+            />
+            <Label htmlFor="export-comments" className="font-normal">
+              Include unresolved comments
+            </Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isExporting}>
+              {isExporting ? "Exporting..." : "Export"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Folder as FolderIcon, FolderPlus, Inbox, Files, MoreHorizontal, Tag, Trash2 } from "lucide-react";
+import { Folder, TRASH, UNFILED } from "@/lib/documentLibrary";
+
+interface FolderSidebarProps {
+  folders: Folder[];
+  // A folder id, UNFILED, TRASH, or null for every document
+  selectedFolder: string | null;
+  onSelectFolder: (folder: string | null) => void;
+  onCreateFolder: (name: string) => Promise<boolean>;
+  onRenameFolder: (folder: Folder, name: string) => Promise<boolean>;
+  onDeleteFolder: (folder: Folder) => void;
+  tags: string[];
+  selectedTag: string | null;
+  onSelectTag: (tag: string | null) => void;
+}
+
+const itemClass = (isSelected: boolean) =>
+  `w-full flex items-center gap-2 px-3 py-2 rounded-md text-sm text-left transition-colors ${
+    isSelected ? "bg-primary/10 text-primary font-medium" : "text-gray-700 hover:bg-gray-100"
+  }`;
+
+// Folder and tag filters next to the document grid
+const FolderSidebar = ({
+  folders,
+  selectedFolder,
+  onSelectFolder,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  tags,
+  selectedTag,
+  onSelectTag,
+}: FolderSidebarProps) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<Folder | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    if (await onCreateFolder(newName)) {
+      setNewName("");
+      setIsCreating(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming || !renameValue.trim()) return;
+    if (await onRenameFolder(renaming, renameValue)) setRenaming(null);
+  };
+
+  return (
+    <aside className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Folders</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsCreating(true)}
+            className="h-7 w-7 p-0 text-gray-500 hover:text-gray-900"
+            title="New folder"
+          >
+            <FolderPlus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <nav className="space-y-1">
+          <button className={itemClass(selectedFolder === null)} onClick={() => onSelectFolder(null)}>
+            <Files className="w-4 h-4" />
+            All documents
+          </button>
+          <button className={itemClass(selectedFolder === UNFILED)} onClick={() => onSelectFolder(UNFILED)}>
+            <Inbox className="w-4 h-4" />
+            Unfiled
+          </button>
+
+          {folders.map((folder) => (
+            renaming?.id === folder.id ? (
+              <form key={folder.id} onSubmit={handleRename}>
+                <Input
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={() => setRenaming(null)}
+                  onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+                  className="h-9"
+                  autoFocus
+                />
+              </form>
+            ) : (
+              <div key={folder.id} className="group flex items-center">
+                <button className={itemClass(selectedFolder === folder.id)} onClick={() => onSelectFolder(folder.id)}>
+                  <FolderIcon className="w-4 h-4 shrink-0" />
+                  <span className="truncate">{folder.name}</span>
+                </button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 shrink-0 text-gray-400 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                      aria-label={`${folder.name} options`}
+                    >
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onSelect={() => {
+                        setRenaming(folder);
+                        setRenameValue(folder.name);
+                      }}
+                    >
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-red-600" onSelect={() => onDeleteFolder(folder)}>
+                      Delete folder
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )
+          ))}
+
+          {isCreating && (
+            <form onSubmit={handleCreate}>
+              <Input
+                placeholder="Folder name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onBlur={() => !newName.trim() && setIsCreating(false)}
+                onKeyDown={(e) => e.key === "Escape" && setIsCreating(false)}
+                className="h-9"
+                autoFocus
+              />
+            </form>
+          )}
+
+          <button className={itemClass(selectedFolder === TRASH)} onClick={() => onSelectFolder(TRASH)}>
+            <Trash2 className="w-4 h-4" />
+            Trash
+          </button>
+        </nav>
+      </div>
+
+      {tags.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Tags</h3>
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => onSelectTag(selectedTag === tag ? null : tag)}
+                className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${
+                  selectedTag === tag ? "bg-primary text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                <Tag className="w-3 h-3" />
+                {tag}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default FolderSidebar;
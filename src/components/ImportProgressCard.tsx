@@ -0,0 +1,51 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, X } from "lucide-react";
+import type { ImportProgress } from "@/hooks/useDocumentImport";
+
+interface ImportProgressCardProps {
+  progress: ImportProgress;
+  onDismiss: () => void;
+}
+
+// Floating status of a file import, with the files that couldn't be read
+const ImportProgressCard = ({ progress, onDismiss }: ImportProgressCardProps) => {
+  const isFinished = progress.current === null;
+
+  return (
+    <Card className="fixed bottom-6 right-6 z-50 w-80 shadow-lg">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-900">
+            {isFinished ? "Import finished" : `Importing ${Math.min(progress.done + 1, progress.total)} of ${progress.total}`}
+          </h3>
+          {isFinished && (
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-gray-500" onClick={onDismiss} aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+
+        {progress.current && <p className="text-xs text-gray-500 truncate">{progress.current}</p>}
+
+        {progress.failures.length > 0 && (
+          <ul className="space-y-1 max-h-32 overflow-y-auto">
+            {progress.failures.map((failure, index) => (
+              <li key={index} className="flex items-start gap-2 text-xs text-red-700">
+                <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                <span>
+                  <span className="font-medium">{failure.name}</span>: {failure.reason}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ImportProgressCard;
@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileText, LayoutTemplate, Plus, X } from "lucide-react";
+import { BUILT_IN_TEMPLATES, DocumentTemplate, findPlaceholders } from "@/lib/templates";
+
+interface NewDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Templates the user saved from their own documents
+  userTemplates: DocumentTemplate[];
+  // A null template creates a blank document
+  onCreate: (template: DocumentTemplate | null, values: Record<string, string>) => Promise<boolean>;
+  onDeleteTemplate: (template: DocumentTemplate) => void;
+}
+
+const TemplateTile = ({
+  name,
+  description,
+  icon,
+  onSelect,
+  onDelete,
+}: {
+  name: string;
+  description: string;
+  icon: React.ReactNode;
+  onSelect: () => void;
+  onDelete?: () => void;
+}) => (
+  <div className="group relative">
+    <button
+      onClick={onSelect}
+      className="w-full h-full text-left rounded-lg border border-gray-200 p-4 hover:border-primary hover:bg-primary/5 transition-colors"
+    >
+      <div className="flex items-center gap-2 mb-1 pr-5">
+        {icon}
+        <span className="font-medium text-gray-900 truncate">{name}</span>
+      </div>
+      <p className="text-xs text-gray-500 line-clamp-2">{description}</p>
+    </button>
+    {onDelete && (
+      <button
+        onClick={onDelete}
+        className="absolute top-2 right-2 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+        aria-label={`Delete ${name}`}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    )}
+  </div>
+);
+
+// Picks a template for a new document, then asks for its placeholders
+const NewDocumentDialog = ({ open, onOpenChange, userTemplates, onCreate, onDeleteTemplate }: NewDocumentDialogProps) => {
+  const [selected, setSelected] = useState<DocumentTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSelected(null);
+      setValues({});
+    }
+  }, [open]);
+
+  const placeholders = selected ? findPlaceholders(selected) : [];
+
+  const create = async (template: DocumentTemplate | null, filled: Record<string, string>) => {
+    setIsCreating(true);
+    try {
+      if (await onCreate(template, filled)) onOpenChange(false);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSelect = (template: DocumentTemplate) => {
+    if (findPlaceholders(template).length === 0) {
+      create(template, {});
+    } else {
+      setSelected(template);
+      setValues({});
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected) create(selected, values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        {selected ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{selected.name}</DialogTitle>
+              <DialogDescription>
+                Fill in the details below. Anything left blank stays as a placeholder you can fill in later.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3 max-h-[50vh] overflow-y-auto px-1">
+              {placeholders.map((name, index) => (
+                <div key={name} className="space-y-1">
+                  <Label htmlFor={`placeholder-${index}`}>{name}</Label>
+                  <Input
+                    id={`placeholder-${index}`}
+                    value={values[name] || ""}
+                    onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                    autoFocus={index === 0}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSelected(null)}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isCreating}>
+                Create document
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>New document</DialogTitle>
+              <DialogDescription>Start from a blank page or a template.</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <TemplateTile
+                  name="Blank document"
+                  description="Start from an empty page"
+                  icon={<Plus className="w-4 h-4 text-gray-500" />}
+                  onSelect={() => !isCreating && create(null, {})}
+                />
+                {BUILT_IN_TEMPLATES.map((template) => (
+                  <TemplateTile
+                    key={template.id}
+                    name={template.name}
+                    description={template.description}
+                    icon={<FileText className="w-4 h-4 text-primary" />}
+                    onSelect={() => !isCreating && handleSelect(template)}
+                  />
+                ))}
+              </div>
+
+              {userTemplates.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Your templates</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {userTemplates.map((template) => (
+                      <TemplateTile
+                        key={template.id}
+                        name={template.name}
+                        description={template.description || template.title}
+                        icon={<LayoutTemplate className="w-4 h-4 text-accent" />}
+                        onSelect={() => !isCreating && handleSelect(template)}
+                        onDelete={() => onDeleteTemplate(template)}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewDocumentDialog;
@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, RotateCcw, X } from "lucide-react";
+import type { DecorationRect } from "@/hooks/useDecorationRects";
+import type { RewriteRequest } from "@/hooks/useSentenceRewrite";
+
+interface RewritePopoverProps {
+  request: RewriteRequest;
+  anchor: DecorationRect;
+  // Absent for readers who can't edit
+  onAccept?: (request: RewriteRequest) => void;
+  onRetry: (request: RewriteRequest) => void;
+  onDismiss: () => void;
+}
+
+// An easier version of a sentence shaded as hard to read
+const RewritePopover = ({ request, anchor, onAccept, onRetry, onDismiss }: RewritePopoverProps) => {
+  const { sentence, status, rewrite } = request;
+
+  return (
+    <div
+      className="absolute z-20 w-80 rounded-lg border border-gray-200 bg-white p-3 shadow-lg"
+      style={{ left: anchor.left, top: anchor.top + anchor.height + 6 }}
+      // Clicks here are not clicks on the text underneath
+      onClick={(e) => e.stopPropagation()}
+      // Keep the caret where it is in the writing surface
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Badge
+          variant="outline"
+          className={`text-xs ${sentence.difficulty === "very-hard" ? "border-red-300 text-red-700" : "border-amber-300 text-amber-700"}`}
+        >
+          {sentence.difficulty === "very-hard" ? "Very hard to read" : "Hard to read"}
+        </Badge>
+        <span className="text-xs text-gray-500">
+          {sentence.words} words · grade {Math.round(sentence.grade)}
+        </span>
+      </div>
+
+      {status === "loading" && (
+        <div className="flex items-center gap-2 py-2 text-sm text-gray-600">
+          <div className="w-4 h-4 border-2 border-green-600 border-t-transparent rounded-full animate-spin" />
+          Writing an easier version...
+        </div>
+      )}
+
+      {status === "failed" && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">Couldn't get a rewrite right now.</p>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => onRetry(request)} className="flex-1 text-xs h-7">
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Try again
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onDismiss} className="text-xs h-7">
+              Close
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status === "ready" && !rewrite && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            No easier version to suggest. Try splitting it into shorter sentences or using simpler words.
+          </p>
+          <Button size="sm" variant="ghost" onClick={onDismiss} className="text-xs h-7">
+            Close
+          </Button>
+        </div>
+      )}
+
+      {status === "ready" && rewrite && (
+        <>
+          <p className="text-sm font-medium text-green-700 mb-1 leading-relaxed">{rewrite.text}</p>
+          {rewrite.explanation && <p className="text-xs text-gray-600 mb-3 leading-relaxed">{rewrite.explanation}</p>}
+          <div className="flex gap-2">
+            {onAccept && (
+              <Button
+                size="sm"
+                onClick={() => onAccept(request)}
+                className="bg-green-600 hover:bg-green-700 text-white flex-1 text-xs h-7"
+              >
+                <CheckCircle className="w-3 h-3 mr-1" />
+                Use this
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onDismiss}
+              className="border-gray-300 text-gray-700 hover:bg-gray-50 flex-1 text-xs h-7"
+            >
+              <X className="w-3 h-3 mr-1" />
+              Dismiss
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RewritePopover;
@@ -0,0 +1,81 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { countWords } from "@/lib/textDiff";
+
+interface SaveConflictDialogProps {
+  open: boolean;
+  ourTitle: string;
+  ourContent: string;
+  theirTitle: string;
+  theirContent: string;
+  // When the other copy was saved
+  theirUpdatedAt: string;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  onMerge: () => void;
+}
+
+const VersionPreview = ({ heading, title, content }: { heading: string; title: string; content: string }) => (
+  <div className="flex flex-col min-w-0">
+    <div className="flex items-baseline justify-between mb-2">
+      <p className="text-sm font-semibold text-gray-900">{heading}</p>
+      <p className="text-xs text-gray-500">{countWords(content)} words</p>
+    </div>
+    <ScrollArea className="h-72 border rounded-md p-3 bg-gray-50">
+      <p className="font-medium text-gray-900 mb-2">{title}</p>
+      <div className="whitespace-pre-wrap text-sm text-gray-700 font-serif">{content || "(empty)"}</div>
+    </ScrollArea>
+  </div>
+);
+
+// Shown when a save finds the document was changed in another tab or device
+const SaveConflictDialog = ({
+  open,
+  ourTitle,
+  ourContent,
+  theirTitle,
+  theirContent,
+  theirUpdatedAt,
+  onKeepMine,
+  onUseTheirs,
+  onMerge,
+}: SaveConflictDialogProps) => (
+  <Dialog open={open}>
+    <DialogContent className="sm:max-w-4xl [&>button]:hidden" onEscapeKeyDown={(e) => e.preventDefault()} onPointerDownOutside={(e) => e.preventDefault()}>
+      <DialogHeader>
+        <DialogTitle>This document was changed somewhere else</DialogTitle>
+        <DialogDescription>
+          Another tab or device saved a different version at {new Date(theirUpdatedAt).toLocaleString()}.
+          Your changes have not been saved yet. Choose which version to keep, or merge them.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid grid-cols-2 gap-4">
+        <VersionPreview heading="Your version" title={ourTitle} content={ourContent} />
+        <VersionPreview heading="Their version" title={theirTitle} content={theirContent} />
+      </div>
+
+      <DialogFooter className="gap-2 sm:gap-0">
+        <Button variant="outline" onClick={onUseTheirs}>
+          Use theirs
+        </Button>
+        <Button variant="outline" onClick={onMerge}>
+          Merge both
+        </Button>
+        <Button onClick={onKeepMine} className="bg-green-600 hover:bg-green-700 text-white">
+          Keep mine
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
+
+export default SaveConflictDialog;
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import ShareLinks from "@/components/ShareLinks";
+import {
+  DOCUMENT_ROLES,
+  DocumentAccess,
+  DocumentMember,
+  DocumentRole,
+  documentRoleLabel,
+  fetchDocumentMembers,
+  inviteDocumentMember,
+  removeDocumentMember,
+  updateDocumentMemberRole,
+} from "@/lib/documentMembers";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId: string;
+  documentTitle: string;
+  // The current user's access; only owners can change who has access
+  access: DocumentAccess;
+  currentUserId: string;
+}
+
+// Postgres error codes raised by invite_document_member
+const inviteErrorMessage = (error: { code?: string; message?: string }) => {
+  if (error.code === "P0002") return "There is no account with that email. Ask them to sign up first.";
+  if (error.code === "22023") return "You already own this document.";
+  return "Failed to share the document";
+};
+
+const RoleSelect = ({ value, onChange }: { value: DocumentRole; onChange: (role: DocumentRole) => void }) => (
+  <Select value={value} onValueChange={(role) => onChange(role as DocumentRole)}>
+    <SelectTrigger className="w-32 h-9">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {DOCUMENT_ROLES.map((role) => (
+        <SelectItem key={role.value} value={role.value}>
+          {role.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Invites people to a document by email and manages their roles and the
+// document's public links
+const ShareDialog = ({ open, onOpenChange, documentId, documentTitle, access, currentUserId }: ShareDialogProps) => {
+  const { toast } = useToast();
+  const [members, setMembers] = useState<DocumentMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<DocumentRole>("editor");
+  const [isInviting, setIsInviting] = useState(false);
+  const isOwner = access === "owner";
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await fetchDocumentMembers(documentId));
+    } catch (error) {
+      console.error('Error fetching document members:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load who has access",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId, toast]);
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, loadMembers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsInviting(true);
+    try {
+      await inviteDocumentMember(documentId, email.trim(), role);
+      setEmail("");
+      toast({
+        title: "Document shared",
+        description: `${email.trim()} can now open "${documentTitle}"`,
+      });
+      await loadMembers();
+    } catch (error) {
+      console.error('Error sharing document:', error);
+      toast({
+        title: "Error",
+        description: inviteErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleChangeRole = async (member: DocumentMember, nextRole: DocumentRole) => {
+    try {
+      await updateDocumentMemberRole(documentId, member.user_id, nextRole);
+      setMembers(prev => prev.map(m => (m.user_id === member.user_id ? { ...m, role: nextRole } : m)));
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change the role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (member: DocumentMember) => {
+    try {
+      await removeDocumentMember(documentId, member.user_id);
+      setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{documentTitle}"</DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? "Invite people who already have an account. Viewers can read, commenters can also comment and editors can change the text."
+              : "Only the owner can change who has access."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="flex-1"
+            />
+            <RoleSelect value={role} onChange={setRole} />
+            <Button
+              type="submit"
+              disabled={isInviting || !email.trim()}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              Invite
+            </Button>
+          </form>
+        )}
+
+        <div className="mt-2">
+          <p className="text-sm font-medium text-gray-900 mb-2">People with access</p>
+          {isLoading ? (
+            <div className="text-center py-4 text-sm text-gray-500">Loading...</div>
+          ) : (
+            <ul className="divide-y">
+              {members.map((member) => (
+                <li key={member.user_id} className="flex items-center justify-between gap-3 py-2">
+                  <span className="text-sm text-gray-800 truncate">
+                    {member.email}
+                    {member.user_id === currentUserId && <span className="text-gray-500"> (you)</span>}
+                  </span>
+                  {isOwner && member.role !== "owner" ? (
+                    <div className="flex items-center gap-1">
+                      <RoleSelect value={member.role as DocumentRole} onChange={(next) => handleChangeRole(member, next)} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(member)}
+                        className="h-9 w-9 p-0 text-gray-500 hover:text-red-600"
+                        title="Remove access"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant="outline">{documentRoleLabel(member.role)}</Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {isOwner && (
+          <div className="border-t pt-4">
+            <ShareLinks documentId={documentId} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
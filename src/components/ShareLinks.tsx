@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Link2, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SHARE_LINK_EXPIRY_OPTIONS,
+  ShareLink,
+  createShareLink,
+  fetchShareLinks,
+  isShareLinkActive,
+  revokeShareLink,
+  shareLinkUrl,
+} from "@/lib/shareLinks";
+
+interface ShareLinksProps {
+  documentId: string;
+}
+
+const describeLink = (link: ShareLink) => {
+  if (link.revoked_at) return "Turned off";
+  if (link.expires_at && new Date(link.expires_at) <= new Date()) return "Expired";
+  return link.expires_at ? `Expires ${new Date(link.expires_at).toLocaleDateString()}` : "No expiry";
+};
+
+// Public read-only links to a document, for people without an account
+const ShareLinks = ({ documentId }: ShareLinksProps) => {
+  const { toast } = useToast();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expiry, setExpiry] = useState("7");
+  const [password, setPassword] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLinks(await fetchShareLinks(documentId));
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load share links",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId, toast]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareLinkUrl(token));
+      toast({
+        title: "Link copied",
+        description: "Anyone with the link can read this document",
+      });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const days = SHARE_LINK_EXPIRY_OPTIONS.find(option => option.value === expiry)?.days ?? null;
+
+    setIsCreating(true);
+    try {
+      const token = await createShareLink(documentId, password || null, days);
+      setPassword("");
+      await loadLinks();
+      await copyLink(token);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the link",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      await revokeShareLink(link.id);
+      setLinks(prev => prev.map(l => (l.id === link.id ? { ...l, revoked_at: new Date().toISOString() } : l)));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to turn off the link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-900 mb-2">Public links</p>
+      <form onSubmit={handleCreate} className="flex gap-2 mb-3">
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-40 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="password"
+          placeholder="Password (optional)"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="flex-1 h-9"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={isCreating} className="h-9">
+          <Link2 className="w-4 h-4 mr-1" />
+          Create link
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="text-center py-4 text-sm text-gray-500">Loading...</div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">No links yet. Links open a read-only copy without signing in.</p>
+      ) : (
+        <ul className="divide-y">
+          {links.map((link) => {
+            const isActive = isShareLinkActive(link);
+            return (
+              <li key={link.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-sm truncate ${isActive ? "text-gray-800" : "text-gray-400 line-through"}`}>
+                      …/share/{link.token.slice(0, 8)}
+                    </span>
+                    {link.has_password && <Lock className="w-3 h-3 text-gray-500" />}
+                    {!isActive && <Badge variant="outline" className="text-[10px] px-1.5 py-0">{describeLink(link)}</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {link.view_count} view{link.view_count !== 1 ? 's' : ''}
+                    {isActive && ` · ${describeLink(link)}`}
+                  </p>
+                </div>
+                {isActive && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyLink(link.token)}
+                      className="h-8 w-8 p-0 text-gray-500 hover:text-gray-900"
+                      title="Copy link"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(link)}
+                      className="h-8 text-xs text-gray-500 hover:text-red-600"
+                    >
+                      Turn off
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinks;
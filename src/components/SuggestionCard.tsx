@@ -2,24 +2,35 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, X } from "lucide-react";
-
-interface Suggestion {
-  id: string;
-  type: "grammar" | "spelling" | "style" | "punctuation";
-  position: { start: number; end: number };
-  original: string;
-  correction: string;
-  explanation: string;
-}
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BookPlus, CheckCircle, ChevronDown, X } from "lucide-react";
+import { useState } from "react";
+import type { Suggestion } from "@/hooks/useGrammarCheck";
+import { DISMISS_REASONS, DismissReason } from "@/lib/suppressions";
 
 interface SuggestionCardProps {
   suggestion: Suggestion;
   onAccept: (suggestion: Suggestion) => void;
   onReject: (suggestion: Suggestion) => void;
+  // Dismisses the suggestion and stops similar ones from being suggested
+  onDismiss?: (suggestion: Suggestion, reason: DismissReason, thisDocumentOnly: boolean) => void;
+  // Offered for spelling suggestions
+  onAddToDictionary?: (suggestion: Suggestion) => void;
+  isActive?: boolean;
+  onFocus?: (suggestion: Suggestion) => void;
 }
 
-const SuggestionCard = ({ suggestion, onAccept, onReject }: SuggestionCardProps) => {
+const SuggestionCard = ({ suggestion, onAccept, onReject, onDismiss, onAddToDictionary, isActive, onFocus }: SuggestionCardProps) => {
+  const [thisDocumentOnly, setThisDocumentOnly] = useState(false);
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case "grammar":
@@ -51,7 +62,13 @@ const SuggestionCard = ({ suggestion, onAccept, onReject }: SuggestionCardProps)
   };
 
   return (
-    <Card className="border border-gray-200 hover:border-gray-300 transition-colors">
+    <Card
+      data-suggestion-card={suggestion.id}
+      className={`border transition-colors ${
+        isActive ? "border-green-500 ring-1 ring-green-500" : "border-gray-200 hover:border-gray-300"
+      }`}
+      onClick={() => onFocus?.(suggestion)}
+    >
       <CardContent className="p-4">
         <div className="flex items-start justify-between mb-3">
           <div className="flex items-center gap-2">
@@ -88,16 +105,63 @@ const SuggestionCard = ({ suggestion, onAccept, onReject }: SuggestionCardProps)
             <CheckCircle className="w-3 h-3 mr-1" />
             Accept
           </Button>
+          <div className="flex flex-1">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onReject(suggestion)}
+              className={`border-gray-300 text-gray-700 hover:bg-gray-50 flex-1 text-xs h-8 ${onDismiss ? "rounded-r-none" : ""}`}
+            >
+              <X className="w-3 h-3 mr-1" />
+              Ignore
+            </Button>
+            {onDismiss && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-300 border-l-0 text-gray-700 hover:bg-gray-50 rounded-l-none h-8 px-2"
+                    aria-label="Dismiss with a reason"
+                  >
+                    <ChevronDown className="w-3 h-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="text-xs text-gray-500">Don't suggest this again</DropdownMenuLabel>
+                  {DISMISS_REASONS.map((reason) => (
+                    <DropdownMenuItem
+                      key={reason.value}
+                      onSelect={() => onDismiss(suggestion, reason.value, thisDocumentOnly)}
+                    >
+                      {reason.label}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuCheckboxItem
+                    checked={thisDocumentOnly}
+                    onCheckedChange={(checked) => setThisDocumentOnly(checked === true)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    Only in this document
+                  </DropdownMenuCheckboxItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        </div>
+
+        {onAddToDictionary && suggestion.type === "spelling" && (
           <Button
             size="sm"
-            variant="outline"
-            onClick={() => onReject(suggestion)}
-            className="border-gray-300 text-gray-700 hover:bg-gray-50 flex-1 text-xs h-8"
+            variant="ghost"
+            onClick={() => onAddToDictionary(suggestion)}
+            className="w-full mt-2 text-xs h-8 text-gray-600 hover:text-gray-900"
           >
-            <X className="w-3 h-3 mr-1" />
-            Ignore
+            <BookPlus className="w-3 h-3 mr-1" />
+            Add "{suggestion.original}" to dictionary
           </Button>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
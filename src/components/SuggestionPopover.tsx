@@ -0,0 +1,65 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, X } from "lucide-react";
+import type { Suggestion } from "@/hooks/useGrammarCheck";
+import type { DecorationRect } from "@/hooks/useDecorationRects";
+
+interface SuggestionPopoverProps {
+  suggestion: Suggestion;
+  anchor: DecorationRect;
+  onAccept: (suggestion: Suggestion) => void;
+  onReject: (suggestion: Suggestion) => void;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+}
+
+const SuggestionPopover = ({
+  suggestion,
+  anchor,
+  onAccept,
+  onReject,
+  onMouseEnter,
+  onMouseLeave,
+}: SuggestionPopoverProps) => {
+  return (
+    <div
+      className="absolute z-20 w-72 rounded-lg border border-gray-200 bg-white p-3 shadow-lg"
+      style={{ left: anchor.left, top: anchor.top + anchor.height + 6 }}
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+      // Keep the caret where it is in the writing surface
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Badge variant="outline" className="text-xs capitalize">
+          {suggestion.type}
+        </Badge>
+        <span className="text-sm text-gray-500 line-through truncate">{suggestion.original}</span>
+        <span className="text-sm text-gray-400">→</span>
+        <span className="text-sm font-medium text-green-700 truncate">{suggestion.correction}</span>
+      </div>
+      <p className="text-xs text-gray-600 mb-3 leading-relaxed">{suggestion.explanation}</p>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => onAccept(suggestion)}
+          className="bg-green-600 hover:bg-green-700 text-white flex-1 text-xs h-7"
+        >
+          <CheckCircle className="w-3 h-3 mr-1" />
+          Accept
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onReject(suggestion)}
+          className="border-gray-300 text-gray-700 hover:bg-gray-50 flex-1 text-xs h-7"
+        >
+          <X className="w-3 h-3 mr-1" />
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionPopover;
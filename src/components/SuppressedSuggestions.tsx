@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Suppression,
+  deleteSuppression,
+  dismissReasonLabel,
+  fetchSuppressions,
+} from "@/lib/suppressions";
+
+// Lists the user's suppressed suggestions and lets them restore each one
+const SuppressedSuggestions = () => {
+  const { toast } = useToast();
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSuppressions = useCallback(async () => {
+    try {
+      setSuppressions(await fetchSuppressions());
+    } catch (error) {
+      console.error('Error fetching suppressions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load suppressed suggestions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadSuppressions();
+  }, [loadSuppressions]);
+
+  const handleRestore = async (suppression: Suppression) => {
+    try {
+      await deleteSuppression(suppression.id);
+      setSuppressions(prev => prev.filter(s => s.id !== suppression.id));
+      toast({
+        title: "Suggestion restored",
+        description: `"${suppression.original}" will be suggested again`,
+      });
+    } catch (error) {
+      console.error('Error restoring suggestion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore suggestion",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Suppressed suggestions</CardTitle>
+        <CardDescription>
+          Suggestions you dismissed with a reason are no longer shown. Restore one to see it again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : suppressions.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">You haven't suppressed any suggestions.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Suggestion</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Dismissed</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppressions.map((suppression) => (
+                <TableRow key={suppression.id}>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">{suppression.type}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-red-800 line-through">{suppression.original}</span>
+                    {" → "}
+                    <span className="text-green-800 font-medium">{suppression.correction}</span>
+                  </TableCell>
+                  <TableCell>{dismissReasonLabel(suppression.reason)}</TableCell>
+                  <TableCell className="text-gray-600">
+                    {suppression.document_id ? suppression.documents?.title || "One document" : "All documents"}
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {new Date(suppression.created_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleRestore(suppression)}>
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>  );
+};
+
+export default SuppressedSuggestions;
@@ -0,0 +1,90 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, X } from "lucide-react";
+import type { TrackedChangeGroup } from "@/lib/trackedChanges";
+
+interface TrackedChangeCardProps {
+  group: TrackedChangeGroup;
+  // Left out for people who can't edit the document
+  onAccept?: (group: TrackedChangeGroup) => void;
+  onReject?: (group: TrackedChangeGroup) => void;
+  isActive?: boolean;
+  onFocus?: (group: TrackedChangeGroup) => void;
+}
+
+const changeLabel = (group: TrackedChangeGroup) => {
+  if (group.deleted && group.inserted) return "Replaced";
+  return group.deleted ? "Deleted" : "Inserted";
+};
+
+// A change proposed in Suggesting mode, laid out like a writing suggestion
+const TrackedChangeCard = ({ group, onAccept, onReject, isActive, onFocus }: TrackedChangeCardProps) => {
+  return (
+    <Card
+      data-tracked-change-card={group.id}
+      className={`border transition-colors ${
+        isActive ? "border-green-500 ring-1 ring-green-500" : "border-gray-200 hover:border-gray-300"
+      }`}
+      onClick={() => onFocus?.(group)}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <Badge variant="outline" className="text-xs bg-gray-50 text-gray-700 border-gray-200">
+            {changeLabel(group)}
+          </Badge>
+          <span className="text-xs text-gray-500 truncate">
+            {group.authorName} · {new Date(group.createdAt).toLocaleString()}
+          </span>
+        </div>
+
+        <div className="space-y-3 mb-4">
+          {group.deleted && (
+            <div className="bg-red-50 border border-red-200 rounded p-2">
+              <span className="text-sm text-red-800 line-through whitespace-pre-wrap break-words">
+                {group.deleted}
+              </span>
+            </div>
+          )}
+          {group.inserted && (
+            <div className="bg-green-50 border border-green-200 rounded p-2">
+              <span className="text-sm text-green-800 font-medium whitespace-pre-wrap break-words">
+                {group.inserted}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {onAccept && onReject && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                onAccept(group);
+              }}
+              className="bg-green-600 hover:bg-green-700 text-white flex-1 text-xs h-8"
+            >
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Accept
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={(e) => {
+                e.stopPropagation();
+                onReject(group);
+              }}
+              className="border-gray-300 text-gray-700 hover:bg-gray-50 flex-1 text-xs h-8"
+            >
+              <X className="w-3 h-3 mr-1" />
+              Reject
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrackedChangeCard;
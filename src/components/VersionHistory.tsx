@@ -0,0 +1,175 @@
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { RotateCcw } from "lucide-react";
+import type { DocumentVersion } from "@/lib/versionHistory";
+import { DiffOp, diffStats, diffWords } from "@/lib/textDiff";
+
+interface VersionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: DocumentVersion[];
+  isLoading: boolean;
+  // Plain text of the document as it is now
+  currentContent: string;
+  // Not set for people who can only read the document
+  onRestore?: (version: DocumentVersion) => void;
+}
+
+const formatVersionTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : delta < 0 ? `−${-delta}` : "±0");
+
+const DiffText = ({ ops, show }: { ops: DiffOp[]; show: DiffOp["type"][] }) => (
+  <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800 font-serif">
+    {ops
+      .filter((op) => show.includes(op.type))
+      .map((op, index) =>
+        op.type === "insert" ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">{op.text}</ins>
+        ) : op.type === "delete" ? (
+          <del key={index} className="bg-red-100 text-red-900">{op.text}</del>
+        ) : (
+          <span key={index}>{op.text}</span>
+        )
+      )}
+  </div>
+);
+
+// Lists a document's snapshots and shows what changed between a snapshot and
+// the current text
+const VersionHistory = ({
+  open,
+  onOpenChange,
+  versions,
+  isLoading,
+  currentContent,
+  onRestore,
+}: VersionHistoryProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = versions.find((version) => version.id === selectedId) || versions[0] || null;
+
+  const ops = useMemo(
+    () => (selected && open ? diffWords(selected.content, currentContent) : []),
+    [selected, currentContent, open]
+  );
+  const stats = diffStats(ops);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription>
+            Snapshots are taken every few minutes while you write, when you save, and before bulk changes.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading versions...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No versions yet.</div>
+        ) : (
+          <div className="flex flex-1 min-h-0 gap-4 mt-4">
+            <ScrollArea className="w-60 shrink-0 border-r pr-3">
+              <div className="space-y-1">
+                {versions.map((version, index) => {
+                  const previous = versions[index + 1];
+                  const delta = previous ? version.word_count - previous.word_count : version.word_count;
+                  return (
+                    <button
+                      key={version.id}
+                      type="button"
+                      onClick={() => setSelectedId(version.id)}
+                      className={`w-full text-left rounded-md px-3 py-2 text-sm transition-colors ${
+                        version.id === selected?.id ? "bg-green-50 border border-green-200" : "hover:bg-gray-50 border border-transparent"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900">{formatVersionTime(version.created_at)}</span>
+                        <span className={`text-xs ${delta > 0 ? "text-green-700" : delta < 0 ? "text-red-700" : "text-gray-500"}`}>
+                          {formatDelta(delta)}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 mt-1">
+                        {version.kind === "milestone" && (
+                          <Badge variant="outline" className="text-[10px] px-1.5 py-0">Milestone</Badge>
+                        )}
+                        <span className="text-xs text-gray-500 truncate">
+                          {version.label || `${version.word_count} words`}
+                        </span>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="text-sm text-gray-600">
+                    Changes since this version:{" "}
+                    <span className="text-green-700">+{stats.added}</span>{" "}
+                    <span className="text-red-700">−{stats.removed}</span> words
+                  </div>
+                  {onRestore && (
+                    <Button
+                      size="sm"
+                      onClick={() => onRestore(selected)}
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+
+                <Tabs defaultValue="inline" className="flex-1 min-h-0 flex flex-col">
+                  <TabsList className="self-start">
+                    <TabsTrigger value="inline">Inline</TabsTrigger>
+                    <TabsTrigger value="side-by-side">Side by side</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="inline" className="flex-1 min-h-0">
+                    <ScrollArea className="h-full border rounded-md p-4">
+                      <DiffText ops={ops} show={["equal", "delete", "insert"]} />
+                    </ScrollArea>
+                  </TabsContent>
+                  <TabsContent value="side-by-side" className="flex-1 min-h-0">
+                    <div className="grid grid-cols-2 gap-3 h-full">
+                      <ScrollArea className="h-full border rounded-md p-4">
+                        <p className="text-xs font-medium text-gray-500 mb-2">This version</p>
+                        <DiffText ops={ops} show={["equal", "delete"]} />
+                      </ScrollArea>
+                      <ScrollArea className="h-full border rounded-md p-4">
+                        <p className="text-xs font-medium text-gray-500 mb-2">Current</p>
+                        <DiffText ops={ops} show={["equal", "insert"]} />
+                      </ScrollArea>
+                    </div>
+                  </TabsContent>
+                </Tabs>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,85 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SlidersHorizontal } from "lucide-react";
+import { WRITING_GOAL_OPTIONS, WritingGoals, goalLabel } from "@/lib/writingGoals";
+
+interface WritingGoalsPanelProps {
+  goals: WritingGoals;
+  // Left out for everyone but the owner
+  onChange?: (goals: WritingGoals) => void;
+}
+
+const GOAL_KEYS: (keyof WritingGoals)[] = ["audience", "formality", "domain", "intent"];
+
+const chipClass: Record<keyof WritingGoals, string> = {
+  audience: "bg-green-100 text-green-800",
+  formality: "bg-blue-100 text-blue-800",
+  domain: "bg-purple-100 text-purple-800",
+  intent: "bg-amber-100 text-amber-800",
+};
+
+// The document's writing goals, which the assistant tunes its suggestions to
+const WritingGoalsPanel = ({ goals, onChange }: WritingGoalsPanelProps) => {
+  const setKeys = GOAL_KEYS.filter((key) => goals[key]);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">Goals</h3>
+        {onChange && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-600 hover:text-gray-900">
+                <SlidersHorizontal className="w-3 h-3 mr-1" />
+                Adjust
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 space-y-3">
+              {GOAL_KEYS.map((key) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs text-gray-600">{WRITING_GOAL_OPTIONS[key].label}</Label>
+                  <Select
+                    value={goals[key] ?? ""}
+                    onValueChange={(value) => onChange({ ...goals, [key]: value })}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue placeholder="Not set" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WRITING_GOAL_OPTIONS[key].options.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+      {setKeys.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {setKeys.map((key) => (
+            <span key={key} className={`px-2 py-1 text-xs rounded-full ${chipClass[key]}`}>
+              {WRITING_GOAL_OPTIONS[key].label}: {goalLabel(key, goals[key])}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No goals set</p>
+      )}
+    </div>
+  );
+};
+
+export default WritingGoalsPanel;
@@ -1,64 +1,130 @@
-
-import { useMemo } from "react";
+import { useDeferredValue, useMemo, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { analyzeParagraphs, analyzeSentences, analyzeText, readingEaseLabel } from "@/lib/textStatistics";
 
 interface WritingStatsProps {
-  wordCount: number;
-  writingTime: number;
   content: string;
+  // Whether hard sentences are shaded in the writing surface
+  showHeatmap: boolean;
+  onShowHeatmapChange: (show: boolean) => void;
 }
 
-const WritingStats = ({ wordCount, writingTime, content }: WritingStatsProps) => {
-  const readabilityScore = useMemo(() => {
-    // Simple Flesch-Kincaid approximation
-    if (!content || wordCount === 0) return 0;
-    
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0).length;
-    const syllables = content.split('').filter(char => 'aeiouAEIOU'.includes(char)).length;
-    
-    if (sentences === 0) return 0;
-    
-    const avgWordsPerSentence = wordCount / sentences;
-    const avgSyllablesPerWord = syllables / wordCount;
-    
-    const score = 206.835 - (1.015 * avgWordsPerSentence) - (84.6 * avgSyllablesPerWord);
-    return Math.max(0, Math.min(100, Math.round(score * 10) / 10));
-  }, [content, wordCount]);
+const formatNumber = (value: number) => (Math.round(value * 10) / 10).toString();
+
+const easeColor = (score: number) => {
+  if (score >= 60) return "bg-green-100 text-green-800";
+  if (score >= 30) return "bg-amber-100 text-amber-800";
+  return "bg-red-100 text-red-800";
+};
+
+// Readability of the whole document and how many sentences are hard to read,
+// with every score and a breakdown by paragraph when expanded
+const WritingStats = ({ content, showHeatmap, onShowHeatmapChange }: WritingStatsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Keeps typing responsive in long documents
+  const text = useDeferredValue(content);
 
-  const getReadabilityLabel = (score: number) => {
-    if (score >= 90) return "Very Easy";
-    if (score >= 80) return "Easy";
-    if (score >= 70) return "Fairly Easy";
-    if (score >= 60) return "Standard";
-    if (score >= 50) return "Fairly Difficult";
-    if (score >= 30) return "Difficult";
-    return "Very Difficult";
-  };
+  const statistics = useMemo(() => analyzeText(text), [text]);
+  const paragraphs = useMemo(() => (isOpen ? analyzeParagraphs(text) : []), [text, isOpen]);
+  const sentenceCounts = useMemo(() => {
+    const sentences = analyzeSentences(text);
+    return {
+      hard: sentences.filter(sentence => sentence.difficulty === "hard").length,
+      veryHard: sentences.filter(sentence => sentence.difficulty === "very-hard").length,
+    };
+  }, [text]);
+
+  const metrics = [
+    { label: "Flesch Reading Ease", value: formatNumber(statistics.fleschReadingEase) },
+    { label: "Flesch-Kincaid Grade", value: formatNumber(statistics.fleschKincaidGrade) },
+    { label: "Gunning Fog", value: formatNumber(statistics.gunningFog) },
+    { label: "SMOG", value: formatNumber(statistics.smog) },
+    { label: "Coleman-Liau", value: formatNumber(statistics.colemanLiau) },
+    { label: "Words per sentence", value: formatNumber(statistics.averageSentenceLength) },
+    { label: "Characters per word", value: formatNumber(statistics.averageWordLength) },
+    { label: "Syllables per word", value: formatNumber(statistics.averageSyllablesPerWord) },
+    { label: "Sentences", value: statistics.sentences.toString() },
+    { label: "Complex words", value: statistics.complexWords.toString() },
+  ];
+
+  if (statistics.words === 0) {
+    return (
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-1">Readability</h3>
+        <p className="text-sm text-gray-500">Start writing to see how easy your text is to read</p>
+      </div>
+    );
+  }
 
   return (
-    <div className="stats-bar text-white px-6 py-3">
-      <div className="flex items-center justify-between text-sm">
-        <div className="flex items-center gap-6">
-          <div className="flex items-center gap-2">
-            <span className="text-gray-300">Words:</span>
-            <span className="font-medium">{wordCount}</span>
-          </div>
-          
-          <div className="flex items-center gap-2">
-            <span className="text-gray-300">Readability:</span>
-            <span className="font-medium">{readabilityScore} ({getReadabilityLabel(readabilityScore)})</span>
-          </div>
-          
-          <div className="flex items-center gap-2">
-            <span className="text-gray-300">Writing time:</span>
-            <span className="font-medium">{writingTime} min</span>
-          </div>
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-1">Readability</h3>
+          <p className="text-sm text-gray-600">
+            <span className="font-medium text-gray-900">{formatNumber(statistics.fleschReadingEase)}</span>{" "}
+            {readingEaseLabel(statistics.fleschReadingEase)} · grade {formatNumber(statistics.fleschKincaidGrade)}
+          </p>
         </div>
-        
-        <div className="text-gray-400 text-xs">
-          Connect to Supabase for real-time grammar checking
+        <CollapsibleTrigger className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900">
+          {isOpen ? "Less" : "Details"}
+          <ChevronDown className={`w-3 h-3 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+        </CollapsibleTrigger>
+      </div>
+
+      <div className="mt-3 space-y-2">
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm bg-amber-100 border border-amber-200" />
+            {sentenceCounts.hard} hard
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm bg-red-200" />
+            {sentenceCounts.veryHard} very hard
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="readability-heatmap" className="text-sm font-normal text-gray-600">
+            Shade hard sentences
+          </Label>
+          <Switch id="readability-heatmap" checked={showHeatmap} onCheckedChange={onShowHeatmapChange} />
         </div>
       </div>
-    </div>
+
+      <CollapsibleContent className="mt-3 space-y-4">
+        <dl className="space-y-1.5">
+          {metrics.map(metric => (
+            <div key={metric.label} className="flex justify-between text-sm">
+              <dt className="text-gray-600">{metric.label}</dt>
+              <dd className="font-medium">{metric.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div>
+          <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">By paragraph</h4>
+          <ol className="space-y-1.5 max-h-64 overflow-y-auto">
+            {paragraphs.map((paragraph, index) => (
+              <li key={paragraph.start} className="flex items-center gap-2 text-sm">
+                <span className="w-5 shrink-0 text-xs text-gray-400">{index + 1}</span>
+                <span className="flex-1 truncate text-gray-700" title={paragraph.text}>
+                  {paragraph.text}
+                </span>
+                <span
+                  className={`shrink-0 rounded px-1.5 py-0.5 text-xs font-medium ${easeColor(paragraph.statistics.fleschReadingEase)}`}
+                  title={`${readingEaseLabel(paragraph.statistics.fleschReadingEase)}, grade ${formatNumber(paragraph.statistics.fleschKincaidGrade)}`}
+                >
+                  {Math.round(paragraph.statistics.fleschReadingEase)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
   );
 };
 
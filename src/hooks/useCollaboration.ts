@@ -0,0 +1,289 @@
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { RichDocument } from '@/lib/documentModel';
+import { DocumentAccess, canEditDocument } from '@/lib/documentMembers';
+import type { TextRange } from '@/lib/textEdits';
+import { CharId, CrdtOp, CrdtState, CrdtVersion, TextCrdt, createTextCrdt } from '@/lib/textCrdt';
+
+// Presence (selection and replica progress) is sent at most this often
+const PRESENCE_THROTTLE_MS = 100;
+
+const COLLABORATOR_COLORS = ['#e11d48', '#2563eb', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c'];
+
+const colorFor = (userId: string) => {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+};
+
+interface PresencePayload {
+  userId: string;
+  name: string;
+  color: string;
+  // Edits and states are only taken from sessions that can edit
+  access: DocumentAccess;
+  // When this session joined; the earlier of two sessions that loaded
+  // different saved revisions keeps its copy
+  joinedAt: number;
+  selection: { anchor: CharId | null; head: CharId | null } | null;
+  // The replica this session edits and what it has seen of it; tombstones
+  // are compacted once every session has caught up
+  replica: string;
+  version: CrdtVersion;
+}
+
+// Another editor session on the same document
+export interface Collaborator extends PresencePayload {
+  sessionId: string;
+}
+
+// A collaborator's selection in the local editor's text; collapsed for a caret
+export interface RemoteSelection extends TextRange {
+  sessionId: string;
+  name: string;
+  color: string;
+}
+
+interface OpsPayload {
+  from: string;
+  ops: CrdtOp[];
+}
+
+interface SyncPayload {
+  from: string;
+  joinedAt: number;
+  state: CrdtState;
+  // Set on replies to a single session
+  to?: string;
+}
+
+interface UseCollaborationOptions {
+  documentId: string | undefined;
+  userId: string | undefined;
+  userName: string;
+  // The current user's access; sessions join once it is known
+  access: DocumentAccess | null;
+}
+
+// Live editing of one document by several sessions. Each session keeps a
+// replica (see textCrdt) and exchanges ops and presence over a Realtime
+// channel; nothing goes through the database until the regular save.
+// Channels are private: Realtime only lets members of the document join, and
+// only owners and editors broadcast.
+export const useCollaboration = ({ documentId, userId, userName, access }: UseCollaborationOptions) => {
+  const [sessionId] = useState(() => crypto.randomUUID().slice(0, 8));
+  const [joinedAt, setJoinedAt] = useState<number | null>(null);
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  // Bumped whenever the replica changed in a way the editor has not seen
+  const [remoteChanges, setRemoteChanges] = useState(0);
+  // Bumped on every replica change so remote selections are re-resolved
+  const [replicaVersion, setReplicaVersion] = useState(0);
+  const [remoteSelections, setRemoteSelections] = useState<RemoteSelection[]>([]);
+  const crdtRef = useRef<TextCrdt | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const selectionRef = useRef<PresencePayload['selection']>(null);
+  const presenceTimerRef = useRef<number>();
+  // Builds this session's presence while it is on the channel
+  const presenceRef = useRef<(() => PresencePayload) | null>(null);
+
+  // Starts a replica from the document as loaded at `revision`
+  const startSession = useCallback((document: RichDocument, revision: number) => {
+    crdtRef.current = createTextCrdt(sessionId, document, `init-${revision}`);
+    setJoinedAt(Date.now());
+  }, [sessionId]);
+
+  const schedulePresence = useCallback(() => {
+    if (presenceTimerRef.current !== undefined) return;
+    presenceTimerRef.current = window.setTimeout(() => {
+      presenceTimerRef.current = undefined;
+      const presence = presenceRef.current;
+      if (presence) channelRef.current?.track(presence());
+    }, PRESENCE_THROTTLE_MS);
+  }, []);
+
+  useEffect(() => {
+    if (!documentId || !userId || !access || joinedAt === null) return;
+    const canEdit = canEditDocument(access);
+
+    const presence = (): PresencePayload => ({
+      userId,
+      name: userName,
+      color: colorFor(userId),
+      access,
+      joinedAt,
+      selection: selectionRef.current,
+      replica: crdtRef.current?.replica() ?? '',
+      version: crdtRef.current?.getVersion() ?? {},
+    });
+
+    const notifyRemoteChange = () => {
+      setReplicaVersion(version => version + 1);
+      setRemoteChanges(count => count + 1);
+    };
+
+    // States from a session that joined earlier win when the two replicas
+    // started from different saved revisions
+    const mergeState = (payload: SyncPayload) => {
+      const adopt = payload.joinedAt < joinedAt || (payload.joinedAt === joinedAt && payload.from < sessionId);
+      if (crdtRef.current?.mergeState(payload.state, adopt)) notifyRemoteChange();
+    };
+
+    const channel = supabase.channel(`document:${documentId}`, {
+      config: {
+        private: true,
+        broadcast: { self: false },
+        presence: { key: sessionId },
+      },
+    });
+
+    // Whether a session's presence says it can edit. Realtime already rejects
+    // broadcasts from everyone else; this covers roles changed mid-session.
+    const isEditorSession = (key: string) =>
+      channel.presenceState<PresencePayload>()[key]?.some(meta => canEditDocument(meta.access)) ?? false;
+
+    const sendState = (to: string) => {
+      if (!crdtRef.current) return;
+      channel.send({
+        type: 'broadcast',
+        event: 'sync-state',
+        payload: { from: sessionId, joinedAt, state: crdtRef.current.getState(), to },
+      });
+    };
+
+    channel
+      .on('broadcast', { event: 'ops' }, ({ payload }) => {
+        const { from, ops } = payload as OpsPayload;
+        if (!isEditorSession(from)) return;
+        if (crdtRef.current?.applyRemoteOps(ops)) notifyRemoteChange();
+      })
+      // An editor joined: take its changes and send it ours
+      .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+        if (!isEditorSession(payload.from)) return;
+        mergeState(payload as SyncPayload);
+        if (canEdit) sendState(payload.from);
+      })
+      .on('broadcast', { event: 'sync-state' }, ({ payload }) => {
+        if (payload.to === sessionId && isEditorSession(payload.from)) mergeState(payload as SyncPayload);
+      })
+      // Sessions that can't edit can't ask for the current state, so editors
+      // send it when they see them join
+      .on<PresencePayload>('presence', { event: 'join' }, ({ key, newPresences }) => {
+        if (!canEdit || key === sessionId) return;
+        if (!newPresences.some(meta => canEditDocument(meta.access))) sendState(key);
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        setCollaborators(
+          Object.entries(state)
+            .filter(([key, metas]) => key !== sessionId && metas.length > 0)
+            .map(([key, metas]) => ({ ...metas[0], sessionId: key }))
+        );
+        crdtRef.current?.compact(
+          Object.entries(state)
+            .filter(([key, metas]) => key !== sessionId && metas.length > 0)
+            .map(([, metas]) => metas[0].version)
+        );
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED' || !crdtRef.current) return;
+        await channel.track(presence());
+        if (!canEdit) return;
+        channel.send({
+          type: 'broadcast',
+          event: 'sync-request',
+          payload: { from: sessionId, joinedAt, state: crdtRef.current.getState() },
+        });
+      });
+
+    channelRef.current = channel;
+    presenceRef.current = presence;
+
+    return () => {
+      channelRef.current = null;
+      presenceRef.current = null;
+      window.clearTimeout(presenceTimerRef.current);
+      presenceTimerRef.current = undefined;
+      setCollaborators([]);
+      supabase.removeChannel(channel);
+    };
+  }, [documentId, userId, userName, access, sessionId, joinedAt]);
+
+  // Sends a local edit; `previous` is what the editor showed before it
+  const publishChange = useCallback((previous: RichDocument, next: RichDocument) => {
+    const crdt = crdtRef.current;
+    if (!crdt || previous === next) return;
+    const ops = crdt.applyLocalChange(previous, next);
+    if (ops.length === 0) return;
+    setReplicaVersion(version => version + 1);
+    const payload: OpsPayload = { from: sessionId, ops };
+    channelRef.current?.send({ type: 'broadcast', event: 'ops', payload });
+    schedulePresence();
+  }, [sessionId, schedulePresence]);
+
+  // The document with everyone's changes, for the editor to show, and the
+  // editor's `selection` moved along with the text around it
+  const takeRemoteDocument = useCallback((selection: TextRange | null) => {
+    const crdt = crdtRef.current;
+    if (!crdt) return null;
+    const anchors = selection && { start: crdt.anchorAt(selection.start), end: crdt.anchorAt(selection.end) };
+    const document = crdt.snapshot();
+    setReplicaVersion(version => version + 1);
+    // What the editor shows now decides which tombstones can go
+    schedulePresence();
+
+    const start = anchors ? crdt.offsetOf(anchors.start) : null;
+    const end = anchors ? crdt.offsetOf(anchors.end) : null;
+    return { document, selection: start !== null && end !== null ? { start, end } : null };
+  }, [schedulePresence]);
+
+  const publishSelection = useCallback((range: TextRange | null) => {
+    const crdt = crdtRef.current;
+    if (!crdt) return;
+    selectionRef.current = range
+      ? { anchor: crdt.anchorAt(range.start), head: crdt.anchorAt(range.end) }
+      : null;
+    schedulePresence();
+  }, [schedulePresence]);
+
+  // Selections are stored as character anchors, so they are re-resolved
+  // whenever presence or the replica changes
+  useEffect(() => {
+    const crdt = crdtRef.current;
+    if (!crdt) return;
+
+    const selections: RemoteSelection[] = [];
+    for (const collaborator of collaborators) {
+      if (!collaborator.selection) continue;
+      const anchor = crdt.offsetOf(collaborator.selection.anchor);
+      const head = crdt.offsetOf(collaborator.selection.head);
+      if (anchor === null || head === null) continue;
+      selections.push({
+        sessionId: collaborator.sessionId,
+        name: collaborator.name,
+        color: collaborator.color,
+        start: Math.min(anchor, head),
+        end: Math.max(anchor, head),
+      });
+    }
+    setRemoteSelections(selections);
+  }, [collaborators, replicaVersion]);
+
+  // Whether everyone else who can edit is live on this replica, so whatever
+  // they saved has already reached it
+  const editors = collaborators.filter(collaborator => canEditDocument(collaborator.access));
+  const editorsShareReplica =
+    editors.length > 0 && editors.every(collaborator => collaborator.replica === crdtRef.current?.replica());
+
+  return {
+    collaborators,
+    editorsShareReplica,
+    remoteSelections,
+    remoteChanges,
+    startSession,
+    publishChange,
+    takeRemoteDocument,
+    publishSelection,
+  };
+};
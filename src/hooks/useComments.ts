@@ -0,0 +1,218 @@
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { TextRange, diffText, stretchRange } from '@/lib/textEdits';
+import {
+  CommentRow,
+  CommentThread,
+  buildThreads,
+  createComment,
+  deleteComment,
+  fetchComments,
+  setCommentResolved,
+  updateCommentPositions
+} from '@/lib/comments';
+
+type Positions = Record<string, TextRange>;
+
+// Text picked for a new thread whose first comment is being written
+export interface CommentDraft {
+  position: TextRange;
+  quote: string;
+}
+
+// Comment threads on one document, kept in sync with other sessions. Thread
+// anchors follow the local text as it is edited and are written back after
+// the text itself has been saved, so stored anchors match the stored text.
+export const useComments = (documentId?: string, userId?: string, userName = '') => {
+  const [rows, setRows] = useState<CommentRow[]>([]);
+  const [positions, setPositions] = useState<Positions>({});
+  const positionsRef = useRef<Positions>({});
+  const [draft, setDraft] = useState<CommentDraft | null>(null);
+  // Threads whose anchor moved since the last save
+  const movedRef = useRef(new Set<string>());
+  const { toast } = useToast();
+
+  const updatePositions = useCallback((update: (prev: Positions) => Positions) => {
+    positionsRef.current = update(positionsRef.current);
+    setPositions(positionsRef.current);
+  }, []);
+
+  // Anchors already known locally win over stored ones, which may lag
+  // behind unsaved edits
+  const receiveRows = useCallback((data: CommentRow[]) => {
+    setRows(data);
+    updatePositions(prev => {
+      const next: Positions = {};
+      for (const row of data) {
+        if (row.parent_id) continue;
+        next[row.id] = prev[row.id] ?? { start: row.position_start ?? 0, end: row.position_end ?? 0 };
+      }
+      return next;
+    });
+  }, [updatePositions]);
+
+  const loadComments = useCallback(async () => {
+    if (!documentId) return;
+
+    try {
+      receiveRows(await fetchComments(documentId));
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    }
+  }, [documentId, receiveRows]);
+
+  useEffect(() => {
+    if (!documentId) return;
+    loadComments();
+
+    const channel = supabase
+      .channel(`document_comments:${documentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'document_comments',
+          filter: `document_id=eq.${documentId}`
+        },
+        () => {
+          loadComments();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [documentId, loadComments]);
+
+  const threads = useMemo<CommentThread[]>(
+    () => buildThreads(rows).map(thread => ({ ...thread, position: positions[thread.id] ?? thread.position })),
+    [rows, positions]
+  );
+
+  // Moves the anchors through a change of the editor's text
+  const applyTextChange = useCallback((previous: string, next: string) => {
+    const edit = diffText(previous, next);
+    if (!edit) return;
+
+    updatePositions(prev => {
+      const moved: Positions = {};
+      for (const [id, range] of Object.entries(prev)) {
+        const rebased = stretchRange(range, edit);
+        if (rebased.start !== range.start || rebased.end !== range.end) movedRef.current.add(id);
+        moved[id] = rebased;
+      }
+      return moved;
+    });
+    setDraft(prev => prev && { ...prev, position: stretchRange(prev.position, edit) });
+  }, [updatePositions]);
+
+  // Called after the text has been saved
+  const persistPositions = useCallback(async () => {
+    const moved = [...movedRef.current].filter(id => positionsRef.current[id]);
+    if (moved.length === 0) return;
+    movedRef.current.clear();
+
+    try {
+      await updateCommentPositions(moved.map(id => ({ id, position: positionsRef.current[id] })));
+    } catch (error) {
+      console.error('Error saving comment positions:', error);
+      moved.forEach(id => movedRef.current.add(id));
+    }
+  }, []);
+
+  const showError = useCallback((description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const addRow = useCallback((row: CommentRow) => {
+    setRows(prev => (prev.some(r => r.id === row.id) ? prev : [...prev, row]));
+  }, []);
+
+  const startDraft = useCallback((position: TextRange, quote: string) => {
+    setDraft({ position, quote });
+  }, []);
+
+  const cancelDraft = useCallback(() => {
+    setDraft(null);
+  }, []);
+
+  // Starts a thread on the draft's text
+  const addThread = useCallback(async (body: string) => {
+    if (!documentId || !userId || !draft || !body.trim()) return null;
+
+    try {
+      const row = await createComment(documentId, userId, userName, body.trim(), draft);
+      updatePositions(prev => ({ ...prev, [row.id]: draft.position }));
+      // Written again after the next save in case the text wasn't saved yet
+      movedRef.current.add(row.id);
+      addRow(row);
+      setDraft(null);
+      return row;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      showError("Failed to add the comment");
+      return null;
+    }
+  }, [documentId, userId, userName, draft, updatePositions, addRow, showError]);
+
+  const reply = useCallback(async (threadId: string, body: string) => {
+    if (!documentId || !userId || !body.trim()) return false;
+
+    try {
+      addRow(await createComment(documentId, userId, userName, body.trim(), null, threadId));
+      return true;
+    } catch (error) {
+      console.error('Error replying to comment:', error);
+      showError("Failed to send the reply");
+      return false;
+    }
+  }, [documentId, userId, userName, addRow, showError]);
+
+  const setResolved = useCallback(async (threadId: string, resolved: boolean) => {
+    if (!userId) return;
+
+    try {
+      await setCommentResolved(threadId, userId, resolved);
+      setRows(prev => prev.map(row => (
+        row.id === threadId
+          ? { ...row, resolved_at: resolved ? new Date().toISOString() : null, resolved_by: resolved ? userId : null }
+          : row
+      )));
+    } catch (error) {
+      console.error('Error resolving comment:', error);
+      showError(resolved ? "Failed to resolve the comment" : "Failed to reopen the comment");
+    }
+  }, [userId, showError]);
+
+  // Deleting a thread's first comment deletes its replies too
+  const remove = useCallback(async (commentId: string) => {
+    try {
+      await deleteComment(commentId);
+      setRows(prev => prev.filter(row => row.id !== commentId && row.parent_id !== commentId));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      showError("Failed to delete the comment");
+    }
+  }, [showError]);
+
+  return {
+    threads,
+    draft,
+    startDraft,
+    cancelDraft,
+    addThread,
+    reply,
+    setResolved,
+    remove,
+    applyTextChange,
+    persistPositions
+  };
+};
@@ -0,0 +1,119 @@
+
+import { RefObject, useCallback, useEffect, useLayoutEffect, useState } from 'react';
+import { offsetToPoint } from '@/lib/editorSelection';
+
+// A plain-text range of the document to draw something over. An empty range
+// (start === end) is measured as a caret.
+export interface Decoration {
+  id: string;
+  start: number;
+  end: number;
+}
+
+// One line box of a decoration, in the scroll container's content coordinates
+export interface DecorationRect {
+  id: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Collapsed ranges have no client rects inside empty blocks, so fall back to
+// the start of the element the caret sits in
+const caretRect = (range: Range, node: Node) => {
+  const rect = range.getClientRects()[0];
+  if (rect) return rect;
+  const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+  if (!element) return null;
+  const box = element.getBoundingClientRect();
+  const lineHeight = parseFloat(getComputedStyle(element).lineHeight);
+  return new DOMRect(box.left, box.top, 0, lineHeight || box.height);
+};
+
+// Measures where decorations sit inside the writing surface so overlays can be
+// drawn on top of it without touching the contentEditable DOM. `layoutKey`
+// should change whenever the surface text changes.
+export const useDecorationRects = (
+  containerRef: RefObject<HTMLElement>,
+  surfaceRef: RefObject<HTMLElement>,
+  decorations: Decoration[],
+  layoutKey: unknown
+) => {
+  const [rects, setRects] = useState<DecorationRect[]>([]);
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    const surface = surfaceRef.current;
+    if (!container || !surface) {
+      setRects([]);
+      return;
+    }
+
+    const origin = container.getBoundingClientRect();
+    const measured: DecorationRect[] = [];
+
+    for (const decoration of decorations) {
+      if (decoration.end < decoration.start) continue;
+      const isCaret = decoration.end === decoration.start;
+
+      const startPoint = offsetToPoint(surface, decoration.start);
+      const endPoint = offsetToPoint(surface, decoration.end);
+      const range = document.createRange();
+      try {
+        range.setStart(startPoint.node, startPoint.offset);
+        range.setEnd(endPoint.node, endPoint.offset);
+      } catch {
+        continue;
+      }
+
+      const clientRects = isCaret
+        ? [caretRect(range, startPoint.node)].filter(Boolean)
+        : Array.from(range.getClientRects());
+      for (const rect of clientRects) {
+        if (rect.width === 0 && !isCaret) continue;
+        measured.push({
+          id: decoration.id,
+          left: rect.left - origin.left + container.scrollLeft,
+          top: rect.top - origin.top + container.scrollTop,
+          width: rect.width,
+          height: rect.height,
+        });
+      }
+    }
+
+    setRects(measured);
+  }, [containerRef, surfaceRef, decorations]);
+
+  useLayoutEffect(() => {
+    measure();
+  }, [measure, layoutKey]);
+
+  // Line wrapping changes with the surface width
+  useEffect(() => {
+    const surface = surfaceRef.current;
+    if (!surface || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => measure());
+    observer.observe(surface);
+    return () => observer.disconnect();
+  }, [surfaceRef, measure]);
+
+  // Returns the id of the decoration under a viewport point, if any
+  const hitTest = useCallback((clientX: number, clientY: number) => {
+    const container = containerRef.current;
+    if (!container) return null;
+
+    const origin = container.getBoundingClientRect();
+    const x = clientX - origin.left + container.scrollLeft;
+    const y = clientY - origin.top + container.scrollTop;
+
+    const hit = rects.find(rect =>
+      x >= rect.left && x <= rect.left + rect.width &&
+      y >= rect.top && y <= rect.top + rect.height
+    );
+    return hit ? hit.id : null;
+  }, [containerRef, rects]);
+
+  return { rects, measure, hitTest };
+};
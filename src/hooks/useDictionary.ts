@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { DictionaryEntry, addDictionaryWords, fetchDictionary } from '@/lib/dictionary';
+
+// The signed-in user's personal dictionary
+export const useDictionary = (userId?: string) => {
+  const [entries, setEntries] = useState<DictionaryEntry[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    fetchDictionary()
+      .then((data) => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch((error) => console.error('Error loading dictionary:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const words = useMemo(() => entries.map(entry => entry.word), [entries]);
+
+  const addWord = useCallback(async (word: string) => {
+    if (!userId || !word.trim()) return false;
+
+    try {
+      const added = await addDictionaryWords(userId, [word.trim()]);
+      setEntries(prev => [...prev, ...added]);
+      return true;
+    } catch (error) {
+      console.error('Error adding word to dictionary:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add the word to your dictionary",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [userId, toast]);
+
+  return {
+    words,
+    addWord
+  };
+};
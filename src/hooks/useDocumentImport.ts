@@ -0,0 +1,74 @@
+
+import { useState, useCallback, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { ImportError, importFile } from '@/lib/documentImport';
+import { createDocument } from '@/lib/documentLibrary';
+
+export interface ImportFailure {
+  name: string;
+  reason: string;
+}
+
+export interface ImportProgress {
+  total: number;
+  done: number;
+  // The file being read, until the import finishes
+  current: string | null;
+  failures: ImportFailure[];
+}
+
+// Imports files one after another, each into a new document. Progress stays
+// visible after the import when some files failed, until dismissed.
+export const useDocumentImport = (userId?: string) => {
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const isImportingRef = useRef(false);
+  const { toast } = useToast();
+
+  // Returns the ids of the new documents
+  const importFiles = useCallback(async (files: File[], folderId: string | null = null) => {
+    if (!userId || files.length === 0 || isImportingRef.current) return [];
+    isImportingRef.current = true;
+
+    const created: string[] = [];
+    const failures: ImportFailure[] = [];
+    setProgress({ total: files.length, done: 0, current: files[0].name, failures: [] });
+
+    for (const [index, file] of files.entries()) {
+      setProgress(prev => prev && { ...prev, current: file.name });
+      try {
+        const imported = await importFile(file);
+        created.push(await createDocument(userId, { ...imported, folderId }));
+      } catch (error) {
+        console.error('Error importing file:', error);
+        failures.push({
+          name: file.name,
+          reason: error instanceof ImportError ? error.message : 'Failed to import the file'
+        });
+      }
+      setProgress(prev => prev && { ...prev, done: index + 1, failures: [...failures] });
+    }
+
+    isImportingRef.current = false;
+    if (failures.length === 0) {
+      setProgress(null);
+    } else {
+      setProgress(prev => prev && { ...prev, current: null });
+      toast({
+        title: "Import incomplete",
+        description: `${failures.length} of ${files.length} file${files.length !== 1 ? 's' : ''} couldn't be imported`,
+        variant: "destructive",
+      });
+    }
+    return created;
+  }, [userId, toast]);
+
+  const dismissProgress = useCallback(() => {
+    if (!isImportingRef.current) setProgress(null);
+  }, []);
+
+  return {
+    progress,
+    importFiles,
+    dismissProgress
+  };
+};
@@ -1,8 +1,21 @@
 
-import { useState, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { debounce } from 'lodash';
 import { useToast } from '@/hooks/use-toast';
+import { diffText, rebasePositioned } from '@/lib/textEdits';
+import { Paragraph, hashText, splitParagraphs } from '@/lib/paragraphs';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { excludeDictionaryWords, mergeSuggestions, runRules } from '@/lib/grammarRules';
+import {
+  SuggestionStatus,
+  fetchStoredSuggestions,
+  replaceOpenSuggestions,
+  updateSuggestionStatus
+} from '@/lib/suggestionStore';
+import { DismissReason } from '@/lib/suppressions';
+import { WritingGoals, sameWritingGoals } from '@/lib/writingGoals';
 
 export interface Suggestion {
   id: string;
@@ -11,16 +24,244 @@ export interface Suggestion {
   original: string;
   correction: string;
   explanation: string;
+  // Set for suggestions from the local rule engine
+  ruleId?: string;
 }
 
-export const useGrammarCheck = () => {
-  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+// Paragraphs whose results are kept, keyed by content hash
+const MAX_CACHED_PARAGRAPHS = 500;
+const MAX_CONCURRENT_CHECKS = 3;
+
+// Paragraphs this short are not worth a model call
+const isCheckable = (text: string) =>
+  text.trim().length >= 10 && text.trim().split(/\s+/).filter(word => word.length > 0).length >= 3;
+
+// check-text tags provider failures with a code in the error body
+type CheckErrorCode = 'provider_not_configured' | 'provider_auth_failed';
+
+const checkErrorCode = async (error: unknown): Promise<CheckErrorCode | null> => {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  const response: Response = error.context;
+  const body = await response.clone().json().catch(() => null);
+  if (body?.code === 'provider_not_configured' || body?.code === 'provider_auth_failed') return body.code;
+  return response.status === 401 ? 'provider_auth_failed' : null;
+};
+
+// Ids are stored as suggestion keys and used to keep dismissed suggestions
+// closed, so they come from what a suggestion says and where, not from its
+// place in the results
+const suggestionId = (
+  prefix: string,
+  paragraphHash: string,
+  suggestion: Pick<Suggestion, 'type' | 'position' | 'original' | 'correction'>
+) => {
+  const { type, position, original, correction } = suggestion;
+  return `${prefix}-${paragraphHash}-${hashText([type, position.start, position.end, original, correction].join('\n'))}`;
+};
+
+// Validates the raw suggestions returned for a paragraph and gives them ids
+// that stay the same for as long as its text does
+const validateSuggestions = (data: unknown, text: string, paragraphHash: string): Suggestion[] => {
+  const suggestionsArray: Suggestion[] = Array.isArray(data) ? data : [];
+
+  return suggestionsArray
+    .filter((suggestion) => {
+      return suggestion && 
+             suggestion.position && 
+             typeof suggestion.position.start === 'number' && 
+             typeof suggestion.position.end === 'number' &&
+             suggestion.position.start >= 0 &&
+             suggestion.position.end <= text.length &&
+             suggestion.position.start < suggestion.position.end &&
+             suggestion.original && 
+             suggestion.correction && 
+             suggestion.explanation &&
+             suggestion.original !== suggestion.correction;
+    })
+    // Remove duplicates
+    .filter((suggestion, index, array) => {
+      return !array.slice(0, index).some((prevSuggestion) => 
+        prevSuggestion.position.start === suggestion.position.start &&
+        prevSuggestion.position.end === suggestion.position.end &&
+        prevSuggestion.original === suggestion.original
+      );
+    })
+    // Sort by position
+    .sort((a, b) => a.position.start - b.position.start)
+    .map((suggestion) => ({
+      ...suggestion,
+      id: suggestionId('suggestion', paragraphHash, suggestion),
+      position: {
+        start: suggestion.position.start,
+        end: suggestion.position.end
+      }
+    }));
+};
+
+interface GrammarCheckOptions {
+  // The user's personal dictionary; these words are never flagged as misspelled
+  dictionary?: string[];
+  // The document's writing goals, once loaded
+  goals?: WritingGoals;
+}
+
+const NO_WORDS: string[] = [];
+
+export const useGrammarCheck = ({ dictionary = NO_WORDS, goals }: GrammarCheckOptions = {}) => {
+  // Model suggestions (rebased as the text changes) and rule-engine
+  // suggestions (recomputed instantly on every change)
+  const [aiSuggestions, setAiSuggestions] = useState<Suggestion[]>([]);
+  const [ruleSuggestions, setRuleSuggestions] = useState<Suggestion[]>([]);
   const [isChecking, setIsChecking] = useState(false);
   const [lastAnalyzedText, setLastAnalyzedText] = useState<string>("");
   const [isProcessingSuggestions, setIsProcessingSuggestions] = useState(false);
   const [hasCompletedAnalysis, setHasCompletedAnalysis] = useState(false);
+  // Latest document text, so results for an older text can be rebased onto it
+  const currentTextRef = useRef<string | null>(null);
+  // Suggestions per paragraph hash, with paragraph-relative positions
+  const paragraphCacheRef = useRef(new Map<string, Suggestion[]>());
+  const ruleCacheRef = useRef(new Map<string, Suggestion[]>());
+  // Suggestions the user acted on, so cached results don't bring them back
+  const removedIdsRef = useRef(new Set<string>());
+  // The document suggestions are stored for, once known
+  const documentRef = useRef<{ documentId: string; userId: string } | null>(null);
+  // Writes to the suggestions table run one after another so they land in order
+  const storeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Text whose open suggestions are already stored
+  const storedTextRef = useRef<string | null>(null);
+  const dictionaryRef = useRef(dictionary);
+  const goalsRef = useRef(goals);
   const { toast } = useToast();
 
+  // The model's results take precedence where both flag the same text.
+  // Cached model results predate words added to the dictionary since.
+  const suggestions = useMemo(
+    () => excludeDictionaryWords(mergeSuggestions(aiSuggestions, ruleSuggestions), dictionary),
+    [aiSuggestions, ruleSuggestions, dictionary]
+  );
+
+  const rememberParagraph = useCallback((
+    hash: string,
+    paragraphSuggestions: Suggestion[],
+    cache = paragraphCacheRef.current
+  ) => {
+    cache.delete(hash);
+    cache.set(hash, paragraphSuggestions);
+    if (cache.size > MAX_CACHED_PARAGRAPHS) {
+      cache.delete(cache.keys().next().value);
+    }
+  }, []);
+
+  // Translates cached paragraph results back into document coordinates
+  const assembleSuggestions = useCallback((
+    paragraphs: Paragraph[],
+    cache = paragraphCacheRef.current
+  ) => {
+    const occurrences = new Map<string, number>();
+
+    return paragraphs
+      .flatMap((paragraph) => {
+        // Identical paragraphs share cached results but need distinct ids
+        const occurrence = occurrences.get(paragraph.hash) || 0;
+        occurrences.set(paragraph.hash, occurrence + 1);
+
+        return (cache.get(paragraph.hash) || []).map((suggestion) => ({
+          ...suggestion,
+          id: occurrence === 0 ? suggestion.id : `${suggestion.id}-${occurrence}`,
+          position: {
+            start: paragraph.start + suggestion.position.start,
+            end: paragraph.start + suggestion.position.end
+          }
+        }));
+      })
+      .filter((suggestion) => !removedIdsRef.current.has(suggestion.id));
+  }, []);
+
+  // Rule results are cached per paragraph like model results, which also
+  // keeps their ids stable while the paragraph is unchanged
+  const computeRuleSuggestions = useCallback((text: string) => {
+    const paragraphs = splitParagraphs(text);
+    const cache = ruleCacheRef.current;
+
+    for (const paragraph of paragraphs) {
+      if (!cache.has(paragraph.hash)) {
+        const paragraphSuggestions = runRules(paragraph.text, { dictionary: dictionaryRef.current }).map((suggestion) => ({
+          ...suggestion,
+          id: suggestionId('rule', paragraph.hash, suggestion)
+        }));
+        rememberParagraph(paragraph.hash, paragraphSuggestions, cache);
+      }
+    }
+
+    return assembleSuggestions(paragraphs, cache);
+  }, [rememberParagraph, assembleSuggestions]);
+
+  // Rule results depend on the dictionary, so they are recomputed when it changes
+  useEffect(() => {
+    if (dictionaryRef.current === dictionary) return;
+    dictionaryRef.current = dictionary;
+    ruleCacheRef.current.clear();
+    if (currentTextRef.current !== null) {
+      setRuleSuggestions(computeRuleSuggestions(currentTextRef.current));
+    }
+  }, [dictionary, computeRuleSuggestions]);
+
+  // Model results depend on the goals, so changing them re-checks every
+  // paragraph. Loading the document's goals doesn't.
+  useEffect(() => {
+    const previous = goalsRef.current;
+    goalsRef.current = goals;
+    if (!previous || !goals || sameWritingGoals(previous, goals)) return;
+    paragraphCacheRef.current.clear();
+    setLastAnalyzedText("");
+    setHasCompletedAnalysis(false);
+  }, [goals]);
+
+  const enqueueStore = useCallback((write: () => Promise<void>) => {
+    storeQueueRef.current = storeQueueRef.current
+      .then(write)
+      .catch((error) => console.error('Error storing suggestions:', error));
+  }, []);
+
+  // Seeds the caches with the suggestions stored for this exact text, so the
+  // document is not sent for analysis again. Returns whether any were found.
+  const loadStoredSuggestions = useCallback(async (text: string, documentId: string, userId: string) => {
+    documentRef.current = { documentId, userId };
+
+    try {
+      const stored = await fetchStoredSuggestions(documentId, text);
+      stored.closedKeys.forEach(key => removedIdsRef.current.add(key));
+      if (!stored.open) return false;
+
+      // Stored ids are the ids of each paragraph's first occurrence
+      const paragraphs = splitParagraphs(text);
+      paragraphs
+        .filter((paragraph, index) => paragraphs.findIndex(other => other.hash === paragraph.hash) === index)
+        .forEach((paragraph) => {
+          const end = paragraph.start + paragraph.text.length;
+          rememberParagraph(
+            paragraph.hash,
+            stored.open
+              .filter(suggestion => suggestion.position.start >= paragraph.start && suggestion.position.end <= end)
+              .map(suggestion => ({
+                ...suggestion,
+                position: {
+                  start: suggestion.position.start - paragraph.start,
+                  end: suggestion.position.end - paragraph.start
+                }
+              }))
+          );
+        });
+
+      setAiSuggestions(assembleSuggestions(paragraphs));
+      storedTextRef.current = text;
+      return true;
+    } catch (error) {
+      console.error('Error loading stored suggestions:', error);
+      return false;
+    }
+  }, [rememberParagraph, assembleSuggestions]);
+
   const checkText = useCallback(
     debounce(async (text: string, documentId?: string, userId?: string) => {
       // Don't re-analyze if we're processing suggestions or have completed analysis for this exact text
@@ -34,7 +275,7 @@ export const useGrammarCheck = () => {
       }
 
       if (!text || text.trim().length < 10) {
-        setSuggestions([]);
+        setAiSuggestions([]);
         setLastAnalyzedText("");
         setHasCompletedAnalysis(false);
         return;
@@ -43,41 +284,69 @@ export const useGrammarCheck = () => {
       // Avoid over-analyzing by checking content quality
       const words = text.trim().split(/\s+/).filter(word => word.length > 0);
       if (words.length < 3) {
-        setSuggestions([]);
+        setAiSuggestions([]);
         setLastAnalyzedText("");
         setHasCompletedAnalysis(false);
         return;
       }
 
-      console.log('Starting grammar check for text:', text.substring(0, 50) + '...');
+      // Only paragraphs we have no cached results for need to be analyzed
+      const paragraphs = splitParagraphs(text);
+      const cache = paragraphCacheRef.current;
+      const dirtyParagraphs = paragraphs.filter((paragraph, index) =>
+        !cache.has(paragraph.hash) &&
+        paragraphs.findIndex(other => other.hash === paragraph.hash) === index
+      );
+      dirtyParagraphs
+        .filter(paragraph => !isCheckable(paragraph.text))
+        .forEach(paragraph => rememberParagraph(paragraph.hash, []));
+      const paragraphsToCheck = dirtyParagraphs.filter(paragraph => isCheckable(paragraph.text));
+
+      console.log(`Starting grammar check for ${paragraphsToCheck.length} of ${paragraphs.length} paragraphs`);
       setIsChecking(true);
       setHasCompletedAnalysis(false);
       
       try {
-        const { data, error } = await supabase.functions.invoke('check-text', {
-          body: { 
-            text,
-            documentId: documentId || null,
-            userId: userId || null
+        let firstError: Error | null = null;
+
+        await mapWithConcurrency(paragraphsToCheck, MAX_CONCURRENT_CHECKS, async (paragraph) => {
+          const { data, error } = await supabase.functions.invoke('check-text', {
+            body: { 
+              text: paragraph.text,
+              // Rules already run here, instantly
+              includeRules: false,
+              dictionary: dictionaryRef.current,
+              goals: goalsRef.current,
+              documentId: documentId || null,
+              userId: userId || null
+            }
+          });
+
+          if (error) {
+            console.error('Grammar check error:', error);
+            firstError = firstError || error;
+            return;
           }
-        });
 
-        console.log('Grammar check response:', { data, error });
+          rememberParagraph(
+            paragraph.hash,
+            validateSuggestions(data, paragraph.text, paragraph.hash)
+          );
+        });
 
-        if (error) {
-          console.error('Grammar check error:', error);
-          
+        if (firstError) {
           // Show user-friendly error messages
-          if (error.message?.includes('OpenAI API key')) {
+          const errorCode = await checkErrorCode(firstError);
+          if (errorCode === 'provider_not_configured') {
             toast({
               title: "Configuration Error",
-              description: "OpenAI API key is not configured. Please contact support.",
+              description: "The grammar checker is not configured. Please contact support.",
               variant: "destructive",
             });
-          } else if (error.message?.includes('Invalid OpenAI API key')) {
+          } else if (errorCode === 'provider_auth_failed') {
             toast({
               title: "Configuration Error", 
-              description: "Invalid OpenAI API key. Please contact support.",
+              description: "The grammar checker's API key was rejected. Please contact support.",
               variant: "destructive",
             });
           } else {
@@ -87,55 +356,29 @@ export const useGrammarCheck = () => {
               variant: "destructive",
             });
           }
-          
-          setSuggestions([]);
-          return;
         }
 
-        // Ensure data is an array
-        const suggestionsArray = Array.isArray(data) ? data : [];
-        console.log('Raw suggestions from API:', suggestionsArray);
-
-        // Process and add IDs to suggestions
-        const suggestionsWithIds = suggestionsArray
-          .filter((suggestion: any) => {
-            return suggestion && 
-                   suggestion.position && 
-                   typeof suggestion.position.start === 'number' && 
-                   typeof suggestion.position.end === 'number' &&
-                   suggestion.position.start >= 0 &&
-                   suggestion.position.end <= text.length &&
-                   suggestion.position.start < suggestion.position.end &&
-                   suggestion.original && 
-                   suggestion.correction && 
-                   suggestion.explanation &&
-                   suggestion.original !== suggestion.correction;
-          })
-          .map((suggestion: any, index: number) => ({
-            ...suggestion,
-            id: `suggestion-${Date.now()}-${index}`,
-            position: {
-              start: Math.max(0, Math.min(suggestion.position.start, text.length)),
-              end: Math.max(0, Math.min(suggestion.position.end, text.length))
-            }
-          }))
-          // Remove duplicates
-          .filter((suggestion: any, index: number, array: any[]) => {
-            return !array.slice(0, index).some((prevSuggestion: any) => 
-              prevSuggestion.position.start === suggestion.position.start &&
-              prevSuggestion.position.end === suggestion.position.end &&
-              prevSuggestion.original === suggestion.original
-            );
-          })
-          // Sort by position
-          .sort((a: any, b: any) => a.position.start - b.position.start);
-
+        const suggestionsWithIds = assembleSuggestions(paragraphs);
         console.log('Processed and filtered suggestions:', suggestionsWithIds);
         
-        // Set suggestions and remember this text
-        setSuggestions(suggestionsWithIds);
+        // The user may have kept typing while the check was running
+        const latestText = currentTextRef.current;
+        const rebasedSuggestions = latestText === null
+          ? suggestionsWithIds
+          : rebasePositioned(suggestionsWithIds, diffText(text, latestText));
+
+        // Set suggestions and remember this text. Paragraphs that failed are
+        // retried on the next change.
+        setAiSuggestions(rebasedSuggestions);
         setLastAnalyzedText(text);
-        setHasCompletedAnalysis(true);
+        setHasCompletedAnalysis(!firstError);
+
+        const storedText = latestText === null ? text : latestText;
+        if (documentId && userId && !firstError && storedText !== storedTextRef.current) {
+          documentRef.current = { documentId, userId };
+          storedTextRef.current = storedText;
+          enqueueStore(() => replaceOpenSuggestions(documentId, userId, storedText, rebasedSuggestions));
+        }
         
       } catch (error) {
         console.error('Error checking text:', error);
@@ -144,20 +387,57 @@ export const useGrammarCheck = () => {
           description: "Failed to check grammar. Please try again.",
           variant: "destructive",
         });
-        setSuggestions([]);
       } finally {
         setIsChecking(false);
       }
     }, 1500),
-    [lastAnalyzedText, isProcessingSuggestions, hasCompletedAnalysis, toast]
+    [lastAnalyzedText, isProcessingSuggestions, hasCompletedAnalysis, toast, rememberParagraph, assembleSuggestions, enqueueStore]
   );
 
+  // Moves open suggestions through an edit of the document text, dropping the
+  // ones whose span was edited
+  const applyTextChange = useCallback((previousText: string, nextText: string) => {
+    currentTextRef.current = nextText;
+    const edit = diffText(previousText, nextText);
+    if (edit) {
+      setAiSuggestions(prev => rebasePositioned(prev, edit));
+      setRuleSuggestions(computeRuleSuggestions(nextText));
+    }
+  }, [computeRuleSuggestions]);
+
   const removeSuggestion = useCallback((suggestionId: string) => {
-    setSuggestions(prev => prev.filter(s => s.id !== suggestionId));
+    removedIdsRef.current.add(suggestionId);
+    setAiSuggestions(prev => prev.filter(s => s.id !== suggestionId));
+    setRuleSuggestions(prev => prev.filter(s => s.id !== suggestionId));
   }, []);
 
+  // Records that the user accepted or dismissed suggestions, so they stay
+  // closed when the document is opened again
+  const recordSuggestionStatus = useCallback((
+    closedSuggestions: Suggestion[],
+    status: SuggestionStatus,
+    dismissReason?: DismissReason
+  ) => {
+    const target = documentRef.current;
+    const text = currentTextRef.current;
+    if (!target || text === null) return;
+
+    enqueueStore(() =>
+      updateSuggestionStatus(target.documentId, target.userId, text, closedSuggestions, status, dismissReason)
+    );
+  }, [enqueueStore]);
+
+  // Puts back the suggestions from before a change that is being undone.
+  // `reopened` were closed by that change and may show up again.
+  const restoreSuggestions = useCallback((text: string, restored: Suggestion[], reopened: Suggestion[]) => {
+    [...restored, ...reopened].forEach(suggestion => removedIdsRef.current.delete(suggestion.id));
+    setAiSuggestions(restored);
+    setRuleSuggestions(computeRuleSuggestions(text));
+  }, [computeRuleSuggestions]);
+
   const clearSuggestions = useCallback(() => {
-    setSuggestions([]);
+    setAiSuggestions([]);
+    setRuleSuggestions([]);
     setLastAnalyzedText("");
     setHasCompletedAnalysis(false);
   }, []);
@@ -170,19 +450,24 @@ export const useGrammarCheck = () => {
     setIsProcessingSuggestions(false);
   }, []);
 
+  // Marks the analysis as stale so the text gets checked again. Open
+  // suggestions stay; they have already been rebased onto the new text.
   const resetForNewText = useCallback(() => {
     setLastAnalyzedText("");
     setIsProcessingSuggestions(false);
     setHasCompletedAnalysis(false);
-    setSuggestions([]);
   }, []);
 
   return {
     suggestions,
     isChecking,
     checkText,
-    setSuggestions,
+    setSuggestions: setAiSuggestions,
+    applyTextChange,
+    loadStoredSuggestions,
     removeSuggestion,
+    recordSuggestionStatus,
+    restoreSuggestions,
     clearSuggestions,
     startProcessingSuggestions,
     finishProcessingSuggestions,
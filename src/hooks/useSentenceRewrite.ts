@@ -0,0 +1,53 @@
+
+import { useState, useCallback, useRef } from 'react';
+import { fetchSentenceRewrite, SentenceRewrite } from '@/lib/sentenceRewrite';
+import type { SentenceReadability } from '@/lib/textStatistics';
+import type { WritingGoals } from '@/lib/writingGoals';
+
+export interface RewriteRequest {
+  sentence: SentenceReadability;
+  status: 'loading' | 'ready' | 'failed';
+  // Null until ready, and when the checker has no better version
+  rewrite: SentenceRewrite | null;
+}
+
+// One rewrite at a time for the sentence last clicked. Rewrites are kept per
+// sentence text, so opening the same sentence again doesn't ask again.
+export const useSentenceRewrite = (goals?: WritingGoals) => {
+  const [request, setRequest] = useState<RewriteRequest | null>(null);
+  const cacheRef = useRef(new Map<string, SentenceRewrite | null>());
+  // Results of superseded requests are dropped
+  const latestRequestRef = useRef(0);
+  const goalsRef = useRef(goals);
+  goalsRef.current = goals;
+
+  const requestRewrite = useCallback(async (sentence: SentenceReadability) => {
+    const requestId = ++latestRequestRef.current;
+    const cacheKey = `${JSON.stringify(goalsRef.current ?? null)}\n${sentence.text}`;
+    if (cacheRef.current.has(cacheKey)) {
+      setRequest({ sentence, status: 'ready', rewrite: cacheRef.current.get(cacheKey) ?? null });
+      return;
+    }
+
+    setRequest({ sentence, status: 'loading', rewrite: null });
+    try {
+      const rewrite = await fetchSentenceRewrite(sentence.text, goalsRef.current);
+      cacheRef.current.set(cacheKey, rewrite);
+      if (latestRequestRef.current === requestId) setRequest({ sentence, status: 'ready', rewrite });
+    } catch (error) {
+      console.error('Error rewriting sentence:', error);
+      if (latestRequestRef.current === requestId) setRequest({ sentence, status: 'failed', rewrite: null });
+    }
+  }, []);
+
+  const clearRewrite = useCallback(() => {
+    latestRequestRef.current++;
+    setRequest(null);
+  }, []);
+
+  return {
+    rewriteRequest: request,
+    requestRewrite,
+    clearRewrite
+  };
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import type { Suggestion } from '@/hooks/useGrammarCheck';
+import {
+  DismissReason,
+  Suppression,
+  createSuppression,
+  fetchSuppressions,
+  suggestionFingerprint
+} from '@/lib/suppressions';
+
+// The user's suppressed suggestions that apply to one document
+export const useSuppressions = (documentId?: string, userId?: string) => {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!documentId || !userId) return;
+
+    let cancelled = false;
+    fetchSuppressions(documentId)
+      .then((data) => {
+        if (!cancelled) setSuppressions(data);
+      })
+      .catch((error) => console.error('Error loading suppressions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, userId]);
+
+  const fingerprints = useMemo(
+    () => new Set(suppressions.map(suppression => suppression.fingerprint)),
+    [suppressions]
+  );
+
+  const isSuppressed = useCallback(
+    (suggestion: Suggestion) => fingerprints.has(suggestionFingerprint(suggestion)),
+    [fingerprints]
+  );
+
+  // Stops suggestions like this one from being shown, in this document only
+  // or in all of the user's documents
+  const suppress = useCallback(async (suggestion: Suggestion, reason: DismissReason, thisDocumentOnly: boolean) => {
+    if (!userId) return;
+
+    try {
+      const suppression = await createSuppression(
+        userId,
+        suggestion,
+        reason,
+        thisDocumentOnly && documentId ? documentId : null
+      );
+      setSuppressions(prev => [suppression, ...prev.filter(existing => existing.id !== suppression.id)]);
+    } catch (error) {
+      console.error('Error suppressing suggestion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remember this dismissal",
+        variant: "destructive",
+      });
+    }
+  }, [documentId, userId, toast]);
+
+  return {
+    suppressions,
+    isSuppressed,
+    suppress
+  };
+};
@@ -0,0 +1,172 @@
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { diffText } from '@/lib/textEdits';
+import {
+  TrackedChange,
+  createTrackedChanges,
+  deleteTrackedChanges,
+  fetchTrackedChanges,
+  rebaseTrackedChanges,
+  recordTrackedEdit,
+  updateTrackedChanges,
+  withInsertedText
+} from '@/lib/trackedChanges';
+
+// Proposed changes on one document (see trackedChanges). Like comment
+// anchors, they follow the local text as it is edited and are written to the
+// database after the text has been saved, so stored positions match the
+// stored text.
+export const useTrackedChanges = (documentId?: string, userId?: string, userName = '') => {
+  const [changes, setChanges] = useState<TrackedChange[]>([]);
+  const changesRef = useRef<TrackedChange[]>([]);
+  // Ids already in the database
+  const storedRef = useRef(new Set<string>());
+  // Created or moved since the last save, and dropped since the last save
+  const dirtyRef = useRef(new Set<string>());
+  const removedRef = useRef(new Set<string>());
+
+  const setAll = useCallback((next: TrackedChange[]) => {
+    changesRef.current = next;
+    setChanges(next);
+  }, []);
+
+  // Replaces the local changes, noting what has to be written on save
+  const updateChanges = useCallback((next: TrackedChange[]) => {
+    const previous = new Map(changesRef.current.map(change => [change.id, change]));
+    for (const change of next) {
+      if (previous.get(change.id) !== change) dirtyRef.current.add(change.id);
+      previous.delete(change.id);
+    }
+    for (const id of previous.keys()) {
+      dirtyRef.current.delete(id);
+      if (storedRef.current.has(id)) removedRef.current.add(id);
+    }
+    setAll(next);
+  }, [setAll]);
+
+  // Local copies of stored changes win, since they may have moved with
+  // unsaved edits. Local changes that were never stored are kept; stored
+  // ones that disappeared were resolved in another session.
+  const receiveChanges = useCallback((data: TrackedChange[]) => {
+    const local = new Map(changesRef.current.map(change => [change.id, change]));
+    const received = new Set(data.map(change => change.id));
+    const unsaved = changesRef.current.filter(change => !received.has(change.id) && !storedRef.current.has(change.id));
+
+    storedRef.current = received;
+    setAll([
+      ...data
+        .filter(change => !removedRef.current.has(change.id))
+        .map(change => local.get(change.id) ?? change),
+      ...unsaved,
+    ]);
+  }, [setAll]);
+
+  const loadChanges = useCallback(async () => {
+    if (!documentId) return;
+
+    try {
+      receiveChanges(await fetchTrackedChanges(documentId));
+    } catch (error) {
+      console.error('Error loading tracked changes:', error);
+    }
+  }, [documentId, receiveChanges]);
+
+  useEffect(() => {
+    if (!documentId) return;
+    loadChanges();
+
+    const channel = supabase
+      .channel(`document_tracked_changes:${documentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'document_tracked_changes',
+          filter: `document_id=eq.${documentId}`
+        },
+        () => {
+          loadChanges();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [documentId, loadChanges]);
+
+  // Records a change of the editor's text made in Suggesting mode
+  const trackTextChange = useCallback((previous: string, next: string) => {
+    const edit = diffText(previous, next);
+    if (!edit || !userId) return;
+    const recorded = recordTrackedEdit(changesRef.current, previous, edit, { id: userId, name: userName });
+    updateChanges(withInsertedText(recorded, next));
+  }, [userId, userName, updateChanges]);
+
+  // Moves the changes through any other change of the editor's text
+  const applyTextChange = useCallback((previous: string, next: string) => {
+    const edit = diffText(previous, next);
+    if (!edit || changesRef.current.length === 0) return;
+    updateChanges(withInsertedText(rebaseTrackedChanges(changesRef.current, edit), next));
+  }, [updateChanges]);
+
+  // Accepting or rejecting changes removes them. Rejecting also edits the
+  // text, which the caller does right after through an untracked change.
+  const resolve = useCallback(async (ids: string[]) => {
+    const resolving = new Set(ids);
+    setAll(changesRef.current.filter(change => !resolving.has(change.id)));
+    ids.forEach(id => dirtyRef.current.delete(id));
+
+    const stored = ids.filter(id => storedRef.current.has(id));
+    if (stored.length === 0) return;
+
+    try {
+      await deleteTrackedChanges(stored);
+      stored.forEach(id => storedRef.current.delete(id));
+    } catch (error) {
+      console.error('Error resolving tracked changes:', error);
+      // Retried with the next save
+      stored.forEach(id => removedRef.current.add(id));
+    }
+  }, [setAll]);
+
+  // Called after the text has been saved
+  const persistChanges = useCallback(async () => {
+    if (!documentId) return;
+
+    const pending = changesRef.current.filter(change => dirtyRef.current.has(change.id));
+    const removed = [...removedRef.current];
+    if (pending.length === 0 && removed.length === 0) return;
+    dirtyRef.current.clear();
+    removedRef.current.clear();
+
+    const created = pending.filter(change => !storedRef.current.has(change.id));
+    const moved = pending.filter(change => storedRef.current.has(change.id));
+
+    try {
+      if (removed.length > 0) {
+        await deleteTrackedChanges(removed);
+        removed.forEach(id => storedRef.current.delete(id));
+      }
+      if (created.length > 0) {
+        await createTrackedChanges(documentId, created);
+        created.forEach(change => storedRef.current.add(change.id));
+      }
+      if (moved.length > 0) await updateTrackedChanges(moved);
+    } catch (error) {
+      console.error('Error saving tracked changes:', error);
+      pending.forEach(change => dirtyRef.current.add(change.id));
+      removed.filter(id => storedRef.current.has(id)).forEach(id => removedRef.current.add(id));
+    }
+  }, [documentId]);
+
+  return {
+    changes,
+    trackTextChange,
+    applyTextChange,
+    resolve,
+    persistChanges
+  };
+};
@@ -0,0 +1,94 @@
+import { useState, useCallback, useRef } from 'react';
+import type { RichDocument } from '@/lib/documentModel';
+import type { Suggestion } from '@/hooks/useGrammarCheck';
+
+// Typing within this long of the previous keystroke is undone together
+const TYPING_COALESCE_MS = 1000;
+const MAX_UNDO_ENTRIES = 100;
+
+export type UndoKind = 'typing' | 'suggestion' | 'edit';
+
+export interface UndoEntry {
+  id: number;
+  kind: UndoKind;
+  before: RichDocument;
+  after: RichDocument;
+  // For suggestion applications: what was applied, and the open model
+  // suggestions right before, which undo brings back
+  applied?: Suggestion[];
+  suggestionsBefore?: Suggestion[];
+  time: number;
+}
+
+export type UndoableChange = Pick<UndoEntry, 'kind' | 'applied' | 'suggestionsBefore'>;
+
+// Editor-level undo/redo over whole-document snapshots, so typing and
+// suggestion applications share one history
+export const useUndoHistory = () => {
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const redoStackRef = useRef<UndoEntry[]>([]);
+  const nextIdRef = useRef(1);
+  // Bumped on every change so canUndo/canRedo re-render
+  const [, setRevision] = useState(0);
+
+  const record = useCallback((change: UndoableChange, before: RichDocument, after: RichDocument) => {
+    const undoStack = undoStackRef.current;
+    const top = undoStack[undoStack.length - 1];
+    const now = Date.now();
+
+    if (
+      change.kind === 'typing' &&
+      top?.kind === 'typing' &&
+      top.after === before &&
+      now - top.time < TYPING_COALESCE_MS
+    ) {
+      top.after = after;
+      top.time = now;
+    } else {
+      undoStack.push({ ...change, id: nextIdRef.current++, before, after, time: now });
+      if (undoStack.length > MAX_UNDO_ENTRIES) undoStack.shift();
+    }
+
+    redoStackRef.current = [];
+    setRevision(revision => revision + 1);
+    return undoStack[undoStack.length - 1].id;
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = undoStackRef.current.pop();
+    if (!entry) return null;
+    redoStackRef.current.push(entry);
+    setRevision(revision => revision + 1);
+    return entry;
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = redoStackRef.current.pop();
+    if (!entry) return null;
+    undoStackRef.current.push(entry);
+    setRevision(revision => revision + 1);
+    return entry;
+  }, []);
+
+  // Id of the change the next undo reverts
+  const peekUndoId = useCallback(() => {
+    const undoStack = undoStackRef.current;
+    return undoStack.length > 0 ? undoStack[undoStack.length - 1].id : null;
+  }, []);
+
+  const clear = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    setRevision(revision => revision + 1);
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    peekUndoId,
+    clear,
+    canUndo: undoStackRef.current.length > 0,
+    canRedo: redoStackRef.current.length > 0
+  };
+};
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RichDocument, toPlainText } from '@/lib/documentModel';
+import {
+  DocumentVersion,
+  SNAPSHOT_INTERVAL_MS,
+  VersionKind,
+  createVersion,
+  fetchVersions
+} from '@/lib/versionHistory';
+
+// Snapshots of one document, newest first
+export const useVersionHistory = (documentId?: string, userId?: string) => {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const latestRef = useRef<DocumentVersion | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!documentId) return;
+
+    try {
+      const data = await fetchVersions(documentId);
+      latestRef.current = data[0] || null;
+      setVersions(data);
+    } catch (error) {
+      console.error('Error loading versions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  // Takes a snapshot unless the latest one already has this text
+  const snapshot = useCallback(async (
+    document: RichDocument,
+    title: string,
+    kind: VersionKind,
+    label?: string
+  ) => {
+    if (!documentId || !userId) return null;
+    if (latestRef.current && latestRef.current.content === toPlainText(document)) {
+      return latestRef.current;
+    }
+
+    try {
+      const version = await createVersion(documentId, userId, document, title, kind, label);
+      latestRef.current = version;
+      setVersions(prev => [version, ...prev]);
+      return version;
+    } catch (error) {
+      console.error('Error saving version:', error);
+      return null;
+    }
+  }, [documentId, userId]);
+
+  // Called after every save; takes a periodic snapshot when one is due
+  const snapshotIfDue = useCallback((document: RichDocument, title: string) => {
+    const latest = latestRef.current;
+    if (latest && Date.now() - new Date(latest.created_at).getTime() < SNAPSHOT_INTERVAL_MS) return;
+    if (!latest && toPlainText(document).trim().length === 0) return;
+    snapshot(document, title, 'auto');
+  }, [snapshot]);
+
+  return {
+    versions,
+    isLoading,
+    loadVersions,
+    snapshot,
+    snapshotIfDue
+  };
+};
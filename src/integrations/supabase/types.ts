@@ -9,37 +9,440 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      document_comments: {
+        Row: {
+          author_name: string
+          body: string
+          created_at: string
+          document_id: string
+          id: string
+          parent_id: string | null
+          position_end: number | null
+          position_start: number | null
+          quote: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          author_name: string
+          body: string
+          created_at?: string
+          document_id: string
+          id?: string
+          parent_id?: string | null
+          position_end?: number | null
+          position_start?: number | null
+          quote?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          author_name?: string
+          body?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          parent_id?: string | null
+          position_end?: number | null
+          position_start?: number | null
+          quote?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_comments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "document_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_members: {
+        Row: {
+          created_at: string
+          document_id: string
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_members_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_share_link_passwords: {
+        Row: {
+          failed_attempts: number
+          link_id: string
+          locked_until: string | null
+          password_hash: string
+        }
+        Insert: {
+          failed_attempts?: number
+          link_id: string
+          locked_until?: string | null
+          password_hash: string
+        }
+        Update: {
+          failed_attempts?: number
+          link_id?: string
+          locked_until?: string | null
+          password_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_share_link_passwords_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: true
+            referencedRelation: "document_share_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_share_links: {
+        Row: {
+          created_at: string
+          document_id: string
+          expires_at: string | null
+          has_password: boolean
+          id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          token: string
+          user_id: string
+          view_count: number
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          expires_at?: string | null
+          has_password?: boolean
+          id?: string
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          token?: string
+          user_id: string
+          view_count?: number
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          expires_at?: string | null
+          has_password?: boolean
+          id?: string
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_share_links_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_templates: {
+        Row: {
+          body: Json | null
+          content: string
+          created_at: string
+          description: string
+          goals: Json
+          id: string
+          name: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: Json | null
+          content?: string
+          created_at?: string
+          description?: string
+          goals?: Json
+          id?: string
+          name: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: Json | null
+          content?: string
+          created_at?: string
+          description?: string
+          goals?: Json
+          id?: string
+          name?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      document_tracked_changes: {
+        Row: {
+          author_name: string
+          created_at: string
+          document_id: string
+          id: string
+          kind: string
+          position_end: number
+          position_start: number
+          text: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          author_name: string
+          created_at?: string
+          document_id: string
+          id?: string
+          kind: string
+          position_end: number
+          position_start: number
+          text: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          author_name?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          kind?: string
+          position_end?: number
+          position_start?: number
+          text?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_tracked_changes_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          body: Json | null
+          content: string
+          created_at: string
+          document_id: string
+          id: string
+          kind: string
+          label: string | null
+          title: string
+          user_id: string
+          word_count: number
+        }
+        Insert: {
+          body?: Json | null
+          content?: string
+          created_at?: string
+          document_id: string
+          id?: string
+          kind: string
+          label?: string | null
+          title: string
+          user_id: string
+          word_count?: number
+        }
+        Update: {
+          body?: Json | null
+          content?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          kind?: string
+          label?: string | null
+          title?: string
+          user_id?: string
+          word_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
+          body: Json | null
           content: string | null
           created_at: string
+          deleted_at: string | null
+          folder_id: string | null
+          goals: Json
           id: string
+          revision: number
+          search_vector: unknown | null
+          tags: string[]
           title: string
           updated_at: string
           user_id: string
+          word_count: number | null
         }
         Insert: {
+          body?: Json | null
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          folder_id?: string | null
+          goals?: Json
           id?: string
+          revision?: number
+          search_vector?: never
+          tags?: string[]
           title: string
           updated_at?: string
           user_id: string
+          word_count?: never
         }
         Update: {
+          body?: Json | null
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          folder_id?: string | null
+          goals?: Json
           id?: string
+          revision?: number
+          search_vector?: never
+          tags?: string[]
           title?: string
           updated_at?: string
           user_id?: string
+          word_count?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
         }
         Relationships: []
       }
+      suggestion_suppressions: {
+        Row: {
+          correction: string
+          created_at: string
+          document_id: string | null
+          fingerprint: string
+          id: string
+          original: string
+          reason: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          correction: string
+          created_at?: string
+          document_id?: string | null
+          fingerprint: string
+          id?: string
+          original: string
+          reason: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          correction?: string
+          created_at?: string
+          document_id?: string | null
+          fingerprint?: string
+          id?: string
+          original?: string
+          reason?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suggestion_suppressions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suggestions: {
         Row: {
+          content_hash: string | null
           correction: string
           created_at: string
+          dismiss_reason: string | null
           document_id: string
           error_type: string
           explanation: string
@@ -47,12 +450,17 @@ export type Database = {
           original: string
           position_end: number
           position_start: number
+          status: string
+          suggestion_key: string | null
           type: string
+          updated_at: string
           user_id: string
         }
         Insert: {
+          content_hash?: string | null
           correction: string
           created_at?: string
+          dismiss_reason?: string | null
           document_id: string
           error_type: string
           explanation: string
@@ -60,12 +468,17 @@ export type Database = {
           original: string
           position_end: number
           position_start: number
+          status?: string
+          suggestion_key?: string | null
           type: string
+          updated_at?: string
           user_id: string
         }
         Update: {
+          content_hash?: string | null
           correction?: string
           created_at?: string
+          dismiss_reason?: string | null
           document_id?: string
           error_type?: string
           explanation?: string
@@ -73,7 +486,10 @@ export type Database = {
           original?: string
           position_end?: number
           position_start?: number
+          status?: string
+          suggestion_key?: string | null
           type?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -86,12 +502,75 @@ export type Database = {
           },
         ]
       }
+      user_dictionary: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+          word: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+          word: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+          word?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      create_share_link: {
+        Args: { doc_id: string; link_password?: string; link_expires_at?: string }
+        Returns: string
+      }
+      document_role: {
+        Args: { doc_id: string }
+        Returns: string
+      }
+      get_document_members: {
+        Args: { doc_id: string }
+        Returns: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+        }[]
+      }
+      get_shared_document: {
+        Args: { share_token: string; link_password?: string }
+        Returns: {
+          body: Json
+          content: string
+          status: string
+          title: string
+          tracked_changes: Json
+          updated_at: string
+        }[]
+      }
+      invite_document_member: {
+        Args: { doc_id: string; member_email: string; member_role: string }
+        Returns: {
+          created_at: string
+          document_id: string
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+      }
+      purge_deleted_documents: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
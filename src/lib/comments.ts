@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { TextRange } from "@/lib/textEdits";
+
+export type CommentRow = Tables<"document_comments">;
+
+// A comment anchored to the text, with its replies oldest first
+export interface CommentThread {
+  id: string;
+  root: CommentRow;
+  replies: CommentRow[];
+  // Where the thread is anchored in the current text. Collapsed once the
+  // text it was anchored to has been deleted.
+  position: TextRange;
+}
+
+// Groups rows into threads, oldest thread first
+export const buildThreads = (rows: CommentRow[]): CommentThread[] => {
+  const replies = new Map<string, CommentRow[]>();
+  for (const row of rows) {
+    if (!row.parent_id) continue;
+    replies.set(row.parent_id, [...(replies.get(row.parent_id) || []), row]);
+  }
+
+  return rows
+    .filter(row => !row.parent_id)
+    .map(root => ({
+      id: root.id,
+      root,
+      replies: replies.get(root.id) || [],
+      position: { start: root.position_start ?? 0, end: root.position_end ?? 0 },
+    }));
+};
+
+export const fetchComments = async (documentId: string): Promise<CommentRow[]> => {
+  const { data, error } = await supabase
+    .from("document_comments")
+    .select("*")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createComment = async (
+  documentId: string,
+  userId: string,
+  authorName: string,
+  body: string,
+  anchor: { position: TextRange; quote: string } | null,
+  parentId: string | null = null
+): Promise<CommentRow> => {
+  const { data, error } = await supabase
+    .from("document_comments")
+    .insert({
+      document_id: documentId,
+      user_id: userId,
+      parent_id: parentId,
+      // Replaced with the signed-in user's name by the database
+      author_name: authorName,
+      body,
+      position_start: anchor?.position.start ?? null,
+      position_end: anchor?.position.end ?? null,
+      quote: anchor?.quote ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const setCommentResolved = async (commentId: string, userId: string, resolved: boolean) => {
+  const { error } = await supabase
+    .from("document_comments")
+    .update({
+      resolved_at: resolved ? new Date().toISOString() : null,
+      resolved_by: resolved ? userId : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", commentId);
+
+  if (error) throw error;
+};
+
+export const deleteComment = async (commentId: string) => {
+  const { error } = await supabase
+    .from("document_comments")
+    .delete()
+    .eq("id", commentId);
+
+  if (error) throw error;
+};
+
+// Stores thread anchors after the text they refer to has been saved
+export const updateCommentPositions = async (threads: Pick<CommentThread, "id" | "position">[]) => {
+  const results = await Promise.all(
+    threads.map(thread =>
+      supabase
+        .from("document_comments")
+        .update({ position_start: thread.position.start, position_end: thread.position.end })
+        .eq("id", thread.id)
+    )
+  );
+
+  const failed = results.find(result => result.error);
+  if (failed) throw failed.error;
+};
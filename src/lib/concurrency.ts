@@ -0,0 +1,2 @@
+// Shared with the check-text edge function, which analyzes chunks the same way
+export * from "../../supabase/functions/_shared/concurrency";
@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type DictionaryEntry = Tables<"user_dictionary">;
+
+export const fetchDictionary = async (): Promise<DictionaryEntry[]> => {
+  const { data, error } = await supabase
+    .from("user_dictionary")
+    .select("*")
+    .order("word", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Adds words, skipping ones already in the dictionary. Returns the new entries.
+export const addDictionaryWords = async (userId: string, words: string[]): Promise<DictionaryEntry[]> => {
+  if (words.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("user_dictionary")
+    .upsert(
+      words.map((word) => ({ user_id: userId, word })),
+      { onConflict: "user_id,word", ignoreDuplicates: true }
+    )
+    .select();
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const removeDictionaryWord = async (id: string) => {
+  const { error } = await supabase
+    .from("user_dictionary")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+// Reads a word list with one word per line (commas and tabs also separate
+// words), dropping blanks and case-insensitive duplicates
+export const parseWordList = (text: string) => {
+  const seen = new Set<string>();
+  return text
+    .split(/[\r\n,\t]+/)
+    .map((word) => word.trim())
+    .filter((word) => {
+      const key = word.toLowerCase();
+      if (!word || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const formatWordList = (words: string[]) => words.join("\n") + "\n";
@@ -0,0 +1,520 @@
+import { buildThreads, CommentThread, fetchComments } from "@/lib/comments";
+import { fetchDocumentsForExport } from "@/lib/documentLibrary";
+import { BLOCK_SEPARATOR, Block, Mark, RichDocument, blockText, parseDocumentJson } from "@/lib/documentModel";
+import { fetchTrackedChanges, withoutTrackedChanges } from "@/lib/trackedChanges";
+import { createZip } from "@/lib/zipArchive";
+
+// Turns documents into files. Everything is generated from the document
+// model (see documentModel) and escaped on the way out, so exported HTML
+// never carries markup from elsewhere. Comments can be included: as
+// footnotes in Markdown, highlighted with a list at the end in HTML and PDF,
+// and as real comments in Word.
+
+export type ExportFormat = "docx" | "pdf" | "markdown" | "html";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: "docx", label: "Word (.docx)", extension: "docx" },
+  { value: "pdf", label: "PDF", extension: "pdf" },
+  { value: "markdown", label: "Markdown (.md)", extension: "md" },
+  { value: "html", label: "HTML (.html)", extension: "html" },
+];
+
+// PDFs are printed by the browser, so they can't go into a ZIP
+export type FileExportFormat = Exclude<ExportFormat, "pdf">;
+
+export const ZIP_EXPORT_FORMATS: FileExportFormat[] = ["docx", "markdown", "html"];
+
+export interface ExportSource {
+  title: string;
+  body: RichDocument;
+  // Included as comments when given
+  comments?: CommentThread[];
+}
+
+// Comments still open for discussion
+export const unresolvedThreads = (threads: CommentThread[]) =>
+  threads.filter(thread => !thread.root.resolved_at);
+
+// Inline content of a block, split wherever a comment starts or ends
+
+type InlinePiece =
+  | { kind: "text"; text: string; marks: Mark[]; comments: number[] }
+  | { kind: "comment-start"; comment: number }
+  | { kind: "comment-end"; comment: number };
+
+const inlinePieces = (doc: RichDocument, threads: CommentThread[]): InlinePiece[][] => {
+  const length = doc.blocks.reduce((sum, block) => sum + blockText(block).length, 0) + doc.blocks.length - 1;
+  const ranges = threads.map(thread => {
+    const start = Math.min(Math.max(0, thread.position.start), length);
+    return { start, end: Math.min(Math.max(start, thread.position.end), length) };
+  });
+
+  let blockStart = 0;
+  return doc.blocks.map(block => {
+    const blockEnd = blockStart + blockText(block).length;
+    const pieces: InlinePiece[] = [];
+
+    // Comments ending here close before ones starting here open, and
+    // collapsed comments open and close in one place
+    const emitEvents = (position: number) => {
+      ranges.forEach((range, comment) => {
+        if (range.end === position && range.start < position) pieces.push({ kind: "comment-end", comment });
+      });
+      ranges.forEach((range, comment) => {
+        if (range.start === position) pieces.push({ kind: "comment-start", comment });
+      });
+      ranges.forEach((range, comment) => {
+        if (range.start === position && range.end === position) pieces.push({ kind: "comment-end", comment });
+      });
+    };
+
+    const boundaries = [...new Set(ranges.flatMap(range => [range.start, range.end]))]
+      .filter(position => position > blockStart && position < blockEnd)
+      .sort((a, b) => a - b);
+
+    emitEvents(blockStart);
+    let position = blockStart;
+    for (const run of block.children) {
+      const runEnd = position + run.text.length;
+      let cut = position;
+      for (const boundary of [...boundaries.filter(b => b > position && b < runEnd), runEnd]) {
+        const comments = ranges
+          .map((range, comment) => (range.start <= cut && range.end >= boundary ? comment : -1))
+          .filter(comment => comment !== -1);
+        pieces.push({ kind: "text", text: run.text.slice(cut - position, boundary - position), marks: run.marks, comments });
+        if (boundary < runEnd) emitEvents(boundary);
+        cut = boundary;
+      }
+      position = runEnd;
+      if (position < blockEnd) emitEvents(position);
+    }
+    if (blockEnd > blockStart) emitEvents(blockEnd);
+
+    blockStart = blockEnd + BLOCK_SEPARATOR.length;
+    return pieces;
+  });
+};
+
+// Numbers of consecutive numbered list items, restarting after anything else
+const listNumbers = (blocks: Block[]) => {
+  let count = 0;
+  return blocks.map(block => {
+    count = block.type === "list_item" && block.ordered ? count + 1 : 0;
+    return count;
+  });
+};
+
+const commentAuthorLine = (author: string, body: string) => `${author}: ${body.replace(/\s*\n\s*/g, " ")}`;
+
+// Markdown
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>~|])/g, "\\$1");
+
+// Escapes what would otherwise start a heading, list or quote
+const escapeLineStart = (line: string) =>
+  line.replace(/^(\s*)([#>+-]|\d+(?=[.)]))/, "$1\\$2");
+
+const wrapMarkdown = (text: string, marks: Mark[]) => {
+  const escaped = escapeMarkdown(text);
+  const [, leading, core, trailing] = escaped.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) return escaped;
+
+  let wrapped = core;
+  if (marks.includes("underline")) wrapped = `<u>${wrapped}</u>`;
+  if (marks.includes("italic")) wrapped = `_${wrapped}_`;
+  if (marks.includes("bold")) wrapped = `**${wrapped}**`;
+  return leading + wrapped + trailing;
+};
+
+export const toMarkdown = (source: ExportSource) => {
+  const threads = source.comments || [];
+  const pieces = inlinePieces(source.body, threads);
+  const numbers = listNumbers(source.body.blocks);
+  const lines: string[] = [];
+
+  source.body.blocks.forEach((block, index) => {
+    const text = pieces[index]
+      .map(piece => {
+        if (piece.kind === "text") return wrapMarkdown(piece.text, piece.marks);
+        return piece.kind === "comment-end" ? `[^${piece.comment + 1}]` : "";
+      })
+      .join("");
+    if (!text.trim()) return;
+
+    const previous = source.body.blocks[index - 1];
+    const continuesList = block.type === "list_item" && previous?.type === "list_item" && lines.length > 0;
+    if (lines.length > 0 && !continuesList) lines.push("");
+
+    if (block.type === "heading") {
+      lines.push(`${"#".repeat(block.level || 1)} ${text}`);
+    } else if (block.type === "list_item") {
+      lines.push(`${block.ordered ? `${numbers[index]}.` : "-"} ${escapeLineStart(text)}`);
+    } else {
+      lines.push(escapeLineStart(text));
+    }
+  });
+
+  if (threads.length > 0) {
+    lines.push("");
+    threads.forEach((thread, index) => {
+      const [first, ...rest] = [thread.root, ...thread.replies].map(comment =>
+        escapeMarkdown(commentAuthorLine(comment.author_name, comment.body))
+      );
+      lines.push(`[^${index + 1}]: ${first}`);
+      rest.forEach(reply => lines.push(`    ${reply}`));
+    });
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+// HTML, also used for printing to PDF
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; font-size: 12pt; line-height: 1.6; color: #111; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; }
+  h1, h2, h3 { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.25; margin: 1.5em 0 0.5em; }
+  h1 { font-size: 20pt; } h2 { font-size: 16pt; } h3 { font-size: 13pt; }
+  p { margin: 0 0 0.75em; }
+  ul, ol { margin: 0 0 0.75em; padding-left: 1.5em; }
+  mark.comment { background: #fef3c7; }
+  sup.comment-ref a { color: #92400e; text-decoration: none; font-size: 0.75em; }
+  section.comments { margin-top: 2.5em; border-top: 1px solid #ddd; font-size: 10pt; }
+  section.comments p { margin: 0.25em 0; }
+  @page { margin: 2cm; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h1, h2, h3 { break-after: avoid; }
+    p, li { orphans: 3; widows: 3; }
+  }`;
+
+const renderHtmlInline = (pieces: InlinePiece[]) =>
+  pieces
+    .map(piece => {
+      if (piece.kind === "comment-end") {
+        const n = piece.comment + 1;
+        return `<sup class="comment-ref"><a href="#comment-${n}">[${n}]</a></sup>`;
+      }
+      if (piece.kind !== "text") return "";
+
+      let html = escapeHtml(piece.text);
+      if (piece.marks.includes("underline")) html = `<u>${html}</u>`;
+      if (piece.marks.includes("italic")) html = `<em>${html}</em>`;
+      if (piece.marks.includes("bold")) html = `<strong>${html}</strong>`;
+      return piece.comments.length > 0 ? `<mark class="comment">${html}</mark>` : html;
+    })
+    .join("");
+
+export const toHtml = (source: ExportSource) => {
+  const threads = source.comments || [];
+  const pieces = inlinePieces(source.body, threads);
+  const parts: string[] = [];
+  let openList: "ul" | "ol" | null = null;
+
+  source.body.blocks.forEach((block, index) => {
+    const list = block.type === "list_item" ? (block.ordered ? "ol" : "ul") : null;
+    if (openList && openList !== list) {
+      parts.push(`</${openList}>`);
+      openList = null;
+    }
+    if (list && !openList) {
+      parts.push(`<${list}>`);
+      openList = list;
+    }
+
+    const inner = renderHtmlInline(pieces[index]) || "<br>";
+    if (block.type === "heading") {
+      const level = Math.min(3, Math.max(1, block.level || 1));
+      parts.push(`<h${level}>${inner}</h${level}>`);
+    } else if (list) {
+      parts.push(`<li>${inner}</li>`);
+    } else {
+      parts.push(`<p>${inner}</p>`);
+    }
+  });
+  if (openList) parts.push(`</${openList}>`);
+
+  if (threads.length > 0) {
+    parts.push('<section class="comments">', "<h2>Comments</h2>", "<ol>");
+    threads.forEach((thread, index) => {
+      const comments = [thread.root, ...thread.replies]
+        .map(comment => `<p><strong>${escapeHtml(comment.author_name)}</strong>: ${escapeHtml(comment.body)}</p>`)
+        .join("");
+      parts.push(`<li id="comment-${index + 1}">${comments}</li>`);
+    });
+    parts.push("</ol>", "</section>");
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(source.title)}</title>`,
+    `<style>${PRINT_STYLES}\n</style>`,
+    "</head>",
+    "<body>",
+    ...parts,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+};
+
+// Opens the browser's print dialog for the document, where it can be saved
+// as a PDF. Resolves once the dialog has closed.
+export const printDocument = (source: ExportSource) =>
+  new Promise<void>((resolve) => {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("aria-hidden", "true");
+    frame.style.position = "fixed";
+    frame.style.width = "0";
+    frame.style.height = "0";
+    frame.style.border = "0";
+    frame.srcdoc = toHtml(source);
+    frame.onload = () => {
+      const view = frame.contentWindow;
+      if (view) {
+        view.focus();
+        view.print();
+      }
+      // print() blocks until the dialog closes in every major browser
+      frame.remove();
+      resolve();
+    };
+    document.body.appendChild(frame);
+  });
+
+// DOCX (Office Open XML)
+
+const WORD_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Also drops characters XML can't hold
+const escapeXml = (text: string) =>
+  escapeHtml(text.replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, ""));
+
+const wordText = (text: string) =>
+  text
+    .split("\t")
+    .map(part => (part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ""))
+    .join("<w:tab/>");
+
+const wordRun = (text: string, marks: Mark[]) => {
+  const properties = [
+    marks.includes("bold") ? "<w:b/>" : "",
+    marks.includes("italic") ? "<w:i/>" : "",
+    marks.includes("underline") ? '<w:u w:val="single"/>' : "",
+  ].join("");
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ""}${wordText(text)}</w:r>`;
+};
+
+const BULLET_LIST_ID = 1;
+
+const DOCX_STYLES = `${XML_DECLARATION}<w:styles ${WORD_NAMESPACES}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/><w:szCs w:val="30"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="60"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/><w:szCs w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+</w:styles>`;
+
+const listLevel = (abstractId: number, format: "bullet" | "decimal") =>
+  `<w:abstractNum w:abstractNumId="${abstractId}"><w:multiLevelType w:val="singleLevel"/>` +
+  `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+  `<w:lvlText w:val="${format === "bullet" ? "•" : "%1."}"/><w:lvlJc w:val="left"/>` +
+  '<w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>';
+
+// Every numbered list restarts at 1, so each gets its own numId
+const docxNumbering = (orderedListIds: number[]) =>
+  `${XML_DECLARATION}<w:numbering ${WORD_NAMESPACES}>` +
+  listLevel(0, "bullet") +
+  listLevel(1, "decimal") +
+  `<w:num w:numId="${BULLET_LIST_ID}"><w:abstractNumId w:val="0"/></w:num>` +
+  orderedListIds
+    .map(id =>
+      `<w:num w:numId="${id}"><w:abstractNumId w:val="1"/>` +
+      '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>'
+    )
+    .join("") +
+  "</w:numbering>";
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).map(part => part[0].toUpperCase()).join("").slice(0, 3);
+
+const docxComments = (threads: CommentThread[]) =>
+  `${XML_DECLARATION}<w:comments ${WORD_NAMESPACES}>` +
+  threads
+    .map((thread, index) => {
+      const { root } = thread;
+      const paragraphs = [
+        `<w:p>${wordRun(root.body.replace(/\s*\n\s*/g, " "), [])}</w:p>`,
+        ...thread.replies.map(reply => `<w:p>${wordRun(commentAuthorLine(reply.author_name, reply.body), [])}</w:p>`),
+      ].join("");
+      return `<w:comment w:id="${index}" w:author="${escapeXml(root.author_name)}" w:date="${escapeXml(root.created_at)}" ` +
+        `w:initials="${escapeXml(initials(root.author_name))}">${paragraphs}</w:comment>`;
+    })
+    .join("") +
+  "</w:comments>";
+
+export const toDocx = (source: ExportSource): Promise<Blob> => {
+  const threads = source.comments || [];
+  const pieces = inlinePieces(source.body, threads);
+  const orderedListIds: number[] = [];
+  let previous: Block | undefined;
+
+  const paragraphs = source.body.blocks.map((block, index) => {
+    let properties = "";
+    if (block.type === "heading") {
+      properties = `<w:pStyle w:val="Heading${Math.min(3, Math.max(1, block.level || 1))}"/>`;
+    } else if (block.type === "list_item") {
+      const continues = previous?.type === "list_item" && !!previous.ordered === !!block.ordered;
+      if (block.ordered && !continues) orderedListIds.push(BULLET_LIST_ID + orderedListIds.length + 1);
+      const numId = block.ordered ? orderedListIds[orderedListIds.length - 1] : BULLET_LIST_ID;
+      properties = `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`;
+    }
+    previous = block;
+
+    const content = pieces[index]
+      .map(piece => {
+        if (piece.kind === "text") return wordRun(piece.text, piece.marks);
+        if (piece.kind === "comment-start") return `<w:commentRangeStart w:id="${piece.comment}"/>`;
+        return `<w:commentRangeEnd w:id="${piece.comment}"/><w:r><w:commentReference w:id="${piece.comment}"/></w:r>`;
+      })
+      .join("");
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ""}${content}</w:p>`;
+  });
+
+  const documentXml =
+    `${XML_DECLARATION}<w:document ${WORD_NAMESPACES}><w:body>${paragraphs.join("")}` +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+    "</w:sectPr></w:body></w:document>";
+
+  const hasComments = threads.length > 0;
+  const documentType = "application/vnd.openxmlformats-officedocument.wordprocessingml";
+  const relationshipType = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      data:
+        `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        `<Override PartName="/word/document.xml" ContentType="${documentType}.document.main+xml"/>` +
+        `<Override PartName="/word/styles.xml" ContentType="${documentType}.styles+xml"/>` +
+        `<Override PartName="/word/numbering.xml" ContentType="${documentType}.numbering+xml"/>` +
+        (hasComments ? `<Override PartName="/word/comments.xml" ContentType="${documentType}.comments+xml"/>` : "") +
+        "</Types>",
+    },
+    {
+      name: "_rels/.rels",
+      data:
+        `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relationshipType}/officeDocument" Target="word/document.xml"/>` +
+        "</Relationships>",
+    },
+    {
+      name: "word/_rels/document.xml.rels",
+      data:
+        `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${relationshipType}/styles" Target="styles.xml"/>` +
+        `<Relationship Id="rId2" Type="${relationshipType}/numbering" Target="numbering.xml"/>` +
+        (hasComments ? `<Relationship Id="rId3" Type="${relationshipType}/comments" Target="comments.xml"/>` : "") +
+        "</Relationships>",
+    },
+    { name: "word/document.xml", data: documentXml },
+    { name: "word/styles.xml", data: DOCX_STYLES },
+    { name: "word/numbering.xml", data: docxNumbering(orderedListIds) },
+    ...(hasComments ? [{ name: "word/comments.xml", data: docxComments(threads) }] : []),
+  ]);
+};
+
+// Files
+
+const MIME_TYPES: Record<FileExportFormat, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  markdown: "text/markdown;charset=utf-8",
+  html: "text/html;charset=utf-8",
+};
+
+export const exportDocument = async (source: ExportSource, format: FileExportFormat): Promise<Blob> => {
+  if (format === "docx") return new Blob([await toDocx(source)], { type: MIME_TYPES.docx });
+  const text = format === "markdown" ? toMarkdown(source) : toHtml(source);
+  return new Blob([text], { type: MIME_TYPES[format] });
+};
+
+// A file name that works on every operating system
+export const exportFileName = (title: string, format: ExportFormat) => {
+  const printable = [...title].map(char => (char < " " ? " " : char)).join("");
+  const base = printable.replace(/[\\/:*?"<>|]+/g, " ").replace(/\s+/g, " ").trim().slice(0, 100);
+  const extension = EXPORT_FORMATS.find(option => option.value === format)!.extension;
+  return `${base || "Untitled Document"}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Loads stored documents, with their unresolved comments if asked, and
+// bundles them into one archive. Pending tracked changes are left out.
+// Documents with the same title get numbered file names.
+export const exportDocumentsZip = async (
+  userId: string,
+  documentIds: string[] | null,
+  format: FileExportFormat,
+  includeComments: boolean
+): Promise<{ archive: Blob; count: number }> => {
+  const documents = await fetchDocumentsForExport(userId, documentIds);
+  // Lowercased, since some file systems ignore case
+  const usedNames = new Set<string>();
+  const files = [];
+
+  for (const doc of documents) {
+    const threads = includeComments ? unresolvedThreads(buildThreads(await fetchComments(doc.id))) : [];
+    const reviewed = withoutTrackedChanges(
+      parseDocumentJson(doc.body, doc.content),
+      await fetchTrackedChanges(doc.id),
+      threads
+    );
+    const source = {
+      title: doc.title,
+      body: reviewed.document,
+      comments: includeComments ? reviewed.anchored : undefined,
+    };
+
+    // Numbered names can match another document's title, e.g. "Notes (2)"
+    const fileName = exportFileName(doc.title, format);
+    const dot = fileName.lastIndexOf(".");
+    let uniqueName = fileName;
+    for (let count = 2; usedNames.has(uniqueName.toLowerCase()); count++) {
+      uniqueName = `${fileName.slice(0, dot)} (${count})${fileName.slice(dot)}`;
+    }
+    usedNames.add(uniqueName.toLowerCase());
+
+    const blob = await exportDocument(source, format);
+    files.push({ name: uniqueName, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  return { archive: await createZip(files), count: files.length };
+};
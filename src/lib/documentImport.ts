@@ -0,0 +1,470 @@
+import { Block, Mark, RichDocument, TextRun, fromPlainText, normalizeDocument, parseHtml } from "@/lib/documentModel";
+import { ZipEncryptedError, ZipEntryTooLargeError, openZip } from "@/lib/zipArchive";
+
+// Turns files into the document model (see documentModel). Headings, lists
+// and bold/italic/underline survive; everything else the model can't hold
+// (images, tables, links, colors) is reduced to its text.
+
+export const IMPORT_ACCEPT = ".docx,.md,.markdown,.txt,.text,.html,.htm";
+
+// Keeps a single import from freezing the tab
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+// A file that can't be imported; the message is shown to the user
+export class ImportError extends Error {}
+
+export interface ImportedDocument {
+  title: string;
+  body: RichDocument;
+}
+
+type ImportFormat = "docx" | "markdown" | "text" | "html";
+
+const FORMATS_BY_EXTENSION: Record<string, ImportFormat> = {
+  docx: "docx",
+  md: "markdown",
+  markdown: "markdown",
+  txt: "text",
+  text: "text",
+  html: "html",
+  htm: "html",
+};
+
+const fileExtension = (name: string) => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+};
+
+export const isImportableFile = (file: File) => fileExtension(file.name) in FORMATS_BY_EXTENSION;
+
+const titleFromFileName = (name: string) => {
+  const dot = name.lastIndexOf(".");
+  return (dot > 0 ? name.slice(0, dot) : name).trim() || "Untitled Document";
+};
+
+const normalizeNewlines = (text: string) => text.replace(/\r\n?/g, "\n");
+
+// Plain text: one paragraph per line
+
+export const parsePlainText = (text: string): RichDocument =>
+  normalizeDocument(fromPlainText(normalizeNewlines(text)));
+
+// Markdown: ATX and setext headings, bullet and numbered lists, block
+// quotes, code blocks and the common inline syntax. Headings deeper than
+// three levels become level 3, like HTML headings do.
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+const closingDelimiter = (text: string, delimiter: string, from: number) => {
+  for (let index = text.indexOf(delimiter, from); index !== -1; index = text.indexOf(delimiter, index + 1)) {
+    const before = text[index - 1];
+    const after = text[index + delimiter.length];
+    if (index === from || /\s/.test(before)) continue;
+    // `_` only closes at the end of a word, and a single `*` mustn't be half of `**`
+    if (delimiter[0] === "_" && after && WORD_CHARACTER.test(after)) continue;
+    if (delimiter === "*" && (after === "*" || before === "*")) continue;
+    return index;
+  }
+  return -1;
+};
+
+const EMPHASIS: { delimiter: string; marks: Mark[] }[] = [
+  { delimiter: "***", marks: ["bold", "italic"] },
+  { delimiter: "___", marks: ["bold", "italic"] },
+  { delimiter: "**", marks: ["bold"] },
+  { delimiter: "__", marks: ["bold"] },
+  { delimiter: "*", marks: ["italic"] },
+  { delimiter: "_", marks: ["italic"] },
+];
+
+export const parseMarkdownInline = (text: string, marks: Mark[] = [], runs: TextRun[] = []): TextRun[] => {
+  let buffer = "";
+  const flush = () => {
+    if (buffer) runs.push({ text: buffer, marks });
+    buffer = "";
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const rest = text.slice(index);
+
+    // Escaped punctuation is literal
+    if (rest[0] === "\\" && rest.length > 1 && /[!-/:-@[-`{-~]/.test(rest[1])) {
+      buffer += rest[1];
+      index += 2;
+      continue;
+    }
+
+    // Code spans keep their text as is
+    const code = rest.match(/^(`+)([\s\S]*?[^`])\1(?!`)/);
+    if (code) {
+      buffer += code[2].trim();
+      index += code[0].length;
+      continue;
+    }
+
+    // Images keep their alt text, links their label
+    const link = rest.match(/^(!?)\[([^\]]*)\]\([^)]*\)/);
+    if (link) {
+      if (link[1]) {
+        buffer += link[2];
+      } else {
+        flush();
+        parseMarkdownInline(link[2], marks, runs);
+      }
+      index += link[0].length;
+      continue;
+    }
+
+    const autolink = rest.match(/^<((?:https?|mailto):[^>\s]+)>/i);
+    if (autolink) {
+      buffer += autolink[1];
+      index += autolink[0].length;
+      continue;
+    }
+
+    const underline = rest.match(/^<u>([\s\S]*?)<\/u>/i);
+    if (underline) {
+      flush();
+      parseMarkdownInline(underline[1], [...marks, "underline"], runs);
+      index += underline[0].length;
+      continue;
+    }
+
+    // Strikethrough has no mark in the model
+    const strike = rest.match(/^~~(?=\S)([\s\S]*?\S)~~/);
+    if (strike) {
+      flush();
+      parseMarkdownInline(strike[1], marks, runs);
+      index += strike[0].length;
+      continue;
+    }
+
+    const emphasis = EMPHASIS.find(({ delimiter }) => {
+      if (!rest.startsWith(delimiter) || /\s/.test(rest[delimiter.length] || " ")) return false;
+      // `_` only opens at the start of a word
+      return delimiter[0] !== "_" || !WORD_CHARACTER.test(text[index - 1] || "");
+    });
+    const close = emphasis ? closingDelimiter(rest, emphasis.delimiter, emphasis.delimiter.length) : -1;
+    if (emphasis && close !== -1) {
+      flush();
+      parseMarkdownInline(rest.slice(emphasis.delimiter.length, close), [...marks, ...emphasis.marks], runs);
+      index += close + emphasis.delimiter.length;
+      continue;
+    }
+
+    buffer += rest[0];
+    index += 1;
+  }
+
+  flush();
+  return runs;
+};
+
+const LIST_ITEM = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+export const parseMarkdown = (markdown: string): RichDocument => {
+  const blocks: Block[] = [];
+  // Lines of the paragraph or list item being read
+  let pending: { block: Omit<Block, "children">; lines: string[] } | null = null;
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (pending) {
+      blocks.push({ ...pending.block, children: parseMarkdownInline(pending.lines.join(" ")) });
+      pending = null;
+    }
+  };
+
+  for (const rawLine of normalizeNewlines(markdown).split("\n")) {
+    if (fence !== null) {
+      if (rawLine.trim().startsWith(fence)) {
+        fence = null;
+      } else {
+        blocks.push({ type: "paragraph", children: rawLine ? [{ text: rawLine, marks: [] }] : [] });
+      }
+      continue;
+    }
+
+    const fenceMatch = rawLine.match(FENCE);
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    // Block quotes are read as their content
+    const line = rawLine.replace(/^ {0,3}(>\s?)+/, "");
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+
+    // Setext headings underline the paragraph before them
+    if (pending?.block.type === "paragraph" && /^=+$|^-+$/.test(trimmed)) {
+      pending.block = { type: "heading", level: trimmed[0] === "=" ? 1 : 2 };
+      flush();
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({
+        type: "heading",
+        level: Math.min(3, heading[1].length),
+        children: parseMarkdownInline(heading[2] || ""),
+      });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flush();
+      pending = { block: { type: "list_item", ordered: /\d/.test(item[1]) }, lines: [item[2].trim()] };
+      continue;
+    }
+
+    // Table rows keep their cells' text
+    if (/^\|.*\|$/.test(trimmed)) {
+      flush();
+      if (!/^\|[\s:|-]+\|$/.test(trimmed)) {
+        const cells = trimmed.slice(1, -1).split("|").map(cell => cell.trim());
+        blocks.push({ type: "paragraph", children: parseMarkdownInline(cells.join("\t")) });
+      }
+      continue;
+    }
+
+    if (pending) {
+      pending.lines.push(trimmed);
+    } else {
+      pending = { block: { type: "paragraph" }, lines: [trimmed] };
+    }
+  }
+  flush();
+
+  return normalizeDocument({ version: 1, blocks });
+};
+
+// HTML: read through the same parser as the editor's own DOM, after
+// dropping what never shows as text
+
+const collapseWhitespace = (doc: RichDocument): RichDocument =>
+  normalizeDocument({
+    version: 1,
+    blocks: doc.blocks.map(block => {
+      const children = block.children.map(run => ({ ...run, text: run.text.replace(/\s+/g, " ") }));
+      if (children.length > 0) {
+        children[0] = { ...children[0], text: children[0].text.trimStart() };
+        const last = children.length - 1;
+        children[last] = { ...children[last], text: children[last].text.trimEnd() };
+      }
+      return { ...block, children };
+    }),
+  });
+
+export const parseHtmlDocument = (html: string): RichDocument => {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+  parsed.querySelectorAll("script, style, template, noscript, head, svg").forEach(element => element.remove());
+  return collapseWhitespace(parseHtml(parsed.body));
+};
+
+// DOCX: paragraphs from word/document.xml, with heading styles from
+// word/styles.xml and bullet vs numbered lists from word/numbering.xml
+
+const WORD_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const wordChildren = (element: Element, localName?: string) =>
+  Array.from(element.children).filter(
+    child => child.namespaceURI === WORD_NAMESPACE && (!localName || child.localName === localName)
+  );
+
+const wordChild = (element: Element | null | undefined, localName: string) =>
+  element ? wordChildren(element, localName)[0] || null : null;
+
+const wordValue = (element: Element | null) =>
+  element ? element.getAttributeNS(WORD_NAMESPACE, "val") : null;
+
+// <w:b/> is on; <w:b w:val="false"/> is off
+const isToggleOn = (element: Element | null) => {
+  if (!element) return false;
+  const value = wordValue(element);
+  return value === null || !["0", "false", "off", "none"].includes(value);
+};
+
+const parseXml = (data: Uint8Array) => {
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(data), "application/xml");
+  if (xml.getElementsByTagName("parsererror").length > 0) throw new ImportError("The file is damaged");
+  return xml;
+};
+
+// Heading level (or 0 for a title) per paragraph style id. Style ids are
+// localized in some versions of Word, their names aren't.
+const readHeadingStyles = (styles: Document | null) => {
+  const levels = new Map<string, number>();
+  if (!styles) return levels;
+
+  for (const style of Array.from(styles.getElementsByTagNameNS(WORD_NAMESPACE, "style"))) {
+    const id = style.getAttributeNS(WORD_NAMESPACE, "styleId");
+    const name = (wordValue(wordChild(style, "name")) || "").toLowerCase();
+    const heading = name.match(/^heading (\d)$/);
+    if (!id) continue;
+    if (heading) levels.set(id, Number(heading[1]));
+    else if (name === "title") levels.set(id, 1);
+    else if (name === "subtitle") levels.set(id, 2);
+  }
+  return levels;
+};
+
+// Whether each list (by numId and level) is numbered rather than bulleted
+const readListFormats = (numbering: Document | null) => {
+  const ordered = new Map<string, boolean>();
+  if (!numbering) return ordered;
+
+  const abstractFormats = new Map<string, Map<string, boolean>>();
+  for (const abstract of Array.from(numbering.getElementsByTagNameNS(WORD_NAMESPACE, "abstractNum"))) {
+    const levels = new Map<string, boolean>();
+    for (const level of wordChildren(abstract, "lvl")) {
+      const format = wordValue(wordChild(level, "numFmt"));
+      levels.set(level.getAttributeNS(WORD_NAMESPACE, "ilvl") || "0", !!format && format !== "bullet" && format !== "none");
+    }
+    abstractFormats.set(abstract.getAttributeNS(WORD_NAMESPACE, "abstractNumId") || "", levels);
+  }
+
+  for (const num of Array.from(numbering.getElementsByTagNameNS(WORD_NAMESPACE, "num"))) {
+    const levels = abstractFormats.get(wordValue(wordChild(num, "abstractNumId")) || "");
+    const numId = num.getAttributeNS(WORD_NAMESPACE, "numId");
+    levels?.forEach((isOrdered, level) => ordered.set(`${numId}:${level}`, isOrdered));
+  }
+  return ordered;
+};
+
+const runMarks = (run: Element): Mark[] => {
+  const properties = wordChild(run, "rPr");
+  const marks: Mark[] = [];
+  if (isToggleOn(wordChild(properties, "b"))) marks.push("bold");
+  if (isToggleOn(wordChild(properties, "i"))) marks.push("italic");
+  if (isToggleOn(wordChild(properties, "u"))) marks.push("underline");
+  return marks;
+};
+
+const runText = (run: Element) =>
+  wordChildren(run)
+    .map(child => {
+      switch (child.localName) {
+        case "t":
+          return child.textContent || "";
+        case "tab":
+          return "\t";
+        // The model has no line breaks inside a paragraph
+        case "br":
+        case "cr":
+          return " ";
+        case "noBreakHyphen":
+          return "-";
+        default:
+          return "";
+      }
+    })
+    .join("");
+
+// Runs inside a paragraph, including ones in links, tracked insertions and
+// content controls. Tracked deletions are left out.
+const collectWordRuns = (element: Element, runs: TextRun[]) => {
+  for (const child of wordChildren(element)) {
+    if (child.localName === "r") {
+      const text = runText(child);
+      if (text) runs.push({ text, marks: runMarks(child) });
+    } else if (!["pPr", "del", "moveFrom"].includes(child.localName)) {
+      collectWordRuns(child, runs);
+    }
+  }
+};
+
+export const parseDocx = async (data: ArrayBuffer): Promise<RichDocument> => {
+  let archive;
+  try {
+    archive = openZip(data);
+  } catch {
+    throw new ImportError("The file isn't a Word document");
+  }
+
+  // Encrypted, oversized or damaged entries fail to read or inflate
+  let documentXml, styles, numbering;
+  try {
+    [documentXml, styles, numbering] = await Promise.all([
+      archive.read("word/document.xml"),
+      archive.read("word/styles.xml"),
+      archive.read("word/numbering.xml"),
+    ]);
+  } catch (error) {
+    if (error instanceof ZipEncryptedError) throw new ImportError("The file is password protected");
+    if (error instanceof ZipEntryTooLargeError) throw new ImportError("The file is too large to import");
+    throw new ImportError("The file isn't a Word document or is damaged");
+  }
+  if (!documentXml) throw new ImportError("The file isn't a Word document");
+
+  const headingLevels = readHeadingStyles(styles && parseXml(styles));
+  const listFormats = readListFormats(numbering && parseXml(numbering));
+  const body = wordChild(parseXml(documentXml).documentElement, "body");
+  const blocks: Block[] = [];
+
+  const readParagraph = (paragraph: Element) => {
+    const properties = wordChild(paragraph, "pPr");
+    const style = wordValue(wordChild(properties, "pStyle"));
+    const list = wordChild(properties, "numPr");
+    const numId = wordValue(wordChild(list, "numId"));
+    const children: TextRun[] = [];
+    collectWordRuns(paragraph, children);
+
+    if (style && headingLevels.has(style)) {
+      blocks.push({ type: "heading", level: Math.min(3, Math.max(1, headingLevels.get(style)!)), children });
+    } else if (list && numId && numId !== "0") {
+      const level = wordValue(wordChild(list, "ilvl")) || "0";
+      blocks.push({ type: "list_item", ordered: listFormats.get(`${numId}:${level}`) ?? false, children });
+    } else {
+      blocks.push({ type: "paragraph", children });
+    }
+  };
+
+  // Tables become a paragraph per cell paragraph; content controls are
+  // read through
+  const readBlocks = (element: Element) => {
+    for (const child of wordChildren(element)) {
+      if (child.localName === "p") readParagraph(child);
+      else if (["tbl", "tr", "tc", "sdt", "sdtContent"].includes(child.localName)) readBlocks(child);
+    }
+  };
+  if (body) readBlocks(body);
+
+  return normalizeDocument({ version: 1, blocks });
+};
+
+// Reads one file into a new document's title and text
+export const importFile = async (file: File): Promise<ImportedDocument> => {
+  const format = FORMATS_BY_EXTENSION[fileExtension(file.name)];
+  if (!format) throw new ImportError("Only .docx, .md, .txt and .html files can be imported");
+  if (file.size > MAX_IMPORT_BYTES) throw new ImportError("The file is larger than 10 MB");
+
+  const title = titleFromFileName(file.name);
+  switch (format) {
+    case "docx":
+      return { title, body: await parseDocx(await file.arrayBuffer()) };
+    case "markdown":
+      return { title, body: parseMarkdown(await file.text()) };
+    case "html":
+      return { title, body: parseHtmlDocument(await file.text()) };
+    default:
+      return { title, body: parsePlainText(await file.text()) };
+  }
+};
@@ -0,0 +1,246 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { RichDocument, serializeDocument, toPlainText } from "@/lib/documentModel";
+
+// Listing, searching and organizing documents on the Dashboard
+
+export type Folder = Tables<"folders">;
+
+export type DocumentSummary = Pick<
+  Tables<"documents">,
+  "id" | "user_id" | "title" | "content" | "created_at" | "updated_at" | "deleted_at" | "folder_id" | "tags" | "word_count"
+>;
+
+const SUMMARY_COLUMNS = "id, user_id, title, content, created_at, updated_at, deleted_at, folder_id, tags, word_count";
+
+export const DOCUMENTS_PAGE_SIZE = 12;
+
+export type DocumentSort = "updated" | "title" | "words";
+
+export const DOCUMENT_SORTS: { value: DocumentSort; label: string }[] = [
+  { value: "updated", label: "Last updated" },
+  { value: "title", label: "Title" },
+  { value: "words", label: "Word count" },
+];
+
+// Documents outside any folder
+export const UNFILED = "unfiled";
+
+// Deleted documents, until they are restored or purged
+export const TRASH = "trash";
+
+// Matches purge_deleted_documents
+export const TRASH_RETENTION_DAYS = 30;
+
+export const daysUntilPurge = (deletedAt: string) =>
+  Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - (Date.now() - new Date(deletedAt).getTime()) / (24 * 60 * 60 * 1000)));
+
+export interface DocumentQuery {
+  search: string;
+  // A folder id, UNFILED, TRASH, or null for every document
+  folder: string | null;
+  tag: string | null;
+  sort: DocumentSort;
+  // Zero-based
+  page: number;
+}
+
+// Tags are compared case-insensitively, so they are stored lowercased
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+export const fetchDocumentPage = async (
+  query: DocumentQuery
+): Promise<{ documents: DocumentSummary[]; total: number }> => {
+  let request = supabase
+    .from("documents")
+    .select(SUMMARY_COLUMNS, { count: "exact" });
+
+  if (query.search.trim()) {
+    request = request.textSearch("search_vector", query.search.trim(), { type: "websearch", config: "english" });
+  }
+  if (query.folder === TRASH) {
+    request = request.not("deleted_at", "is", null);
+  } else {
+    request = request.is("deleted_at", null);
+  }
+  if (query.folder === UNFILED) {
+    request = request.is("folder_id", null);
+  } else if (query.folder && query.folder !== TRASH) {
+    request = request.eq("folder_id", query.folder);
+  }
+  if (query.tag) {
+    request = request.contains("tags", [query.tag]);
+  }
+
+  if (query.sort === "title") {
+    request = request.order("title", { ascending: true });
+  } else if (query.sort === "words") {
+    request = request.order("word_count", { ascending: false });
+  }
+  request = request.order("updated_at", { ascending: false });
+
+  const from = query.page * DOCUMENTS_PAGE_SIZE;
+  const { data, error, count } = await request.range(from, from + DOCUMENTS_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { documents: data || [], total: count || 0 };
+};
+
+// Totals over every document the user can open, for the stats cards
+export const fetchDocumentStats = async () => {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("word_count")
+    .is("deleted_at", null);
+
+  if (error) throw error;
+  const rows = data || [];
+  return {
+    documents: rows.length,
+    words: rows.reduce((sum, row) => sum + (row.word_count || 0), 0),
+  };
+};
+
+// Every tag in use, most used first
+export const fetchDocumentTags = async (): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("tags")
+    .is("deleted_at", null);
+
+  if (error) throw error;
+  const counts = new Map<string, number>();
+  for (const row of data || []) {
+    for (const tag of row.tags) counts.set(tag, (counts.get(tag) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+};
+
+// Returns the new document's id
+export const createDocument = async (
+  userId: string,
+  document: { title: string; body?: RichDocument; goals?: Json; folderId?: string | null }
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from("documents")
+    .insert({
+      user_id: userId,
+      title: document.title,
+      content: document.body ? toPlainText(document.body) : "",
+      body: document.body ? serializeDocument(document.body) : null,
+      goals: document.goals ?? {},
+      folder_id: document.folderId ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const setDocumentTags = async (documentId: string, tags: string[]) => {
+  const { error } = await supabase
+    .from("documents")
+    .update({ tags: [...new Set(tags.map(normalizeTag).filter(Boolean))] })
+    .eq("id", documentId);
+
+  if (error) throw error;
+};
+
+export const moveDocumentToFolder = async (documentId: string, folderId: string | null) => {
+  const { error } = await supabase
+    .from("documents")
+    .update({ folder_id: folderId })
+    .eq("id", documentId);
+
+  if (error) throw error;
+};
+
+export const fetchFolders = async (): Promise<Folder[]> => {
+  const { data, error } = await supabase
+    .from("folders")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createFolder = async (userId: string, name: string): Promise<Folder> => {
+  const { data, error } = await supabase
+    .from("folders")
+    .insert({ user_id: userId, name: name.trim() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const renameFolder = async (folderId: string, name: string) => {
+  const { error } = await supabase
+    .from("folders")
+    .update({ name: name.trim() })
+    .eq("id", folderId);
+
+  if (error) throw error;
+};
+
+// Its documents become unfiled
+export const deleteFolder = async (folderId: string) => {
+  const { error } = await supabase
+    .from("folders")
+    .delete()
+    .eq("id", folderId);
+
+  if (error) throw error;
+};
+
+export const moveDocumentsToTrash = async (documentIds: string[]) => {
+  const { error } = await supabase
+    .from("documents")
+    .update({ deleted_at: new Date().toISOString() })
+    .in("id", documentIds);
+
+  if (error) throw error;
+};
+
+export const restoreDocuments = async (documentIds: string[]) => {
+  const { error } = await supabase
+    .from("documents")
+    .update({ deleted_at: null })
+    .in("id", documentIds);
+
+  if (error) throw error;
+};
+
+// Deletes documents and everything attached to them for good
+export const deleteDocumentsForever = async (documentIds: string[]) => {
+  const { error } = await supabase
+    .from("documents")
+    .delete()
+    .in("id", documentIds);
+
+  if (error) throw error;
+};
+
+// The user's own documents with their content, outside the trash. All of
+// them when no ids are given.
+export const fetchDocumentsForExport = async (
+  userId: string,
+  documentIds: string[] | null
+): Promise<Pick<Tables<"documents">, "id" | "title" | "content" | "body">[]> => {
+  let request = supabase
+    .from("documents")
+    .select("id, title, content, body")
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+
+  if (documentIds) request = request.in("id", documentIds);
+
+  const { data, error } = await request.order("title", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type DocumentRole = "viewer" | "commenter" | "editor";
+
+// What the current user can do with a document
+export type DocumentAccess = "owner" | DocumentRole;
+
+export const DOCUMENT_ROLES: { value: DocumentRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Can read" },
+  { value: "commenter", label: "Commenter", description: "Can read and comment" },
+  { value: "editor", label: "Editor", description: "Can edit" },
+];
+
+export const documentRoleLabel = (role: string) =>
+  role === "owner" ? "Owner" : DOCUMENT_ROLES.find((option) => option.value === role)?.label || role;
+
+export const canEditDocument = (access: DocumentAccess | null) => access === "owner" || access === "editor";
+
+export const canCommentOnDocument = (access: DocumentAccess | null) =>
+  canEditDocument(access) || access === "commenter";
+
+// Everyone with access to a document, the owner first
+export type DocumentMember = Database["public"]["Functions"]["get_document_members"]["Returns"][number];
+
+export const fetchDocumentAccess = async (documentId: string): Promise<DocumentAccess | null> => {
+  const { data, error } = await supabase.rpc("document_role", { doc_id: documentId });
+  if (error) throw error;
+  return (data as DocumentAccess) || null;
+};
+
+export const fetchDocumentMembers = async (documentId: string): Promise<DocumentMember[]> => {
+  const { data, error } = await supabase.rpc("get_document_members", { doc_id: documentId });
+  if (error) throw error;
+  return data || [];
+};
+
+// Only works for emails that already have an account
+export const inviteDocumentMember = async (documentId: string, email: string, role: DocumentRole) => {
+  const { error } = await supabase.rpc("invite_document_member", {
+    doc_id: documentId,
+    member_email: email,
+    member_role: role,
+  });
+  if (error) throw error;
+};
+
+export const updateDocumentMemberRole = async (documentId: string, userId: string, role: DocumentRole) => {
+  const { error } = await supabase
+    .from("document_members")
+    .update({ role })
+    .eq("document_id", documentId)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+};
+
+export const removeDocumentMember = async (documentId: string, userId: string) => {
+  const { error } = await supabase
+    .from("document_members")
+    .delete()
+    .eq("document_id", documentId)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,91 @@
+import { Block, RichDocument, normalizeDocument } from "@/lib/documentModel";
+
+// Three-way merge of two edited copies of a document, block by block
+
+export interface MergeResult {
+  document: RichDocument;
+  // Places where both sides changed the same blocks; both versions are kept,
+  // ours first
+  conflicts: number;
+}
+
+const blockKey = (block: Block) => JSON.stringify(block);
+
+// Matches between two sequences along their longest common subsequence,
+// as a map from index in `a` to index in `b`
+const lcsMatches = (a: string[], b: string[]) => {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.set(i++, j++);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+};
+
+const sameBlocks = (a: string[], b: string[]) => a.length === b.length && a.every((key, index) => key === b[index]);
+
+export const mergeDocuments = (base: RichDocument, ours: RichDocument, theirs: RichDocument): MergeResult => {
+  const baseKeys = base.blocks.map(blockKey);
+  const ourKeys = ours.blocks.map(blockKey);
+  const theirKeys = theirs.blocks.map(blockKey);
+  const ourMatches = lcsMatches(baseKeys, ourKeys);
+  const theirMatches = lcsMatches(baseKeys, theirKeys);
+
+  const blocks: Block[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let ourIndex = 0;
+  let theirIndex = 0;
+
+  // Resolves the stretch before the next base block both sides kept
+  const mergeUpTo = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+    const baseChunk = baseKeys.slice(baseIndex, baseEnd);
+    const ourChunk = ourKeys.slice(ourIndex, ourEnd);
+    const theirChunk = theirKeys.slice(theirIndex, theirEnd);
+    const ourBlocks = ours.blocks.slice(ourIndex, ourEnd);
+    const theirBlocks = theirs.blocks.slice(theirIndex, theirEnd);
+
+    if (sameBlocks(ourChunk, baseChunk) || sameBlocks(ourChunk, theirChunk)) {
+      blocks.push(...theirBlocks);
+    } else if (sameBlocks(theirChunk, baseChunk)) {
+      blocks.push(...ourBlocks);
+    } else {
+      conflicts++;
+      blocks.push(...ourBlocks, ...theirBlocks);
+    }
+  };
+
+  for (let k = 0; k < baseKeys.length; k++) {
+    const ourMatch = ourMatches.get(k);
+    const theirMatch = theirMatches.get(k);
+    if (ourMatch === undefined || theirMatch === undefined) continue;
+
+    mergeUpTo(k, ourMatch, theirMatch);
+    blocks.push(base.blocks[k]);
+    baseIndex = k + 1;
+    ourIndex = ourMatch + 1;
+    theirIndex = theirMatch + 1;
+  }
+  mergeUpTo(baseKeys.length, ourKeys.length, theirKeys.length);
+
+  return {
+    document: normalizeDocument({ version: 1, blocks }),
+    conflicts,
+  };
+};
@@ -0,0 +1,378 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Structured document model persisted in `documents.body`. The plain-text
+// projection (`toPlainText`) is what gets stored in `documents.content` and
+// sent to `check-text`, so every suggestion offset is an offset into it.
+// Blocks are joined with a single newline in that projection.
+
+export type Mark = "bold" | "italic" | "underline";
+
+export type BlockType = "paragraph" | "heading" | "list_item";
+
+export interface TextRun {
+  text: string;
+  marks: Mark[];
+}
+
+export interface Block {
+  type: BlockType;
+  // Heading level (1-3), only set for headings
+  level?: number;
+  // Numbered vs bulleted, only set for list items
+  ordered?: boolean;
+  children: TextRun[];
+}
+
+export interface RichDocument {
+  version: 1;
+  blocks: Block[];
+}
+
+export const BLOCK_SEPARATOR = "\n";
+
+const MARK_ORDER: Mark[] = ["bold", "italic", "underline"];
+
+const sortMarks = (marks: Iterable<Mark>): Mark[] => {
+  const set = new Set(marks);
+  return MARK_ORDER.filter(mark => set.has(mark));
+};
+
+const sameMarks = (a: Mark[], b: Mark[]) =>
+  a.length === b.length && a.every((mark, index) => mark === b[index]);
+
+export const createEmptyDocument = (): RichDocument => ({
+  version: 1,
+  blocks: [{ type: "paragraph", children: [] }],
+});
+
+export const fromPlainText = (text: string): RichDocument => ({
+  version: 1,
+  blocks: (text || "").split(BLOCK_SEPARATOR).map(line => ({
+    type: "paragraph" as const,
+    children: line ? [{ text: line, marks: [] }] : [],
+  })),
+});
+
+export const blockText = (block: Block) =>
+  block.children.map(run => run.text).join("");
+
+export const toPlainText = (doc: RichDocument) =>
+  doc.blocks.map(blockText).join(BLOCK_SEPARATOR);
+
+// Merges adjacent runs with identical marks, drops empty runs and makes sure
+// the document always has at least one block to put the caret in.
+export const normalizeDocument = (doc: RichDocument): RichDocument => {
+  const blocks = doc.blocks.map(block => {
+    const children: TextRun[] = [];
+    for (const run of block.children) {
+      if (!run.text) continue;
+      const marks = sortMarks(run.marks);
+      const previous = children[children.length - 1];
+      if (previous && sameMarks(previous.marks, marks)) {
+        previous.text += run.text;
+      } else {
+        children.push({ text: run.text, marks });
+      }
+    }
+    return { ...block, children };
+  });
+
+  return {
+    version: 1,
+    blocks: blocks.length > 0 ? blocks : createEmptyDocument().blocks,
+  };
+};
+
+export const isRichDocument = (value: unknown): value is RichDocument => {
+  if (!value || typeof value !== "object") return false;
+  const doc = value as Partial<RichDocument>;
+  return (
+    doc.version === 1 &&
+    Array.isArray(doc.blocks) &&
+    doc.blocks.every(
+      block =>
+        block &&
+        typeof block.type === "string" &&
+        Array.isArray(block.children) &&
+        block.children.every(
+          run => run && typeof run.text === "string" && Array.isArray(run.marks)
+        )
+    )
+  );
+};
+
+export const serializeDocument = (doc: RichDocument): Json =>
+  doc as unknown as Json;
+
+// Documents saved before `body` existed only have plain `content`.
+export const parseDocumentJson = (
+  body: Json | null | undefined,
+  fallbackText: string | null
+): RichDocument =>
+  isRichDocument(body)
+    ? normalizeDocument(body)
+    : fromPlainText(fallbackText || "");
+
+// Splits a run list at a block-relative offset.
+const splitRuns = (runs: TextRun[], offset: number): [TextRun[], TextRun[]] => {
+  const before: TextRun[] = [];
+  const after: TextRun[] = [];
+  let position = 0;
+
+  for (const run of runs) {
+    const runEnd = position + run.text.length;
+    if (runEnd <= offset) {
+      before.push(run);
+    } else if (position >= offset) {
+      after.push(run);
+    } else {
+      const cut = offset - position;
+      before.push({ text: run.text.slice(0, cut), marks: run.marks });
+      after.push({ text: run.text.slice(cut), marks: run.marks });
+    }
+    position = runEnd;
+  }
+
+  return [before, after];
+};
+
+// Maps a plain-text offset to a block index and an offset inside that block.
+export const locateOffset = (doc: RichDocument, offset: number) => {
+  let position = 0;
+  for (let index = 0; index < doc.blocks.length; index++) {
+    const length = blockText(doc.blocks[index]).length;
+    if (offset <= position + length) {
+      return { blockIndex: index, offset: Math.max(0, offset - position) };
+    }
+    position += length + BLOCK_SEPARATOR.length;
+  }
+  const lastIndex = doc.blocks.length - 1;
+  return {
+    blockIndex: lastIndex,
+    offset: blockText(doc.blocks[lastIndex]).length,
+  };
+};
+
+// Marks the character at `offset` carries, falling back to the character
+// before it so text typed at the end of a bold word stays bold.
+const marksAt = (block: Block, offset: number): Mark[] => {
+  let position = 0;
+  let previous: Mark[] = [];
+  for (const run of block.children) {
+    const runEnd = position + run.text.length;
+    if (offset < runEnd && offset >= position) return run.marks;
+    if (runEnd === offset) previous = run.marks;
+    position = runEnd;
+  }
+  return previous;
+};
+
+// Replaces the plain-text range [start, end) with `text`, keeping the
+// formatting around it. The inserted text takes the marks of the text it
+// replaces; newlines in `text` start new paragraphs.
+export const replaceRange = (
+  doc: RichDocument,
+  start: number,
+  end: number,
+  text: string
+): RichDocument => {
+  const from = locateOffset(doc, start);
+  const to = locateOffset(doc, Math.max(start, end));
+  const startBlock = doc.blocks[from.blockIndex];
+  const endBlock = doc.blocks[to.blockIndex];
+
+  const [head] = splitRuns(startBlock.children, from.offset);
+  const [, tail] = splitRuns(endBlock.children, to.offset);
+  const marks = marksAt(startBlock, from.offset);
+
+  const lines = text.split(BLOCK_SEPARATOR);
+  const replacement: Block[] = lines.map((line, index) => {
+    const isFirst = index === 0;
+    const isLast = index === lines.length - 1;
+    const inserted = line ? [{ text: line, marks }] : [];
+    return {
+      ...(isFirst ? startBlock : { type: "paragraph" as const }),
+      children: [
+        ...(isFirst ? head : []),
+        ...inserted,
+        ...(isLast ? tail : []),
+      ],
+    };
+  });
+
+  return normalizeDocument({
+    version: 1,
+    blocks: [
+      ...doc.blocks.slice(0, from.blockIndex),
+      ...replacement,
+      ...doc.blocks.slice(to.blockIndex + 1),
+    ],
+  });
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const renderRun = (run: TextRun) => {
+  let html = escapeHtml(run.text);
+  if (run.marks.includes("underline")) html = `<u>${html}</u>`;
+  if (run.marks.includes("italic")) html = `<em>${html}</em>`;
+  if (run.marks.includes("bold")) html = `<strong>${html}</strong>`;
+  return html;
+};
+
+const renderBlock = (block: Block) => {
+  // Empty blocks need a <br> so the browser gives them a line to type in
+  const inner = block.children.length > 0
+    ? block.children.map(renderRun).join("")
+    : "<br>";
+
+  switch (block.type) {
+    case "heading": {
+      const level = Math.min(3, Math.max(1, block.level || 1));
+      return `<h${level}>${inner}</h${level}>`;
+    }
+    case "list_item":
+      return `<p data-block="list_item" data-ordered="${block.ordered ? "true" : "false"}">${inner}</p>`;
+    default:
+      return `<p>${inner}</p>`;
+  }
+};
+
+export const renderHtml = (doc: RichDocument) =>
+  doc.blocks.map(renderBlock).join("");
+
+const BOLD_TAGS = new Set(["B", "STRONG"]);
+const ITALIC_TAGS = new Set(["I", "EM"]);
+const UNDERLINE_TAGS = new Set(["U", "INS"]);
+const BLOCK_TAGS = new Set([
+  "P", "DIV", "H1", "H2", "H3", "H4", "H5", "H6", "LI", "BLOCKQUOTE", "PRE",
+]);
+
+const elementMarks = (element: HTMLElement, inherited: Mark[]): Mark[] => {
+  const marks = new Set(inherited);
+  const tag = element.tagName;
+  const style = element.style;
+
+  if (BOLD_TAGS.has(tag)) marks.add("bold");
+  if (ITALIC_TAGS.has(tag)) marks.add("italic");
+  if (UNDERLINE_TAGS.has(tag)) marks.add("underline");
+
+  // execCommand with styleWithCSS and pasted content use inline styles
+  if (style) {
+    const weight = style.fontWeight;
+    if (weight === "bold" || weight === "bolder" || Number(weight) >= 600) {
+      marks.add("bold");
+    } else if (weight === "normal" || (weight && Number(weight) < 600)) {
+      marks.delete("bold");
+    }
+    if (style.fontStyle === "italic") marks.add("italic");
+    if (style.fontStyle === "normal") marks.delete("italic");
+    if (style.textDecoration?.includes("underline") || style.textDecorationLine?.includes("underline")) {
+      marks.add("underline");
+    }
+  }
+
+  return sortMarks(marks);
+};
+
+const collectRuns = (node: Node, marks: Mark[], runs: TextRun[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || "").replace(/\n/g, " ");
+    if (text) runs.push({ text, marks });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+  const element = node as HTMLElement;
+  // <br> is only a caret placeholder in empty blocks
+  if (element.tagName === "BR") return;
+
+  const childMarks = elementMarks(element, marks);
+  element.childNodes.forEach(child => collectRuns(child, childMarks, runs));
+};
+
+const blockFromElement = (element: HTMLElement): Omit<Block, "children"> => {
+  const tag = element.tagName;
+  if (/^H[1-6]$/.test(tag)) {
+    return { type: "heading", level: Math.min(3, Number(tag.slice(1))) };
+  }
+  if (tag === "LI") {
+    return { type: "list_item", ordered: element.parentElement?.tagName === "OL" };
+  }
+  if (element.dataset?.block === "list_item") {
+    return { type: "list_item", ordered: element.dataset.ordered === "true" };
+  }
+  return { type: "paragraph" };
+};
+
+const hasBlockChildren = (element: Element) =>
+  Array.from(element.children).some(
+    child => BLOCK_TAGS.has(child.tagName) || child.tagName === "UL" || child.tagName === "OL"
+  );
+
+// An element whose children are blocks (lists, wrapper divs) rather than a
+// block itself.
+export const isBlockContainer = (element: Element) =>
+  element.tagName === "UL" ||
+  element.tagName === "OL" ||
+  (BLOCK_TAGS.has(element.tagName) && hasBlockChildren(element));
+
+export const isBlockElement = (element: Element) =>
+  BLOCK_TAGS.has(element.tagName) && !isBlockContainer(element);
+
+// Whitespace-only text sitting directly between block elements
+export const isInterBlockWhitespace = (node: Node) =>
+  node.nodeType === Node.TEXT_NODE && !(node.textContent || "").trim();
+
+// Reads the contentEditable DOM (or any HTML fragment) back into the model.
+// Top-level inline content that the browser leaves outside a block element
+// is gathered into paragraphs.
+export const parseHtml = (root: ParentNode): RichDocument => {
+  const blocks: Block[] = [];
+  let pending: TextRun[] | null = null;
+
+  const flushPending = () => {
+    if (pending) {
+      blocks.push({ type: "paragraph", children: pending });
+      pending = null;
+    }
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as HTMLElement;
+
+      if (isBlockContainer(element)) {
+        flushPending();
+        element.childNodes.forEach(visit);
+        return;
+      }
+
+      if (isBlockElement(element)) {
+        flushPending();
+        const children: TextRun[] = [];
+        collectRuns(element, elementMarks(element, []), children);
+        blocks.push({ ...blockFromElement(element), children });
+        return;
+      }
+    }
+
+    if (!pending && isInterBlockWhitespace(node)) {
+      // Whitespace between block elements (e.g. from imported HTML)
+      return;
+    }
+
+    pending = pending || [];
+    collectRuns(node, [], pending);
+  };
+
+  root.childNodes.forEach(visit);
+  flushPending();
+
+  return normalizeDocument({ version: 1, blocks });
+};
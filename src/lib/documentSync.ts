@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  RichDocument,
+  normalizeDocument,
+  parseDocumentJson,
+  serializeDocument,
+  toPlainText,
+} from "@/lib/documentModel";
+
+export type DocumentRow = Tables<"documents">;
+
+export type SaveResult =
+  | { status: "saved"; revision: number; updatedAt: string }
+  // Someone else saved since `revision`; `remote` is what they saved
+  | { status: "conflict"; remote: DocumentRow };
+
+// Writes the document only if it is still at `revision`. The database bumps
+// the revision (and updated_at) on every change. Row level security decides
+// who may write (the owner and editors).
+export const saveDocument = async (
+  documentId: string,
+  revision: number,
+  document: RichDocument,
+  title: string
+): Promise<SaveResult> => {
+  const { data, error } = await supabase
+    .from("documents")
+    .update({
+      content: toPlainText(document),
+      body: serializeDocument(document),
+      title,
+    })
+    .eq("id", documentId)
+    .eq("revision", revision)
+    .select("revision, updated_at");
+
+  if (error) throw error;
+  if (data && data.length > 0) {
+    return { status: "saved", revision: data[0].revision, updatedAt: data[0].updated_at };
+  }
+
+  const { data: remote, error: fetchError } = await supabase
+    .from("documents")
+    .select("*")
+    .eq("id", documentId)
+    .single();
+
+  if (fetchError) throw fetchError;
+  return { status: "conflict", remote };
+};
+
+// Whether a stored document has the same content and formatting as `document`
+export const isSameDocument = (row: DocumentRow, document: RichDocument) =>
+  JSON.stringify(parseDocumentJson(row.body, row.content)) === JSON.stringify(normalizeDocument(document));
@@ -0,0 +1,138 @@
+import {
+  BLOCK_SEPARATOR,
+  isBlockContainer,
+  isBlockElement,
+  isInterBlockWhitespace,
+} from "@/lib/documentModel";
+
+// Converts between DOM selection points inside the contentEditable surface and
+// offsets into the document's plain-text projection. Blocks are grouped the
+// same way `parseHtml` groups them, so offsets line up with `toPlainText`.
+
+const collectTextNodes = (node: Node, nodes: Text[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    nodes.push(node as Text);
+    return;
+  }
+  node.childNodes.forEach(child => collectTextNodes(child, nodes));
+};
+
+interface SurfaceBlock {
+  // Null for loose inline content the browser left outside a block element
+  element: HTMLElement | null;
+  nodes: Text[];
+}
+
+export const getSurfaceBlocks = (root: HTMLElement): SurfaceBlock[] => {
+  const blocks: SurfaceBlock[] = [];
+  let pending: Text[] | null = null;
+
+  const flushPending = () => {
+    if (pending) {
+      blocks.push({ element: null, nodes: pending });
+      pending = null;
+    }
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as HTMLElement;
+      if (isBlockContainer(element)) {
+        flushPending();
+        element.childNodes.forEach(visit);
+        return;
+      }
+      if (isBlockElement(element)) {
+        flushPending();
+        const nodes: Text[] = [];
+        collectTextNodes(element, nodes);
+        blocks.push({ element, nodes });
+        return;
+      }
+    }
+
+    if (!pending && isInterBlockWhitespace(node)) return;
+
+    pending = pending || [];
+    collectTextNodes(node, pending);
+  };
+
+  root.childNodes.forEach(visit);
+  flushPending();
+
+  return blocks;
+};
+
+const pointToOffset = (root: HTMLElement, container: Node, pointOffset: number) => {
+  const point = document.createRange();
+  point.setStart(container, pointOffset);
+  point.collapse(true);
+
+  let position = 0;
+  for (const block of getSurfaceBlocks(root)) {
+    let local = 0;
+    for (const node of block.nodes) {
+      if (node === container) return position + local + pointOffset;
+      // The point sits before this text node
+      if (point.comparePoint(node, 0) > 0) return position + local;
+      local += node.length;
+    }
+    if (block.element?.contains(container)) return position + local;
+    position += local + BLOCK_SEPARATOR.length;
+  }
+  return Math.max(0, position - BLOCK_SEPARATOR.length);
+};
+
+export const getSelectionOffsets = (root: HTMLElement) => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) {
+    return null;
+  }
+
+  return {
+    start: pointToOffset(root, range.startContainer, range.startOffset),
+    end: pointToOffset(root, range.endContainer, range.endOffset),
+  };
+};
+
+// Resolves a plain-text offset to a DOM point, preferring the end of a text
+// node over the start of the next one so the caret keeps the left formatting.
+export const offsetToPoint = (root: HTMLElement, offset: number) => {
+  let position = 0;
+
+  for (const block of getSurfaceBlocks(root)) {
+    const blockLength = block.nodes.reduce((sum, node) => sum + node.length, 0);
+
+    if (offset <= position + blockLength) {
+      let local = offset - position;
+      for (const node of block.nodes) {
+        if (local <= node.length) return { node: node as Node, offset: local };
+        local -= node.length;
+      }
+      // Empty block: place the caret inside the block element itself
+      return { node: (block.element || root) as Node, offset: 0 };
+    }
+
+    position += blockLength + BLOCK_SEPARATOR.length;
+  }
+
+  return { node: root as Node, offset: root.childNodes.length };
+};
+
+export const setSelectionOffsets = (root: HTMLElement, start: number, end = start) => {
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const startPoint = offsetToPoint(root, start);
+  const endPoint = end === start ? startPoint : offsetToPoint(root, end);
+
+  const range = document.createRange();
+  range.setStart(startPoint.node, startPoint.offset);
+  range.setEnd(endPoint.node, endPoint.offset);
+
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
@@ -0,0 +1,3 @@
+// The rule engine is shared with the check-text edge function, which runs it
+// as a pre-pass before the model
+export * from "../../supabase/functions/_shared/grammarRules";
@@ -0,0 +1,31 @@
+import { BLOCK_SEPARATOR } from "@/lib/documentModel";
+
+// A paragraph of the document's plain text and where it starts in it
+export interface Paragraph {
+  text: string;
+  start: number;
+  hash: string;
+}
+
+// FNV-1a, plus the length to make collisions between paragraphs of different
+// sizes impossible. Only used as a cache key, not for anything security related.
+export const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${text.length}`;
+};
+
+export const splitParagraphs = (text: string): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  let start = 0;
+
+  for (const line of text.split(BLOCK_SEPARATOR)) {
+    paragraphs.push({ text: line, start, hash: hashText(line) });
+    start += line.length + BLOCK_SEPARATOR.length;
+  }
+
+  return paragraphs;
+};
@@ -0,0 +1,25 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { WritingGoals } from "@/lib/writingGoals";
+
+export interface SentenceRewrite {
+  text: string;
+  explanation: string;
+}
+
+// Asks the checker for an easier version of one sentence. Null when it has
+// none, e.g. with the offline checker.
+export const fetchSentenceRewrite = async (sentence: string, goals?: WritingGoals): Promise<SentenceRewrite | null> => {
+  const { data, error } = await supabase.functions.invoke("check-text", {
+    body: { text: sentence, mode: "rewrite", includeRules: false, goals },
+  });
+
+  if (error) throw error;
+  const suggestion = Array.isArray(data) ? data[0] : null;
+  if (!suggestion || typeof suggestion.correction !== "string" || !suggestion.position) return null;
+
+  // Positions are relative to the sentence, and usually cover all of it
+  const { start, end } = suggestion.position;
+  const text = sentence.slice(0, start) + suggestion.correction + sentence.slice(end);
+  if (text.trim() === sentence.trim()) return null;
+  return { text, explanation: suggestion.explanation || "" };
+};
@@ -0,0 +1,102 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { RichDocument, parseDocumentJson } from "@/lib/documentModel";
+import { PendingChange, TrackedChangeKind, withoutTrackedChanges } from "@/lib/trackedChanges";
+
+// Password hashes are kept in a table the client can't read
+export type ShareLink = Tables<"document_share_links">;
+
+const SHARE_LINK_COLUMNS =
+  "id, document_id, user_id, token, has_password, expires_at, revoked_at, view_count, last_viewed_at, created_at";
+
+export const SHARE_LINK_EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "Expires in 1 day", days: 1 },
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+];
+
+export const shareLinkUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export const isShareLinkActive = (link: ShareLink) =>
+  !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date());
+
+export const fetchShareLinks = async (documentId: string): Promise<ShareLink[]> => {
+  const { data, error } = await supabase
+    .from("document_share_links")
+    .select(SHARE_LINK_COLUMNS)
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Returns the new link's token
+export const createShareLink = async (
+  documentId: string,
+  password: string | null,
+  expiresInDays: number | null
+): Promise<string> => {
+  const { data, error } = await supabase.rpc("create_share_link", {
+    doc_id: documentId,
+    link_password: password || undefined,
+    link_expires_at: expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const revokeShareLink = async (linkId: string) => {
+  const { error } = await supabase
+    .from("document_share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", linkId);
+
+  if (error) throw error;
+};
+
+export type SharedDocumentResult =
+  | { status: "ok"; title: string; document: RichDocument; updatedAt: string }
+  | { status: "not_found" | "expired" | "password_required" | "wrong_password" | "too_many_attempts" };
+
+interface SharedTrackedChangeRow {
+  kind: string;
+  text: string;
+  position_start: number;
+  position_end: number;
+}
+
+const fromSharedRow = (row: SharedTrackedChangeRow): PendingChange => ({
+  kind: row.kind as TrackedChangeKind,
+  text: row.text,
+  position: { start: row.position_start, end: row.position_end },
+});
+
+// Opens a share link without signing in
+export const fetchSharedDocument = async (
+  token: string,
+  password: string | null = null
+): Promise<SharedDocumentResult> => {
+  const { data, error } = await supabase.rpc("get_shared_document", {
+    share_token: token,
+    link_password: password || undefined,
+  });
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return { status: "not_found" };
+  if (row.status !== "ok") return { status: row.status as Exclude<SharedDocumentResult["status"], "ok"> };
+
+  // Readers only see reviewed text, so pending changes are rejected
+  const changes = (row.tracked_changes as unknown as SharedTrackedChangeRow[] | null) || [];
+  return {
+    status: "ok",
+    title: row.title,
+    document: withoutTrackedChanges(parseDocumentJson(row.body, row.content), changes.map(fromSharedRow)).document,
+    updatedAt: row.updated_at,
+  };
+};
@@ -0,0 +1,121 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Suggestion } from "@/hooks/useGrammarCheck";
+import { hashText } from "@/lib/paragraphs";
+import type { DismissReason } from "@/lib/suppressions";
+
+// Suggestions are stored per document. Open ones are tagged with the hash of
+// the text their positions refer to and are only reused for that exact text;
+// accepted and dismissed ones are kept by key so they never come back.
+
+export type SuggestionStatus = "open" | "accepted" | "dismissed";
+
+export interface StoredSuggestions {
+  // Open suggestions for the given text, or null if none were stored for it
+  open: Suggestion[] | null;
+  // Keys of suggestions the user already accepted or dismissed
+  closedKeys: string[];
+}
+
+const toRow = (
+  documentId: string,
+  userId: string,
+  text: string,
+  suggestion: Suggestion,
+  status: SuggestionStatus,
+  dismissReason: DismissReason | null = null
+) => ({
+  document_id: documentId,
+  user_id: userId,
+  suggestion_key: suggestion.id,
+  content_hash: hashText(text),
+  status,
+  dismiss_reason: dismissReason,
+  type: suggestion.type,
+  error_type: suggestion.ruleId || suggestion.type,
+  original: suggestion.original,
+  correction: suggestion.correction,
+  explanation: suggestion.explanation,
+  position_start: suggestion.position.start,
+  position_end: suggestion.position.end,
+  updated_at: new Date().toISOString(),
+});
+
+export const fetchStoredSuggestions = async (
+  documentId: string,
+  text: string
+): Promise<StoredSuggestions> => {
+  const { data, error } = await supabase
+    .from("suggestions")
+    .select("*")
+    .eq("document_id", documentId)
+    .or(`status.neq.open,content_hash.eq.${hashText(text)}`);
+
+  if (error) throw error;
+
+  const openRows = data.filter((row) => row.status === "open" && row.suggestion_key);
+  const closedKeys = data
+    .filter((row) => row.status !== "open" && row.suggestion_key)
+    .map((row) => row.suggestion_key as string);
+
+  return {
+    open: openRows.length > 0
+      ? openRows
+        .map((row) => ({
+          id: row.suggestion_key as string,
+          type: row.type as Suggestion["type"],
+          position: { start: row.position_start, end: row.position_end },
+          original: row.original,
+          correction: row.correction,
+          explanation: row.explanation,
+        }))
+        .sort((a, b) => a.position.start - b.position.start)
+      : null,
+    closedKeys,
+  };
+};
+
+// Replaces the document's open suggestions with the results for `text`
+export const replaceOpenSuggestions = async (
+  documentId: string,
+  userId: string,
+  text: string,
+  suggestions: Suggestion[]
+) => {
+  const { error: deleteError } = await supabase
+    .from("suggestions")
+    .delete()
+    .eq("document_id", documentId)
+    .eq("status", "open");
+
+  if (deleteError) throw deleteError;
+  if (suggestions.length === 0) return;
+
+  const { error } = await supabase
+    .from("suggestions")
+    .upsert(
+      suggestions.map((suggestion) => toRow(documentId, userId, text, suggestion, "open")),
+      { onConflict: "document_id,user_id,suggestion_key", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+export const updateSuggestionStatus = async (
+  documentId: string,
+  userId: string,
+  text: string,
+  suggestions: Suggestion[],
+  status: SuggestionStatus,
+  dismissReason: DismissReason | null = null
+) => {
+  if (suggestions.length === 0) return;
+
+  const { error } = await supabase
+    .from("suggestions")
+    .upsert(
+      suggestions.map((suggestion) => toRow(documentId, userId, text, suggestion, status, dismissReason)),
+      { onConflict: "document_id,user_id,suggestion_key" }
+    );
+
+  if (error) throw error;
+};
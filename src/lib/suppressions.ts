@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Suggestion } from "@/hooks/useGrammarCheck";
+
+export type DismissReason = "incorrect" | "not_my_style" | "intentional";
+
+export const DISMISS_REASONS: { value: DismissReason; label: string }[] = [
+  { value: "incorrect", label: "Incorrect" },
+  { value: "not_my_style", label: "Not my style" },
+  { value: "intentional", label: "Intentional" },
+];
+
+export const dismissReasonLabel = (reason: string) =>
+  DISMISS_REASONS.find((option) => option.value === reason)?.label || reason;
+
+export type Suppression = Tables<"suggestion_suppressions"> & {
+  // Title of the document a per-document suppression belongs to
+  documents?: { title: string } | null;
+};
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Identifies "the same suggestion" across checks, positions and documents
+export const suggestionFingerprint = (suggestion: Pick<Suggestion, "type" | "original" | "correction">) =>
+  [suggestion.type, normalize(suggestion.original), normalize(suggestion.correction)].join("|");
+
+// Suppressions that apply to a document: the user's global ones and the
+// document's own. Without a document, every suppression of the user.
+export const fetchSuppressions = async (documentId?: string): Promise<Suppression[]> => {
+  let query = supabase
+    .from("suggestion_suppressions")
+    .select("*, documents(title)")
+    .order("created_at", { ascending: false });
+
+  if (documentId) {
+    query = query.or(`document_id.is.null,document_id.eq.${documentId}`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const createSuppression = async (
+  userId: string,
+  suggestion: Suggestion,
+  reason: DismissReason,
+  documentId: string | null
+): Promise<Suppression> => {
+  const { data, error } = await supabase
+    .from("suggestion_suppressions")
+    .upsert(
+      {
+        user_id: userId,
+        document_id: documentId,
+        fingerprint: suggestionFingerprint(suggestion),
+        type: suggestion.type,
+        original: suggestion.original,
+        correction: suggestion.correction,
+        reason,
+      },
+      { onConflict: "user_id,document_id,fingerprint" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteSuppression = async (id: string) => {
+  const { error } = await supabase
+    .from("suggestion_suppressions")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+};
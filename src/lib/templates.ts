@@ -0,0 +1,231 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  Block,
+  RichDocument,
+  parseDocumentJson,
+  replaceRange,
+  serializeDocument,
+  toPlainText,
+} from "@/lib/documentModel";
+import { WritingGoals, parseWritingGoals, serializeWritingGoals } from "@/lib/writingGoals";
+
+// Starting points for new documents: the built-in library below plus
+// templates users saved from their own documents (`document_templates`).
+// Placeholders are written as {{Name}} anywhere in the title or text and
+// are asked for when a document is created from the template.
+
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string;
+  title: string;
+  body: RichDocument;
+  goals?: WritingGoals;
+  // Built-in templates can't be deleted
+  builtIn: boolean;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const heading = (text: string, level = 1): Block => ({
+  type: "heading",
+  level,
+  children: text ? [{ text, marks: [] }] : [],
+});
+
+const paragraph = (text = ""): Block => ({
+  type: "paragraph",
+  children: text ? [{ text, marks: [] }] : [],
+});
+
+const listItem = (text: string, ordered = false): Block => ({
+  type: "list_item",
+  ordered,
+  children: text ? [{ text, marks: [] }] : [],
+});
+
+const blocks = (...items: Block[]): RichDocument => ({ version: 1, blocks: items });
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: "builtin:cover-letter",
+    name: "Cover letter",
+    description: "A one-page letter introducing you for a role",
+    title: "Cover letter for {{Company}}",
+    body: blocks(
+      paragraph("Dear {{Hiring manager}},"),
+      paragraph(),
+      paragraph("I am writing to apply for the {{Role}} position at {{Company}}."),
+      paragraph("In my current role I ..."),
+      paragraph("I would welcome the chance to discuss how I can help {{Company}} ..."),
+      paragraph(),
+      paragraph("Sincerely,"),
+      paragraph("{{Your name}}"),
+    ),
+    goals: { audience: "knowledgeable", formality: "formal", domain: "business", intent: "convince" },
+    builtIn: true,
+  },
+  {
+    id: "builtin:blog-post",
+    name: "Blog post",
+    description: "An article with an introduction, sections and a takeaway",
+    title: "{{Post title}}",
+    body: blocks(
+      heading("{{Post title}}"),
+      paragraph("Open with the problem or question this post answers."),
+      heading("{{First section}}", 2),
+      paragraph(),
+      heading("{{Second section}}", 2),
+      paragraph(),
+      heading("Wrapping up", 2),
+      paragraph("Leave readers with one clear takeaway."),
+    ),
+    goals: { audience: "general", formality: "informal", domain: "casual", intent: "inform" },
+    builtIn: true,
+  },
+  {
+    id: "builtin:meeting-notes",
+    name: "Meeting notes",
+    description: "Attendees, agenda, decisions and action items",
+    title: "{{Meeting}} notes, {{Date}}",
+    body: blocks(
+      heading("{{Meeting}}"),
+      paragraph("Date: {{Date}}"),
+      paragraph("Attendees: {{Attendees}}"),
+      heading("Agenda", 2),
+      listItem("", true),
+      heading("Decisions", 2),
+      listItem(""),
+      heading("Action items", 2),
+      listItem("Owner: task (due date)"),
+    ),
+    goals: { audience: "knowledgeable", formality: "neutral", domain: "business", intent: "inform" },
+    builtIn: true,
+  },
+  {
+    id: "builtin:prd",
+    name: "Product requirements",
+    description: "Problem, goals, requirements and open questions for a feature",
+    title: "PRD: {{Feature}}",
+    body: blocks(
+      heading("{{Feature}}"),
+      paragraph("Owner: {{Owner}}"),
+      heading("Problem", 2),
+      paragraph("Who has this problem and why it matters now."),
+      heading("Goals", 2),
+      listItem(""),
+      heading("Non-goals", 2),
+      listItem(""),
+      heading("Requirements", 2),
+      listItem("", true),
+      heading("Success metrics", 2),
+      listItem(""),
+      heading("Open questions", 2),
+      listItem(""),
+    ),
+    goals: { audience: "knowledgeable", formality: "neutral", domain: "technical", intent: "describe" },
+    builtIn: true,
+  },
+  {
+    id: "builtin:academic-abstract",
+    name: "Academic abstract",
+    description: "Background, methods, results and conclusion in one paragraph each",
+    title: "{{Paper title}}",
+    body: blocks(
+      heading("{{Paper title}}"),
+      paragraph("{{Authors}}"),
+      heading("Background", 2),
+      paragraph(),
+      heading("Methods", 2),
+      paragraph(),
+      heading("Results", 2),
+      paragraph(),
+      heading("Conclusion", 2),
+      paragraph(),
+      paragraph("Keywords: {{Keywords}}"),
+    ),
+    goals: { audience: "expert", formality: "formal", domain: "academic", intent: "inform" },
+    builtIn: true,
+  },
+];
+
+// Placeholder names in the order they first appear, title first
+export const findPlaceholders = (template: Pick<DocumentTemplate, "title" | "body">): string[] => {
+  const names = new Set<string>();
+  for (const text of [template.title, toPlainText(template.body)]) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) names.add(match[1]);
+  }
+  return [...names];
+};
+
+// Placeholders without a value are left in place, so they're easy to find
+const fillText = (text: string, values: Record<string, string>) =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+// The title and text of a new document made from the template. Filled-in
+// values take the formatting of their placeholder.
+export const fillTemplate = (template: DocumentTemplate, values: Record<string, string>) => {
+  let body = template.body;
+  const matches = [...toPlainText(body).matchAll(PLACEHOLDER_PATTERN)];
+  // Backwards, so earlier offsets stay valid
+  for (const match of matches.reverse()) {
+    const value = fillText(match[0], values);
+    if (value !== match[0]) body = replaceRange(body, match.index!, match.index! + match[0].length, value);
+  }
+  return {
+    title: fillText(template.title, values).trim() || "Untitled Document",
+    body,
+  };
+};
+
+const toTemplate = (row: Tables<"document_templates">): DocumentTemplate => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  title: row.title,
+  body: parseDocumentJson(row.body, row.content),
+  goals: parseWritingGoals(row.goals),
+  builtIn: false,
+});
+
+export const fetchUserTemplates = async (): Promise<DocumentTemplate[]> => {
+  const { data, error } = await supabase
+    .from("document_templates")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toTemplate);
+};
+
+export const saveTemplate = async (
+  userId: string,
+  template: { name: string; description: string; title: string; body: RichDocument; goals?: WritingGoals }
+): Promise<DocumentTemplate> => {
+  const { data, error } = await supabase
+    .from("document_templates")
+    .insert({
+      user_id: userId,
+      name: template.name.trim(),
+      description: template.description.trim(),
+      title: template.title,
+      content: toPlainText(template.body),
+      body: serializeDocument(template.body),
+      goals: serializeWritingGoals(template.goals),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toTemplate(data);
+};
+
+export const deleteTemplate = async (templateId: string) => {
+  const { error } = await supabase
+    .from("document_templates")
+    .delete()
+    .eq("id", templateId);
+
+  if (error) throw error;
+};
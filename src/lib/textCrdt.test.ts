@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { fromPlainText, toPlainText } from "@/lib/documentModel";
+import { createTextCrdt } from "@/lib/textCrdt";
+
+describe("textCrdt", () => {
+  it("types and deletes around emoji", () => {
+    let shown = fromPlainText("Hi 👋 there");
+    const alice = createTextCrdt("alice", shown, "init-1");
+    const bob = createTextCrdt("bob", shown, "init-1");
+
+    const edit = (text: string) => {
+      const next = fromPlainText(text);
+      bob.applyRemoteOps(alice.applyLocalChange(shown, next));
+      shown = next;
+    };
+
+    edit("Hi 👋! there");
+    edit("Hi 👋!🎉 there");
+    edit("Hi !🎉 there");
+    edit("Hi !🎉 here");
+    edit("Hi !😀 here");
+
+    expect(toPlainText(alice.snapshot())).toBe("Hi !😀 here");
+    expect(toPlainText(bob.snapshot())).toBe("Hi !😀 here");
+  });
+
+  it("anchors offsets after emoji in UTF-16 code units", () => {
+    const doc = fromPlainText("🎉 ok");
+    const crdt = createTextCrdt("alice", doc, "init-1");
+    crdt.snapshot();
+
+    expect(crdt.offsetOf(crdt.anchorAt(3))).toBe(3);
+    expect(crdt.offsetOf(crdt.anchorAt(5))).toBe(5);
+  });
+
+  it("keeps text typed one key at a time in one run", () => {
+    let shown = fromPlainText("");
+    const alice = createTextCrdt("alice", shown, "init-1");
+    alice.snapshot();
+
+    let text = "";
+    for (let index = 0; index < 2000; index++) {
+      text += "ab"[index % 2];
+      const next = fromPlainText(text);
+      alice.applyLocalChange(shown, next);
+      shown = next;
+    }
+
+    expect(alice.getState().runs).toHaveLength(1);
+  });
+
+  it("drops tombstones once every replica has caught up", () => {
+    let shown = fromPlainText("one two three");
+    const alice = createTextCrdt("alice", shown, "init-1");
+    const bob = createTextCrdt("bob", shown, "init-1");
+    alice.snapshot();
+    bob.snapshot();
+
+    const next = fromPlainText("one three");
+    bob.applyRemoteOps(alice.applyLocalChange(shown, next));
+    shown = next;
+    const tombstones = () => alice.getState().runs.filter(run => run.deleted).length;
+
+    alice.compact([bob.getVersion()]);
+    expect(tombstones()).toBe(1);
+
+    bob.snapshot();
+    alice.compact([bob.getVersion()]);
+    expect(tombstones()).toBe(0);
+
+    // Edits next to the compacted text still land in the same place
+    const bobShown = fromPlainText("one 3 three");
+    alice.applyRemoteOps(bob.applyLocalChange(shown, bobShown));
+    expect(toPlainText(alice.snapshot())).toBe("one 3 three");
+
+    // So does a session that joins later from the same saved revision
+    const carol = createTextCrdt("carol", fromPlainText("one two three"), "init-1");
+    carol.mergeState(alice.getState(), false);
+    expect(toPlainText(carol.snapshot())).toBe("one 3 three");
+  });
+});
@@ -0,0 +1,533 @@
+import {
+  BLOCK_SEPARATOR,
+  Block,
+  BlockType,
+  Mark,
+  RichDocument,
+  normalizeDocument,
+  toPlainText,
+} from "@/lib/documentModel";
+import { diffText } from "@/lib/textEdits";
+
+// Replicated document for real-time collaboration. Every character (block
+// separators included) gets a unique id and remembers the character it was
+// typed after, so concurrent inserts and deletes from different sessions
+// converge without a server deciding the order (an RGA sequence CRDT).
+// Marks and block attributes are last-writer-wins registers per character.
+// "Character" means UTF-16 code unit, like the editor's and diffText's
+// offsets; an emoji is two characters.
+//
+// Deleted characters stay as tombstones while another replica may still
+// refer to them, and are dropped once every session has caught up (see
+// `compact`).
+
+// "<counter>@<site>"; counters are Lamport clocks, so a character's id is
+// always greater than the id of anything its author had seen
+export type CharId = string;
+
+export interface BlockAttrs {
+  type: BlockType;
+  level?: number;
+  ordered?: boolean;
+}
+
+interface Stamp {
+  clock: number;
+  site: string;
+}
+
+interface CrdtChar {
+  id: CharId;
+  // Character this one was inserted after; null for the start of the text
+  origin: CharId | null;
+  value: string;
+  deleted: boolean;
+  marks: Mark[];
+  marksStamp: Stamp;
+  // Block separators carry the attributes of the block that follows them
+  block?: BlockAttrs;
+  blockStamp?: Stamp;
+}
+
+export type CrdtOp =
+  | {
+      type: "insert";
+      id: CharId;
+      origin: CharId | null;
+      value: string;
+      marks: Mark[];
+      block?: BlockAttrs;
+      stamp: Stamp;
+    }
+  | { type: "delete"; id: CharId; stamp: Stamp }
+  | { type: "marks"; id: CharId; marks: Mark[]; stamp: Stamp }
+  // `id` null targets the first block, which has no separator before it
+  | { type: "block"; id: CharId | null; block: BlockAttrs; stamp: Stamp };
+
+// Characters typed one after another by the same session, stored together.
+// The first one has `id`; the rest follow with consecutive counters.
+interface CrdtRun extends Omit<CrdtChar, "value"> {
+  text: string;
+}
+
+// The highest counter seen from each site. Ops from one site arrive in
+// order, so this covers every op from that site up to the counter.
+export type CrdtVersion = Record<string, number>;
+
+// Full replica, sent to sessions that join late
+export interface CrdtState {
+  initSite: string;
+  runs: CrdtRun[];
+  firstBlock: BlockAttrs;
+  firstBlockStamp: Stamp;
+  version: CrdtVersion;
+}
+
+const parseId = (id: CharId) => {
+  const at = id.indexOf("@");
+  return { counter: Number(id.slice(0, at)), site: id.slice(at + 1) };
+};
+
+const compareIds = (a: CharId, b: CharId) => {
+  const left = parseId(a);
+  const right = parseId(b);
+  if (left.counter !== right.counter) return left.counter - right.counter;
+  return left.site < right.site ? -1 : left.site > right.site ? 1 : 0;
+};
+
+const compareStamps = (a: Stamp, b: Stamp) =>
+  a.clock !== b.clock ? a.clock - b.clock : a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+
+// Formatting given when typing never competes with a marks op, which can
+// only target characters that already exist, so inserts carry the lowest
+// stamp. That keeps text typed with the same marks in one run.
+const insertStamp = (site: string): Stamp => ({ clock: 0, site });
+
+const blockAttrs = (block: Block): BlockAttrs => {
+  const attrs: BlockAttrs = { type: block.type };
+  if (block.level !== undefined) attrs.level = block.level;
+  if (block.ordered !== undefined) attrs.ordered = block.ordered;
+  return attrs;
+};
+
+const sameAttrs = (a: BlockAttrs, b: BlockAttrs) =>
+  a.type === b.type && a.level === b.level && a.ordered === b.ordered;
+
+const sameMarks = (a: Mark[], b: Mark[]) =>
+  a.length === b.length && a.every(mark => b.includes(mark));
+
+// Characters of a document in order, with the marks of text characters and
+// the attributes of the block each separator opens
+const documentChars = (doc: RichDocument) => {
+  const chars: { value: string; marks: Mark[]; block?: BlockAttrs }[] = [];
+  doc.blocks.forEach((block, index) => {
+    if (index > 0) chars.push({ value: BLOCK_SEPARATOR, marks: [], block: blockAttrs(block) });
+    for (const run of block.children) {
+      for (let i = 0; i < run.text.length; i++) {
+        chars.push({ value: run.text[i], marks: run.marks });
+      }
+    }
+  });
+  return chars;
+};
+
+const toRuns = (chars: CrdtChar[]) => {
+  const runs: CrdtRun[] = [];
+  let previous: CrdtChar | null = null;
+  for (const char of chars) {
+    const run = runs[runs.length - 1];
+    const { counter, site } = parseId(char.id);
+    const continues =
+      run &&
+      !run.block &&
+      !char.block &&
+      previous.id === char.origin &&
+      parseId(previous.id).site === site &&
+      parseId(previous.id).counter + 1 === counter &&
+      run.deleted === char.deleted &&
+      sameMarks(run.marks, char.marks) &&
+      compareStamps(run.marksStamp, char.marksStamp) === 0;
+
+    if (continues) {
+      run.text += char.value;
+    } else {
+      const { value, ...rest } = char;
+      runs.push({ ...rest, text: value });
+    }
+    previous = char;
+  }
+  return runs;
+};
+
+const fromRuns = (runs: CrdtRun[]) => {
+  const chars: CrdtChar[] = [];
+  for (const { text, ...run } of runs) {
+    const { counter, site } = parseId(run.id);
+    let origin = run.origin;
+    text.split("").forEach((value, index) => {
+      const id = `${counter + index}@${site}`;
+      chars.push({ ...run, id, origin, value });
+      origin = id;
+    });
+  }
+  return chars;
+};
+
+export const createTextCrdt = (site: string, initialDocument: RichDocument, initialSite: string) => {
+  let initSite = initialSite;
+  let chars: CrdtChar[] = [];
+  const byId = new Map<CharId, CrdtChar>();
+  let firstBlock: BlockAttrs = blockAttrs(initialDocument.blocks[0]);
+  let firstBlockStamp: Stamp = { clock: 0, site: initSite };
+  let clock = 0;
+  let version: CrdtVersion = {};
+  // What this replica had seen when the editor last caught up with it
+  let viewVersion: CrdtVersion = {};
+  // Ops that arrived before the characters they refer to
+  let pending: CrdtOp[] = [];
+  // Ids of the characters the editor is showing, in order. Remote changes
+  // only reach the editor through `snapshot`, so local edits are always
+  // described against this, never against the live replica. Null after the
+  // replica was replaced, until the editor has caught up.
+  let view: CharId[] | null = null;
+
+  const observe = (counter: number) => {
+    clock = Math.max(clock, counter);
+  };
+
+  const nextStamp = (): Stamp => ({ clock: ++clock, site });
+
+  // The site and counter an op was sent with
+  const opSource = (op: CrdtOp): Stamp => {
+    if (op.type !== "insert") return op.stamp;
+    const { counter, site: opSite } = parseId(op.id);
+    return { clock: counter, site: opSite };
+  };
+
+  const see = ({ site: opSite, clock: counter }: Stamp) => {
+    version[opSite] = Math.max(version[opSite] ?? 0, counter);
+  };
+
+  // `version`, less anything from a site at or after one of its ops that is
+  // still waiting for a character
+  const seenVersion = (): CrdtVersion => {
+    const seen = { ...version };
+    for (const op of pending) {
+      const source = opSource(op);
+      if (source.site in seen) seen[source.site] = Math.min(seen[source.site], source.clock - 1);
+    }
+    return seen;
+  };
+
+  const reset = (state: CrdtState) => {
+    initSite = state.initSite;
+    chars = fromRuns(state.runs);
+    byId.clear();
+    for (const char of chars) {
+      byId.set(char.id, char);
+      observe(parseId(char.id).counter);
+      observe(char.marksStamp.clock);
+      if (char.blockStamp) observe(char.blockStamp.clock);
+    }
+    firstBlock = state.firstBlock;
+    firstBlockStamp = state.firstBlockStamp;
+    observe(firstBlockStamp.clock);
+    version = { ...state.version };
+    pending = [];
+    view = null;
+  };
+
+  // The initial characters get ids derived from `initSite`, so sessions that
+  // loaded the same saved revision start from identical replicas
+  const initialStamp: Stamp = { clock: 0, site: initSite };
+  reset({
+    initSite,
+    firstBlock,
+    firstBlockStamp,
+    version: {},
+    runs: documentChars(initialDocument).map((char, index) => ({
+      id: `${index + 1}@${initSite}`,
+      origin: index > 0 ? `${index}@${initSite}` : null,
+      text: char.value,
+      deleted: false,
+      marks: char.marks,
+      marksStamp: initialStamp,
+      block: char.block,
+      blockStamp: char.block ? initialStamp : undefined,
+    })),
+  });
+  view = chars.map(char => char.id);
+
+  // Places a character after its origin, skipping over characters inserted
+  // concurrently after the same origin that have greater ids. Returns false
+  // when the origin is not known yet.
+  const integrate = (char: CrdtChar) => {
+    if (byId.has(char.id)) return true;
+    // Every replica starts with all of the initial characters, so an unknown
+    // one was deleted and compacted here
+    if (parseId(char.id).site === initSite) return true;
+    let index = 0;
+    if (char.origin !== null) {
+      const origin = byId.get(char.origin);
+      if (!origin) return false;
+      index = chars.indexOf(origin) + 1;
+    }
+    while (index < chars.length && compareIds(chars[index].id, char.id) > 0) index++;
+    chars.splice(index, 0, char);
+    byId.set(char.id, char);
+    observe(parseId(char.id).counter);
+    return true;
+  };
+
+  const applyOp = (op: CrdtOp) => {
+    const applied = applyOpToReplica(op);
+    if (applied) see(opSource(op));
+    return applied;
+  };
+
+  const applyOpToReplica = (op: CrdtOp) => {
+    if (op.type === "insert") {
+      observe(op.stamp.clock);
+      return integrate({
+        id: op.id,
+        origin: op.origin,
+        value: op.value,
+        deleted: false,
+        marks: op.marks,
+        marksStamp: op.stamp,
+        block: op.block,
+        blockStamp: op.block ? op.stamp : undefined,
+      });
+    }
+
+    if (op.type === "block" && op.id === null) {
+      observe(op.stamp.clock);
+      if (compareStamps(op.stamp, firstBlockStamp) > 0) {
+        firstBlock = op.block;
+        firstBlockStamp = op.stamp;
+      }
+      return true;
+    }
+
+    const char = byId.get(op.id);
+    // Initial characters that are gone were compacted, see `integrate`
+    if (!char) return parseId(op.id).site === initSite;
+    if (op.type === "delete") {
+      observe(op.stamp.clock);
+      char.deleted = true;
+    } else if (op.type === "marks") {
+      observe(op.stamp.clock);
+      if (compareStamps(op.stamp, char.marksStamp) > 0) {
+        char.marks = op.marks;
+        char.marksStamp = op.stamp;
+      }
+    } else {
+      observe(op.stamp.clock);
+      if (char.block && compareStamps(op.stamp, char.blockStamp) > 0) {
+        char.block = op.block;
+        char.blockStamp = op.stamp;
+      }
+    }
+    return true;
+  };
+
+  const toDocument = (): RichDocument => {
+    const blocks: Block[] = [{ ...firstBlock, children: [] }];
+    for (const char of chars) {
+      if (char.deleted) continue;
+      if (char.value === BLOCK_SEPARATOR) {
+        blocks.push({ ...(char.block || { type: "paragraph" }), children: [] });
+      } else {
+        blocks[blocks.length - 1].children.push({ text: char.value, marks: char.marks });
+      }
+    }
+    return normalizeDocument({ version: 1, blocks });
+  };
+
+  // The current document, which the editor is about to show
+  const snapshot = () => {
+    view = chars.filter(char => !char.deleted).map(char => char.id);
+    viewVersion = seenVersion();
+    return toDocument();
+  };
+
+  // Turns a local edit from `previous` (what the editor showed) to `next`
+  // into ops, applying them to this replica as well
+  const applyLocalChange = (previous: RichDocument, next: RichDocument): CrdtOp[] => {
+    if (!view) return [];
+    const ops: CrdtOp[] = [];
+    const previousChars = documentChars(previous);
+    const nextChars = documentChars(next);
+    const edit = diffText(toPlainText(previous), toPlainText(next));
+    const inserted = edit ? edit.insertText.length : 0;
+    // Formatting changes made together share a stamp, so they stay in one run
+    let formatStamp: Stamp | null = null;
+    const nextFormatStamp = () => (formatStamp = formatStamp || nextStamp());
+
+    if (edit) {
+      const deleteStamp = edit.deleteCount > 0 ? nextStamp() : null;
+      for (const id of view.slice(edit.start, edit.start + edit.deleteCount)) {
+        ops.push({ type: "delete", id, stamp: deleteStamp });
+      }
+      const insertedIds: CharId[] = [];
+      let origin = edit.start > 0 ? view[edit.start - 1] : null;
+      for (let offset = 0; offset < inserted; offset++) {
+        const source = nextChars[edit.start + offset];
+        const id = `${nextStamp().clock}@${site}`;
+        const stamp = insertStamp(site);
+        ops.push({ type: "insert", id, origin, value: source.value, marks: source.marks, block: source.block, stamp });
+        insertedIds.push(id);
+        origin = id;
+      }
+      view.splice(edit.start, edit.deleteCount, ...insertedIds);
+    }
+
+    // Characters outside the edit line up one to one; compare their formatting
+    const delta = edit ? inserted - edit.deleteCount : 0;
+    nextChars.forEach((target, index) => {
+      if (edit && index >= edit.start && index < edit.start + inserted) return;
+      const source = previousChars[edit && index >= edit.start ? index - delta : index];
+      if (!source) return;
+      if (source.block && target.block && !sameAttrs(source.block, target.block)) {
+        ops.push({ type: "block", id: view[index], block: target.block, stamp: nextFormatStamp() });
+      } else if (!source.block && !sameMarks(source.marks, target.marks)) {
+        ops.push({ type: "marks", id: view[index], marks: target.marks, stamp: nextFormatStamp() });
+      }
+    });
+    const nextFirstBlock = blockAttrs(next.blocks[0]);
+    if (!sameAttrs(blockAttrs(previous.blocks[0]), nextFirstBlock)) {
+      ops.push({ type: "block", id: null, block: nextFirstBlock, stamp: nextFormatStamp() });
+    }
+
+    ops.forEach(applyOp);
+    return ops;
+  };
+
+  const flushPending = () => {
+    let progressed = true;
+    while (pending.length > 0 && progressed) {
+      const queue = pending;
+      pending = queue.filter(op => !applyOp(op));
+      progressed = pending.length < queue.length;
+    }
+  };
+
+  // Applies ops from another session; returns whether the document changed
+  const applyRemoteOps = (ops: CrdtOp[]) => {
+    const before = JSON.stringify(toDocument());
+    pending = [...pending, ...ops];
+    flushPending();
+    return JSON.stringify(toDocument()) !== before;
+  };
+
+  const getState = (): CrdtState => ({
+    initSite,
+    runs: toRuns(chars),
+    firstBlock,
+    firstBlockStamp,
+    version: seenVersion(),
+  });
+
+  // Folds in another replica's state. Replicas that started from a different
+  // saved revision share no characters; theirs replaces ours only when
+  // `adopt` is set. Returns whether the document changed.
+  const mergeState = (state: CrdtState, adopt: boolean) => {
+    const before = JSON.stringify(toDocument());
+    if (state.initSite !== initSite) {
+      if (!adopt) return false;
+      reset(state);
+      return true;
+    }
+
+    const theirs = fromRuns(state.runs);
+    const theirIds = new Set(theirs.map(char => char.id));
+    for (const char of theirs) {
+      const known = byId.get(char.id);
+      if (!known) {
+        integrate(char);
+        continue;
+      }
+      known.deleted = known.deleted || char.deleted;
+      if (compareStamps(char.marksStamp, known.marksStamp) > 0) {
+        known.marks = char.marks;
+        known.marksStamp = char.marksStamp;
+      }
+      if (char.block && compareStamps(char.blockStamp, known.blockStamp) > 0) {
+        known.block = char.block;
+        known.blockStamp = char.blockStamp;
+      }
+    }
+    // Initial characters missing from their state were deleted and compacted
+    for (const char of chars) {
+      if (parseId(char.id).site === initSite && !theirIds.has(char.id)) char.deleted = true;
+    }
+    applyOp({ type: "block", id: null, block: state.firstBlock, stamp: state.firstBlockStamp });
+    for (const [stateSite, counter] of Object.entries(state.version)) see({ site: stateSite, clock: counter });
+    flushPending();
+    return JSON.stringify(toDocument()) !== before;
+  };
+
+  // What this replica has seen, as far as any edit it makes from now on can
+  // tell: the editor may still show characters deleted since it last caught
+  // up, and new text can be typed after them
+  const getVersion = (): CrdtVersion => ({ ...viewVersion, [site]: clock });
+
+  // Drops tombstones once every other replica (`versions`, from getVersion)
+  // has seen everything this one has. Their later inserts then have greater
+  // ids than every character here and never need a tombstone to find their
+  // place.
+  const compact = (versions: (CrdtVersion | undefined)[]) => {
+    if (!view) return;
+    const seen = seenVersion();
+    const caughtUp = versions.every(other =>
+      other && Object.entries(seen).every(([seenSite, counter]) => (other[seenSite] ?? 0) >= counter)
+    );
+    if (!caughtUp) return;
+
+    const shown = new Set(view);
+    chars = chars.filter(char => {
+      if (!char.deleted || shown.has(char.id)) return true;
+      byId.delete(char.id);
+      return false;
+    });
+  };
+
+  // Stable reference to a position in the editor's text: the id of the
+  // character before it (null for the start of the text)
+  const anchorAt = (offset: number): CharId | null => {
+    if (!view || offset <= 0) return null;
+    return view[Math.min(offset, view.length) - 1] ?? null;
+  };
+
+  // Offset of an anchor in the editor's text. Anchors on characters the
+  // editor does not show resolve to the nearest shown character before them.
+  const offsetOf = (anchor: CharId | null) => {
+    if (anchor === null) return 0;
+    const target = byId.get(anchor);
+    if (!view || !target) return null;
+    const shown = new Set(view);
+    let offset = 0;
+    for (const char of chars) {
+      if (shown.has(char.id)) offset++;
+      if (char === target) break;
+    }
+    return offset;
+  };
+
+  return {
+    site,
+    // Replicas started from the same saved revision share this
+    replica: () => initSite,
+    snapshot,
+    applyLocalChange,
+    applyRemoteOps,
+    getState,
+    mergeState,
+    getVersion,
+    compact,
+    anchorAt,
+    offsetOf,
+  };
+};
+
+export type TextCrdt = ReturnType<typeof createTextCrdt>;
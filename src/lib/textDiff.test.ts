@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { diffWords } from "@/lib/textDiff";
+
+describe("textDiff", () => {
+  it("replaces changed lines in one piece when there are too many to compare", () => {
+    const lines = (prefix: string) => Array.from({ length: 3000 }, (_, index) => `${prefix}${index}\n`).join("");
+    const before = `intro\n${lines("a")}outro`;
+    const after = `intro\n${lines("b")}outro`;
+
+    expect(diffWords(before, after)).toEqual([
+      { type: "equal", text: "intro\n" },
+      { type: "delete", text: lines("a") },
+      { type: "insert", text: lines("b") },
+      { type: "equal", text: "outro" },
+    ]);
+  });
+});
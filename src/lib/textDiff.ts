@@ -0,0 +1,98 @@
+// Word-level diff between two versions of a document's plain text
+
+export type DiffOpType = "equal" | "insert" | "delete";
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+// Above this many cells the LCS table gets too big, and the diff falls back
+// to comparing whole lines, then to replacing the changed lines in one piece
+const MAX_LCS_CELLS = 4_000_000;
+
+// Words with their trailing whitespace, so joining tokens gives back the text
+const tokenizeWords = (text: string) => text.match(/\s+|\S+\s*/g) || [];
+
+const tokenizeLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+const pushOp = (ops: DiffOp[], type: DiffOpType, text: string) => {
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else if (text) {
+    ops.push({ type, text });
+  }
+};
+
+// Longest common subsequence diff of two token lists. When the tokens between
+// their common prefix and suffix are too many to compare, they are replaced
+// in one piece if `replaceIfTooBig`, and otherwise there is no diff (null).
+const diffTokens = (before: string[], after: string[], replaceIfTooBig: boolean): DiffOp[] | null => {
+  const ops: DiffOp[] = [];
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  pushOp(ops, "equal", before.slice(0, prefix).join(""));
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    if (!replaceIfTooBig) return null;
+    pushOp(ops, "delete", a.join(""));
+    pushOp(ops, "insert", b.join(""));
+    pushOp(ops, "equal", before.slice(before.length - suffix).join(""));
+    return ops;
+  }
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushOp(ops, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushOp(ops, "delete", a[i++]);
+    } else {
+      pushOp(ops, "insert", b[j++]);
+    }
+  }
+  while (i < a.length) pushOp(ops, "delete", a[i++]);
+  while (j < b.length) pushOp(ops, "insert", b[j++]);
+
+  pushOp(ops, "equal", before.slice(before.length - suffix).join(""));
+  return ops;
+};
+
+export const diffWords = (before: string, after: string): DiffOp[] =>
+  diffTokens(tokenizeWords(before), tokenizeWords(after), false) ||
+  diffTokens(tokenizeLines(before), tokenizeLines(after), true);
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(word => word.length > 0).length;
+
+// Words added and removed by a diff
+export const diffStats = (ops: DiffOp[]) => ({
+  added: ops.filter(op => op.type === "insert").reduce((sum, op) => sum + countWords(op.text), 0),
+  removed: ops.filter(op => op.type === "delete").reduce((sum, op) => sum + countWords(op.text), 0),
+});
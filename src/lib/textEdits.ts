@@ -0,0 +1,92 @@
+// Edit operations on the document's plain text and rebasing of ranges
+// (suggestion positions) through them.
+
+// Replace `deleteCount` characters at `start` with `insertText`
+export interface TextEdit {
+  start: number;
+  deleteCount: number;
+  insertText: string;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Describes the change from `previous` to `next` as a single edit by trimming
+// their common prefix and suffix. Returns null when nothing changed.
+export const diffText = (previous: string, next: string): TextEdit | null => {
+  if (previous === next) return null;
+
+  const maxPrefix = Math.min(previous.length, next.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && previous[prefix] === next[prefix]) prefix++;
+
+  const maxSuffix = Math.min(previous.length, next.length) - prefix;
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return {
+    start: prefix,
+    deleteCount: previous.length - prefix - suffix,
+    insertText: next.slice(prefix, next.length - suffix),
+  };
+};
+
+export const applyEdit = (text: string, edit: TextEdit) =>
+  text.slice(0, edit.start) + edit.insertText + text.slice(edit.start + edit.deleteCount);
+
+// Moves a range through an edit. Edits entirely before the range shift it,
+// edits entirely after it leave it alone, and edits touching its inside
+// invalidate it (null). Typing right at either boundary counts as outside.
+export const rebaseRange = (range: TextRange, edit: TextEdit): TextRange | null => {
+  const editEnd = edit.start + edit.deleteCount;
+  const delta = edit.insertText.length - edit.deleteCount;
+
+  if (editEnd <= range.start) {
+    return { start: range.start + delta, end: range.end + delta };
+  }
+  if (edit.start >= range.end) {
+    return range;
+  }
+  return null;
+};
+
+// Moves a range through an edit like `rebaseRange`, except that edits
+// touching its inside grow or shrink it instead of invalidating it. A range
+// whose text was deleted entirely collapses to where it was.
+export const stretchRange = (range: TextRange, edit: TextEdit): TextRange => {
+  const editEnd = edit.start + edit.deleteCount;
+  const delta = edit.insertText.length - edit.deleteCount;
+
+  if (editEnd <= range.start) {
+    return { start: range.start + delta, end: range.end + delta };
+  }
+  if (edit.start >= range.end) {
+    return range;
+  }
+  return {
+    start: Math.min(range.start, edit.start),
+    end: range.end > editEnd ? range.end + delta : edit.start + edit.insertText.length,
+  };
+};
+
+// Rebases every positioned item through an edit, dropping the ones whose span
+// was edited.
+export const rebasePositioned = <T extends { position: TextRange }>(
+  items: T[],
+  edit: TextEdit | null
+): T[] => {
+  if (!edit) return items;
+
+  return items.flatMap(item => {
+    const position = rebaseRange(item.position, edit);
+    if (!position) return [];
+    return position === item.position ? [item] : [{ ...item, position }];
+  });
+};
@@ -0,0 +1,275 @@
+import { splitParagraphs } from "@/lib/paragraphs";
+import type { TextRange } from "@/lib/textEdits";
+
+// Readability statistics for English text: syllable counts, the usual
+// readability formulas and per-paragraph breakdowns.
+
+// Words the spelling rules below get wrong, with their syllable counts.
+// Inflected forms (-s, -es, -ed, -ing, -ly) are derived from these.
+const SYLLABLE_DICTIONARY: Record<string, number> = {
+  abalone: 4, acre: 2, anemone: 4, apostrophe: 4, area: 3, aria: 3, being: 2,
+  business: 2, catastrophe: 4, cafe: 2, cliche: 2, colonel: 2, coyote: 3,
+  create: 2, created: 3, creature: 2, cruel: 2, diary: 3, diet: 2, different: 3,
+  doing: 2, dual: 2, epitome: 4, every: 2, everything: 3, everyone: 3, evening: 2,
+  family: 3, fire: 1, flour: 1, fuel: 2, generally: 4, going: 2, hour: 1,
+  hyperbole: 4, idea: 3, ideal: 3, interest: 3, interesting: 4, jewel: 2,
+  karate: 3, lion: 2, maybe: 2, naive: 2, neon: 2, ocean: 2, orange: 2,
+  people: 2, poem: 2, poet: 2, poetry: 3, quiet: 2, real: 1, really: 2,
+  recipe: 3, reality: 4, ruin: 2, science: 2, scientist: 3, sesame: 3,
+  simile: 3, society: 4, some: 1, something: 2, sometimes: 2, someone: 2,
+  spaghetti: 3, tiger: 2, toward: 1, towards: 1, triangle: 3, usual: 3,
+  usually: 4, vehicle: 3, via: 2, video: 3, violin: 3, wednesday: 2, whole: 1,
+  yesterday: 3, zoology: 4,
+};
+
+// Patterns each worth one syllable more or less than the vowel groups suggest
+const EXTRA_SYLLABLE_PATTERNS = [
+  /[^cgst]ia/, /iu/, /[^cgstx]io/, /ii/, /[aeiouy]ing$/, /[aeiou]y[aeiou]/,
+  /eo[^u]/, /ua[^y]/, /uo/, /ism$/, /^mc/, /ier$/,
+];
+
+const MISSING_SYLLABLE_PATTERNS = [/giu/, /[^aeiou]ely$/, /ique$/];
+
+const countByRules = (word: string) => {
+  let count = (word.match(/[aeiouy]+/g) || []).length;
+
+  // Silent endings: "make", "jumped", "hopes", but not "wanted" or "boxes"
+  if (/[^aeiouy]e$/.test(word) && !/[^aeiouy]le$/.test(word)) count--;
+  else if (/[^aeiouytd]ed$/.test(word)) count--;
+  else if (/[^aeiouysxzhgc]es$/.test(word) && !/[^aeiouy]les$/.test(word)) count--;
+
+  count += EXTRA_SYLLABLE_PATTERNS.filter(pattern => pattern.test(word)).length;
+  count -= MISSING_SYLLABLE_PATTERNS.filter(pattern => pattern.test(word)).length;
+  return Math.max(1, count);
+};
+
+// Endings whose syllable count doesn't depend on the stem
+const INFLECTIONS: [RegExp, number][] = [
+  [/ing$/, 1],
+  [/ly$/, 1],
+  [/(?<=[sxzh])es$/, 1],
+  [/(?<=[td])ed$/, 1],
+  [/s$/, 0],
+  [/ed$/, 0],
+];
+
+const lookUp = (word: string): number | null => {
+  if (word in SYLLABLE_DICTIONARY) return SYLLABLE_DICTIONARY[word];
+  for (const [suffix, syllables] of INFLECTIONS) {
+    if (!suffix.test(word)) continue;
+    const stem = word.replace(suffix, "");
+    // "created" -> "create", "hoping" -> "hope"
+    for (const candidate of [stem, `${stem}e`]) {
+      if (candidate in SYLLABLE_DICTIONARY) return SYLLABLE_DICTIONARY[candidate] + syllables;
+    }
+  }
+  return null;
+};
+
+export const countSyllables = (word: string): number => {
+  const normalized = word.toLowerCase().replace(/[’']s$/, "").replace(/[^a-z0-9-]/g, "");
+  if (!normalized) return 0;
+  if (normalized.includes("-")) {
+    return normalized.split("-").reduce((sum, part) => sum + countSyllables(part), 0);
+  }
+  // Numbers are read out, which this approximates with a syllable per digit
+  if (/^\d+$/.test(normalized)) return normalized.length;
+
+  const letters = normalized.replace(/\d/g, "");
+  if (letters.length <= 3) return letters ? 1 : 0;
+  return lookUp(letters) ?? countByRules(letters);
+};
+
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export const tokenizeWords = (text: string): string[] => text.match(WORD) || [];
+
+// Periods in these don't end a sentence
+const ABBREVIATIONS = new Set([
+  "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "vs", "etc", "e.g", "i.e", "approx",
+  "inc", "ltd", "co", "no", "fig", "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep",
+  "sept", "oct", "nov", "dec",
+]);
+
+// Where each sentence is, trimmed. Lines are sentences of their own, so
+// headings and list items count as sentences even without punctuation.
+export const sentenceRanges = (text: string): TextRange[] => {
+  const ranges: TextRange[] = [];
+  let lineStart = 0;
+
+  const add = (start: number, end: number) => {
+    const sentence = text.slice(start, end);
+    if (tokenizeWords(sentence).length === 0) return;
+    const leading = sentence.length - sentence.trimStart().length;
+    ranges.push({ start: start + leading, end: start + sentence.trimEnd().length });
+  };
+
+  for (const line of text.split("\n")) {
+    let start = 0;
+    for (const match of line.matchAll(/[.!?…]+["'”’)\]]*(?=\s|$)/g)) {
+      const end = match.index! + match[0].length;
+      const lastWord = line.slice(start, match.index).match(/([\p{L}.]+)$/u)?.[1].toLowerCase() || "";
+      // Abbreviations and initials such as "J. Smith"
+      if (match[0] === "." && (ABBREVIATIONS.has(lastWord) || /^\p{L}$/u.test(lastWord))) continue;
+      add(lineStart + start, lineStart + end);
+      start = end;
+    }
+    add(lineStart + start, lineStart + line.length);
+    lineStart += line.length + 1;
+  }
+
+  return ranges;
+};
+
+export const splitSentences = (text: string): string[] =>
+  sentenceRanges(text).map(range => text.slice(range.start, range.end));
+
+export interface TextStatistics {
+  words: number;
+  sentences: number;
+  syllables: number;
+  // Letters and digits
+  characters: number;
+  // Three or more syllables, not counting names, compounds and -es, -ed or
+  // -ing endings (Gunning Fog)
+  complexWords: number;
+  // Three or more syllables (SMOG)
+  polysyllables: number;
+  averageSentenceLength: number;
+  averageWordLength: number;
+  averageSyllablesPerWord: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  // Calibrated on samples of 30 sentences, so rough for shorter texts
+  smog: number;
+  colemanLiau: number;
+}
+
+const EMPTY_STATISTICS: TextStatistics = {
+  words: 0,
+  sentences: 0,
+  syllables: 0,
+  characters: 0,
+  complexWords: 0,
+  polysyllables: 0,
+  averageSentenceLength: 0,
+  averageWordLength: 0,
+  averageSyllablesPerWord: 0,
+  fleschReadingEase: 0,
+  fleschKincaidGrade: 0,
+  gunningFog: 0,
+  smog: 0,
+  colemanLiau: 0,
+};
+
+const isComplexWord = (word: string, syllables: number, startsSentence: boolean) => {
+  if (syllables < 3 || word.includes("-")) return false;
+  if (!startsSentence && /^\p{Lu}/u.test(word)) return false;
+  const stem = word.toLowerCase().replace(/(es|ed|ing)$/, "");
+  return stem === word.toLowerCase() || countSyllables(stem) >= 3;
+};
+
+export const analyzeText = (text: string): TextStatistics => {
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) return EMPTY_STATISTICS;
+
+  let words = 0;
+  let syllables = 0;
+  let characters = 0;
+  let complexWords = 0;
+  let polysyllables = 0;
+
+  for (const sentence of sentences) {
+    tokenizeWords(sentence).forEach((word, index) => {
+      const wordSyllables = countSyllables(word);
+      words++;
+      syllables += wordSyllables;
+      characters += word.replace(/[^\p{L}\p{N}]/gu, "").length;
+      if (wordSyllables >= 3) polysyllables++;
+      if (isComplexWord(word, wordSyllables, index === 0)) complexWords++;
+    });
+  }
+
+  const wordsPerSentence = words / sentences.length;
+  const syllablesPerWord = syllables / words;
+
+  return {
+    words,
+    sentences: sentences.length,
+    syllables,
+    characters,
+    complexWords,
+    polysyllables,
+    averageSentenceLength: wordsPerSentence,
+    averageWordLength: characters / words,
+    averageSyllablesPerWord: syllablesPerWord,
+    fleschReadingEase: 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord,
+    fleschKincaidGrade: Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    gunningFog: 0.4 * (wordsPerSentence + (100 * complexWords) / words),
+    smog: 1.043 * Math.sqrt((polysyllables * 30) / sentences.length) + 3.1291,
+    colemanLiau: Math.max(0, 0.0588 * ((100 * characters) / words) - 0.296 * ((100 * sentences.length) / words) - 15.8),
+  };
+};
+
+// Describes a Flesch Reading Ease score
+export const readingEaseLabel = (score: number) => {
+  if (score >= 90) return "Very Easy";
+  if (score >= 80) return "Easy";
+  if (score >= 70) return "Fairly Easy";
+  if (score >= 60) return "Standard";
+  if (score >= 50) return "Fairly Difficult";
+  if (score >= 30) return "Difficult";
+  return "Very Difficult";
+};
+
+export interface ParagraphReadability {
+  // Where the paragraph starts in the document's plain text
+  start: number;
+  text: string;
+  statistics: TextStatistics;
+}
+
+// Every paragraph with words in it, in document order
+export const analyzeParagraphs = (text: string): ParagraphReadability[] =>
+  splitParagraphs(text)
+    .map(paragraph => ({ start: paragraph.start, text: paragraph.text, statistics: analyzeText(paragraph.text) }))
+    .filter(paragraph => paragraph.statistics.words > 0);
+
+// Hemingway-style shading: long or hard sentences, and very hard ones
+export type SentenceDifficulty = "hard" | "very-hard";
+
+// Sentences shorter than this are never shaded; a few long words don't make
+// a sentence hard to follow
+const MIN_SHADED_WORDS = 14;
+const LONG_SENTENCE_WORDS = 25;
+const HARD_GRADE = 10;
+const VERY_HARD_GRADE = 14;
+
+export interface SentenceReadability extends TextRange {
+  text: string;
+  words: number;
+  // Flesch-Kincaid grade of the sentence on its own
+  grade: number;
+  difficulty: SentenceDifficulty | null;
+}
+
+export const sentenceDifficulty = (words: number, grade: number): SentenceDifficulty | null => {
+  if (words < MIN_SHADED_WORDS) return null;
+  if (grade >= VERY_HARD_GRADE) return "very-hard";
+  if (grade >= HARD_GRADE || words >= LONG_SENTENCE_WORDS) return "hard";
+  return null;
+};
+
+export const analyzeSentences = (text: string): SentenceReadability[] =>
+  sentenceRanges(text).map(range => {
+    const sentence = text.slice(range.start, range.end);
+    const statistics = analyzeText(sentence);
+    return {
+      ...range,
+      text: sentence,
+      words: statistics.words,
+      grade: statistics.fleschKincaidGrade,
+      difficulty: sentenceDifficulty(statistics.words, statistics.fleschKincaidGrade),
+    };
+  });
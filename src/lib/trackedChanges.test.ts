@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { fromPlainText, toPlainText } from "@/lib/documentModel";
+import { withoutTrackedChanges } from "@/lib/trackedChanges";
+
+describe("trackedChanges", () => {
+  it("leaves pending changes out of the reviewed document", () => {
+    // "The quick fox" with "quick" proposed for deletion and " brown" typed
+    const doc = fromPlainText("The fox brown");
+    const reviewed = withoutTrackedChanges(
+      doc,
+      [
+        { kind: "deletion", text: "quick ", position: { start: 4, end: 4 } },
+        { kind: "insertion", text: " brown", position: { start: 7, end: 13 } },
+      ],
+      // A comment on "fox"
+      [{ id: "comment", position: { start: 4, end: 7 } }]
+    );
+
+    expect(toPlainText(reviewed.document)).toBe("The quick fox");
+    expect(reviewed.anchored[0].position).toEqual({ start: 10, end: 13 });
+  });
+});
@@ -0,0 +1,302 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { RichDocument, replaceRange } from "@/lib/documentModel";
+import { TextEdit, TextRange, stretchRange } from "@/lib/textEdits";
+
+// Edits made in Suggesting mode. They are applied to the text right away and
+// recorded here so the document's editors can review them:
+// - an insertion covers the text that was typed;
+// - a deletion is collapsed to where the text was and keeps that text, so
+//   rejecting it can put it back (with the formatting around it).
+export type TrackedChangeKind = "insertion" | "deletion";
+
+export interface TrackedChange {
+  id: string;
+  kind: TrackedChangeKind;
+  text: string;
+  position: TextRange;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+}
+
+export interface TrackedChangeAuthor {
+  id: string;
+  name: string;
+}
+
+// What rejecting a change needs to know about it
+export type PendingChange = Pick<TrackedChange, "kind" | "text" | "position">;
+
+// A deletion and the insertion typed in its place are reviewed together
+export interface TrackedChangeGroup {
+  id: string;
+  changes: TrackedChange[];
+  deleted: string;
+  inserted: string;
+  position: TextRange;
+  authorName: string;
+  createdAt: string;
+}
+
+type TrackedChangeRow = Tables<"document_tracked_changes">;
+
+const fromRow = (row: TrackedChangeRow): TrackedChange => ({
+  id: row.id,
+  kind: row.kind as TrackedChangeKind,
+  text: row.text,
+  position: { start: row.position_start, end: row.position_end },
+  authorId: row.user_id,
+  authorName: row.author_name,
+  createdAt: row.created_at,
+});
+
+// Sorts changes at the same offset with `first` before the other kind
+const kindOrder = (a: PendingChange, b: PendingChange, first: TrackedChangeKind) =>
+  a.kind === b.kind ? 0 : a.kind === first ? -1 : 1;
+
+const isOwnInsertion = (change: TrackedChange, author: TrackedChangeAuthor) =>
+  change.kind === "insertion" && change.authorId === author.id;
+
+// Moves tracked changes through an edit that is not itself tracked (someone
+// else's edit, undo, or resolving another change). Insertions whose text is
+// gone are dropped, and so are deletions whose text was put back.
+export const rebaseTrackedChanges = (changes: TrackedChange[], edit: TextEdit): TrackedChange[] =>
+  changes.flatMap(change => {
+    if (
+      change.kind === "deletion" &&
+      edit.deleteCount === 0 &&
+      edit.start === change.position.start &&
+      edit.insertText === change.text
+    ) {
+      return [];
+    }
+
+    const position = stretchRange(change.position, edit);
+    if (change.kind === "insertion" && position.start === position.end) return [];
+    if (position.start === change.position.start && position.end === change.position.end) return [change];
+    return [{ ...change, position }];
+  });
+
+// Records an edit made in Suggesting mode. Text deleted from the author's
+// own pending insertions just goes away, and typing next to or inside them
+// or deleting next to their own deletions extends those changes instead of
+// starting new ones.
+export const recordTrackedEdit = (
+  changes: TrackedChange[],
+  previousText: string,
+  edit: TextEdit,
+  author: TrackedChangeAuthor
+): TrackedChange[] => {
+  const editEnd = edit.start + edit.deleteCount;
+  const ownInsertions = changes.filter(change => isOwnInsertion(change, author));
+
+  let deleted = "";
+  for (let offset = edit.start; offset < editEnd; offset++) {
+    if (!ownInsertions.some(change => offset >= change.position.start && offset < change.position.end)) {
+      deleted += previousText[offset];
+    }
+  }
+
+  // Found before rebasing, while their positions still refer to previousText.
+  // Only plain deletions (Backspace, Delete) extend an earlier one.
+  const ownDeletion = (at: number) =>
+    changes.find(change => change.kind === "deletion" && change.authorId === author.id && change.position.start === at);
+  const canMerge = deleted && !edit.insertText;
+  const deletionBefore = canMerge ? ownDeletion(editEnd) : undefined;
+  const deletionAfter = canMerge && !deletionBefore ? ownDeletion(edit.start) : undefined;
+
+  let next = changes.flatMap(change => {
+    const position = stretchRange(change.position, edit);
+    if (change.kind === "insertion" && position.start === position.end) return [];
+    return [{ ...change, position }];
+  });
+
+  const now = new Date().toISOString();
+
+  if (deleted) {
+    const merging = deletionBefore || deletionAfter;
+    if (merging) {
+      next = next.map(change => (
+        change.id === merging.id
+          ? { ...change, text: deletionBefore ? deleted + change.text : change.text + deleted }
+          : change
+      ));
+    } else {
+      next.push({
+        id: crypto.randomUUID(),
+        kind: "deletion",
+        text: deleted,
+        position: { start: edit.start, end: edit.start },
+        authorId: author.id,
+        authorName: author.name,
+        createdAt: now,
+      });
+    }
+  }
+
+  if (edit.insertText) {
+    const start = edit.start;
+    const end = edit.start + edit.insertText.length;
+    const own = next.filter(change => isOwnInsertion(change, author));
+    const inside = own.find(change => change.position.start <= start && change.position.end >= end);
+    const before = own.find(change => change.position.end === start);
+    const after = own.find(change => change.position.start === end);
+
+    if (!inside) {
+      if (before || after) {
+        next = next.map(change => {
+          if (change === before) return { ...change, position: { start: change.position.start, end } };
+          if (change === after) return { ...change, position: { start, end: change.position.end } };
+          return change;
+        });
+      } else {
+        next.push({
+          id: crypto.randomUUID(),
+          kind: "insertion",
+          text: edit.insertText,
+          position: { start, end },
+          authorId: author.id,
+          authorName: author.name,
+          createdAt: now,
+        });
+      }
+    }
+  }
+
+  return next;
+};
+
+// Brings the insertions' text up to date with the document, so cards show
+// what they would accept or reject
+export const withInsertedText = (changes: TrackedChange[], text: string): TrackedChange[] =>
+  changes.map(change => {
+    if (change.kind !== "insertion") return change;
+    const inserted = text.slice(change.position.start, change.position.end);
+    return inserted === change.text ? change : { ...change, text: inserted };
+  });
+
+// Groups changes for review in document order. A deletion is paired with an
+// insertion by the same author that starts where it was.
+export const groupTrackedChanges = (changes: TrackedChange[]): TrackedChangeGroup[] => {
+  const sorted = [...changes].sort(
+    (a, b) => a.position.start - b.position.start || kindOrder(a, b, "deletion")
+  );
+  const groups: TrackedChangeGroup[] = [];
+
+  for (const change of sorted) {
+    const previous = groups[groups.length - 1];
+    const pairsWithPrevious =
+      previous &&
+      change.kind === "insertion" &&
+      previous.changes.length === 1 &&
+      previous.changes[0].kind === "deletion" &&
+      previous.changes[0].authorId === change.authorId &&
+      previous.position.start === change.position.start;
+
+    if (pairsWithPrevious) {
+      previous.changes.push(change);
+      previous.inserted = change.text;
+      previous.position = change.position;
+      continue;
+    }
+
+    groups.push({
+      id: change.id,
+      changes: [change],
+      deleted: change.kind === "deletion" ? change.text : "",
+      inserted: change.kind === "insertion" ? change.text : "",
+      position: change.position,
+      authorName: change.authorName,
+      createdAt: change.createdAt,
+    });
+  }
+
+  return groups;
+};
+
+// The edits that undo the given changes, from the end of the text backwards
+// so applying them in order keeps the earlier offsets valid
+export const rejectionEdits = (changes: PendingChange[]): TextEdit[] =>
+  [...changes]
+    .sort((a, b) => b.position.start - a.position.start || kindOrder(a, b, "insertion"))
+    .map(change => (
+      change.kind === "insertion"
+        ? { start: change.position.start, deleteCount: change.position.end - change.position.start, insertText: "" }
+        : { start: change.position.start, deleteCount: 0, insertText: change.text }
+    ));
+
+// The document with the given changes rejected, and `anchored` items (such
+// as comment threads) moved along with its text. With every pending change
+// this is the reviewed document, which is what share links and exports show.
+export const withoutTrackedChanges = <T extends { position: TextRange }>(
+  doc: RichDocument,
+  changes: PendingChange[],
+  anchored: T[] = []
+) => {
+  let document = doc;
+  let items = anchored;
+  for (const edit of rejectionEdits(changes)) {
+    document = replaceRange(document, edit.start, edit.start + edit.deleteCount, edit.insertText);
+    items = items.map(item => ({ ...item, position: stretchRange(item.position, edit) }));
+  }
+  return { document, anchored: items };
+};
+
+export const fetchTrackedChanges = async (documentId: string): Promise<TrackedChange[]> => {
+  const { data, error } = await supabase
+    .from("document_tracked_changes")
+    .select("*")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+export const createTrackedChanges = async (documentId: string, changes: TrackedChange[]) => {
+  const { error } = await supabase
+    .from("document_tracked_changes")
+    .insert(changes.map(change => ({
+      id: change.id,
+      document_id: documentId,
+      user_id: change.authorId,
+      // Replaced with the signed-in user's name by the database
+      author_name: change.authorName,
+      kind: change.kind,
+      text: change.text,
+      position_start: change.position.start,
+      position_end: change.position.end,
+      created_at: change.createdAt,
+    })));
+
+  if (error) throw error;
+};
+
+export const updateTrackedChanges = async (changes: TrackedChange[]) => {
+  const results = await Promise.all(
+    changes.map(change =>
+      supabase
+        .from("document_tracked_changes")
+        .update({
+          text: change.text,
+          position_start: change.position.start,
+          position_end: change.position.end,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", change.id)
+    )
+  );
+
+  const failed = results.find(result => result.error);
+  if (failed) throw failed.error;
+};
+
+export const deleteTrackedChanges = async (ids: string[]) => {
+  const { error } = await supabase
+    .from("document_tracked_changes")
+    .delete()
+    .in("id", ids);
+
+  if (error) throw error;
+};
@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { RichDocument, serializeDocument, toPlainText } from "@/lib/documentModel";
+import { countWords } from "@/lib/textDiff";
+
+export type DocumentVersion = Tables<"document_versions">;
+
+export type VersionKind = "auto" | "milestone";
+
+// Autosaves take a snapshot at most this often
+export const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+// Versions listed in the history panel
+const MAX_VERSIONS = 100;
+
+export const fetchVersions = async (documentId: string): Promise<DocumentVersion[]> => {
+  const { data, error } = await supabase
+    .from("document_versions")
+    .select("*")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_VERSIONS);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createVersion = async (
+  documentId: string,
+  userId: string,
+  document: RichDocument,
+  title: string,
+  kind: VersionKind,
+  label: string | null = null
+): Promise<DocumentVersion> => {
+  const content = toPlainText(document);
+  const { data, error } = await supabase
+    .from("document_versions")
+    .insert({
+      document_id: documentId,
+      user_id: userId,
+      kind,
+      label,
+      title,
+      content,
+      body: serializeDocument(document),
+      word_count: countWords(content),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
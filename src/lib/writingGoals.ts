@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+// What a document is for, stored in `documents.goals` and sent to
+// `check-text` so the assistant tunes its style suggestions. The same values
+// are accepted by the edge function (see check-text/types.ts).
+
+export type GoalAudience = "general" | "knowledgeable" | "expert";
+export type GoalFormality = "informal" | "neutral" | "formal";
+export type GoalDomain = "general" | "academic" | "business" | "technical" | "creative" | "casual";
+export type GoalIntent = "inform" | "describe" | "convince" | "tell-a-story";
+
+// Goals the user hasn't set are left out, and aren't sent to the assistant
+export interface WritingGoals {
+  audience?: GoalAudience;
+  formality?: GoalFormality;
+  domain?: GoalDomain;
+  intent?: GoalIntent;
+}
+
+export const WRITING_GOAL_OPTIONS: {
+  [K in keyof WritingGoals]-?: { label: string; options: { value: NonNullable<WritingGoals[K]>; label: string }[] };
+} = {
+  audience: {
+    label: "Audience",
+    options: [
+      { value: "general", label: "General" },
+      { value: "knowledgeable", label: "Knowledgeable" },
+      { value: "expert", label: "Expert" },
+    ],
+  },
+  formality: {
+    label: "Formality",
+    options: [
+      { value: "informal", label: "Informal" },
+      { value: "neutral", label: "Neutral" },
+      { value: "formal", label: "Formal" },
+    ],
+  },
+  domain: {
+    label: "Domain",
+    options: [
+      { value: "general", label: "General" },
+      { value: "academic", label: "Academic" },
+      { value: "business", label: "Business" },
+      { value: "technical", label: "Technical" },
+      { value: "creative", label: "Creative" },
+      { value: "casual", label: "Casual" },
+    ],
+  },
+  intent: {
+    label: "Intent",
+    options: [
+      { value: "inform", label: "Inform" },
+      { value: "describe", label: "Describe" },
+      { value: "convince", label: "Convince" },
+      { value: "tell-a-story", label: "Tell a story" },
+    ],
+  },
+};
+
+export const goalLabel = <K extends keyof WritingGoals>(key: K, value: NonNullable<WritingGoals[K]>) =>
+  WRITING_GOAL_OPTIONS[key].options.find(option => option.value === value)?.label ?? value;
+
+export const sameWritingGoals = (a: WritingGoals, b: WritingGoals) =>
+  a.audience === b.audience && a.formality === b.formality && a.domain === b.domain && a.intent === b.intent;
+
+// Unknown values are dropped; undefined when no goals are set
+export const parseWritingGoals = (value: Json | null | undefined): WritingGoals | undefined => {
+  const stored = value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  const goals: WritingGoals = {};
+  const pick = <K extends keyof WritingGoals>(key: K) => {
+    const option = WRITING_GOAL_OPTIONS[key].options.find(option => option.value === stored[key]);
+    if (option) goals[key] = option.value as WritingGoals[K];
+  };
+  pick("audience");
+  pick("formality");
+  pick("domain");
+  pick("intent");
+  return Object.keys(goals).length > 0 ? goals : undefined;
+};
+
+export const serializeWritingGoals = (goals: WritingGoals = {}): Json => ({ ...goals });
+
+export const saveDocumentGoals = async (documentId: string, goals: WritingGoals) => {
+  const { error } = await supabase
+    .from("documents")
+    .update({ goals: serializeWritingGoals(goals) })
+    .eq("id", documentId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { createZip, openZip } from "@/lib/zipArchive";
+
+// Offset of the uncompressed size in the only central directory entry
+const uncompressedSizeOffset = (data: ArrayBuffer) => {
+  const view = new DataView(data);
+  return view.getUint32(view.byteLength - 22 + 16, true) + 24;
+};
+
+describe("zipArchive", () => {
+  it("reads back what it wrote", async () => {
+    const text = "hello ".repeat(1000);
+    const data = await (await createZip([{ name: "a.txt", data: text }])).arrayBuffer();
+
+    const entry = await openZip(data).read("a.txt");
+    expect(new TextDecoder().decode(entry!)).toBe(text);
+  });
+
+  it("rejects entries that inflate past their declared size", async () => {
+    const data = await (await createZip([{ name: "a.txt", data: "x".repeat(100000) }])).arrayBuffer();
+    new DataView(data).setUint32(uncompressedSizeOffset(data), 10, true);
+
+    await expect(openZip(data).read("a.txt")).rejects.toThrow("Corrupt ZIP entry a.txt");
+  });
+});
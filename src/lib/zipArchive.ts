@@ -0,0 +1,225 @@
+// Just enough of the ZIP format to read and write Office documents and
+// bundles of exports. Entries are either stored or deflated, using the
+// browser's (De)CompressionStream. ZIP64 archives, encryption and
+// multi-disk archives aren't supported.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// General purpose flag bits
+const FLAG_ENCRYPTED = 0x0001;
+
+// Entries larger than this aren't read, so a small archive can't inflate
+// into gigabytes
+export const MAX_ZIP_ENTRY_BYTES = 50 * 1024 * 1024;
+
+interface ZipEntry {
+  flags: number;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Reading an entry that was encrypted
+export class ZipEncryptedError extends Error {}
+
+// Reading an entry larger than MAX_ZIP_ENTRY_BYTES
+export class ZipEntryTooLargeError extends Error {}
+
+export interface ZipArchive {
+  names: string[];
+  // Null when the archive has no such entry
+  read: (name: string) => Promise<Uint8Array | null>;
+}
+
+const transform = async (data: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Stops as soon as the output grows past `limit` bytes and returns null
+const inflate = async (data: Uint8Array, limit: number) => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+
+  const inflated = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    inflated.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return inflated;
+};
+
+const deflate = (data: Uint8Array) => transform(data, new CompressionStream("deflate-raw"));
+
+// The end record sits at the very end, followed by a comment of up to 64 KB
+const findEndOfCentralDirectory = (view: DataView) => {
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+};
+
+// Throws when the data isn't a ZIP archive
+export const openZip = (data: ArrayBuffer): ZipArchive => {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+
+  const end = view.byteLength >= 22 ? findEndOfCentralDirectory(view) : -1;
+  if (end < 0) throw new Error("Not a ZIP archive");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+
+    if (entry.flags & FLAG_ENCRYPTED) throw new ZipEncryptedError(`ZIP entry ${name} is encrypted`);
+    if (entry.uncompressedSize > MAX_ZIP_ENTRY_BYTES) throw new ZipEntryTooLargeError(`ZIP entry ${name} is too large`);
+
+    const header = entry.localHeaderOffset;
+    if (header + 30 > view.byteLength || view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    // The local header's own name and extra field lengths can differ from
+    // the central directory's
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    if (start + entry.compressedSize > view.byteLength) throw new Error(`Corrupt ZIP entry ${name}`);
+    const data = bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) return data;
+    if (entry.method === METHOD_DEFLATE) {
+      // Data that inflates to more than the declared size is damaged, or
+      // made to exhaust memory
+      const inflated = await inflate(data, entry.uncompressedSize);
+      if (!inflated || inflated.length !== entry.uncompressedSize) throw new Error(`Corrupt ZIP entry ${name}`);
+      return inflated;
+    }
+    throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  };
+
+  return { names: [...entries.keys()], read };
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export interface ZipFileInput {
+  name: string;
+  data: Uint8Array | string;
+}
+
+// Builds an archive in the order given. Entries are deflated unless that
+// doesn't make them smaller.
+export const createZip = async (files: ZipFileInput[], modified = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === "string" ? encoder.encode(file.data) : file.data;
+    const compressed = await deflate(data);
+    const isDeflated = compressed.length < data.length;
+    const stored = isDeflated ? compressed : data;
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_FILE_HEADER, true);
+    header.setUint16(4, 20, true);
+    // Bit 11: names are UTF-8
+    header.setUint16(6, 0x0800, true);
+    header.setUint16(8, isDeflated ? METHOD_DEFLATE : METHOD_STORED, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, stored.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, isDeflated ? METHOD_DEFLATE : METHOD_STORED, true);
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, stored.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(header.buffer), name, stored);
+    directory.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + stored.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], { type: "application/zip" });
+};
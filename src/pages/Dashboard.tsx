@@ -1,27 +1,176 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, FileText, Clock, User } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToastAction } from "@/components/ui/toast";
+import { Plus, FileText, Clock, User, Settings, Search, MoreVertical, Folder as FolderIcon, Trash2, RotateCcw, Upload, Download } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import FolderSidebar from "@/components/FolderSidebar";
+import DocumentTagsDialog from "@/components/DocumentTagsDialog";
+import NewDocumentDialog from "@/components/NewDocumentDialog";
+import ImportProgressCard from "@/components/ImportProgressCard";
+import ExportDialog from "@/components/ExportDialog";
+import { useDocumentImport } from "@/hooks/useDocumentImport";
+import {
+  DOCUMENTS_PAGE_SIZE,
+  DOCUMENT_SORTS,
+  DocumentSort,
+  DocumentSummary,
+  Folder,
+  TRASH,
+  TRASH_RETENTION_DAYS,
+  UNFILED,
+  createDocument,
+  createFolder,
+  daysUntilPurge,
+  deleteDocumentsForever,
+  deleteFolder,
+  fetchDocumentPage,
+  fetchDocumentStats,
+  fetchDocumentTags,
+  fetchFolders,
+  moveDocumentToFolder,
+  moveDocumentsToTrash,
+  renameFolder,
+  restoreDocuments,
+  setDocumentTags,
+} from "@/lib/documentLibrary";
+import { DocumentTemplate, deleteTemplate, fetchUserTemplates, fillTemplate } from "@/lib/templates";
+import { serializeWritingGoals } from "@/lib/writingGoals";
+import { IMPORT_ACCEPT } from "@/lib/documentImport";
+import { ExportFormat, ZIP_EXPORT_FORMATS, downloadBlob, exportDocumentsZip } from "@/lib/documentExport";
 
-interface Document {
-  id: string;
-  title: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-}
+// Search runs this long after the last keystroke
+const SEARCH_DEBOUNCE_MS = 300;
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user, signOut, loading } = useAuth();
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [totalDocuments, setTotalDocuments] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [stats, setStats] = useState({ documents: 0, words: 0 });
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [folder, setFolder] = useState<string | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+  const [sort, setSort] = useState<DocumentSort>("updated");
+  const [page, setPage] = useState(0);
+  const [taggingDocument, setTaggingDocument] = useState<DocumentSummary | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirmDeleteIds, setConfirmDeleteIds] = useState<string[] | null>(null);
+  const [userTemplates, setUserTemplates] = useState<DocumentTemplate[]>([]);
+  const [isNewDocumentOpen, setIsNewDocumentOpen] = useState(false);
+  // Documents to export, or null for all of them
+  const [exportIds, setExportIds] = useState<string[] | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { progress: importProgress, importFiles, dismissProgress } = useDocumentImport(user?.id);
+
+  const pageCount = Math.max(1, Math.ceil(totalDocuments / DOCUMENTS_PAGE_SIZE));
+  const isTrash = folder === TRASH;
+  const isFiltered = Boolean(search.trim() || (folder && !isTrash) || tag);
+  // Only owners can trash, restore or delete documents
+  const selectableIds = documents.filter(doc => doc.user_id === user?.id).map(doc => doc.id);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const { documents: data, total } = await fetchDocumentPage({ search, folder, tag, sort, page });
+      // Step back if the page emptied, e.g. after documents moved elsewhere
+      if (data.length === 0 && page > 0) {
+        setPage(Math.max(0, Math.ceil(total / DOCUMENTS_PAGE_SIZE) - 1));
+        return;
+      }
+      setDocuments(data);
+      setTotalDocuments(total);
+    } catch (error) {
+      console.error('Error fetching documents:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load documents",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, folder, tag, sort, page, toast]);
+
+  // Folders, tags, totals and templates, which don't depend on the current filters
+  const fetchLibrary = useCallback(async () => {
+    try {
+      const [folderData, tagData, statData, templateData] = await Promise.all([
+        fetchFolders(),
+        fetchDocumentTags(),
+        fetchDocumentStats(),
+        fetchUserTemplates(),
+      ]);
+      setFolders(folderData);
+      setTags(tagData);
+      setStats(statData);
+      setUserTemplates(templateData);
+    } catch (error) {
+      console.error('Error fetching folders and tags:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) fetchDocuments();
+  }, [user, fetchDocuments]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput);
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Selection is per page of results
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [search, folder, tag, sort, page]);
+
+  // The realtime subscription refreshes with the current filters without
+  // re-subscribing when they change
+  const refreshRef = useRef({ fetchDocuments, fetchLibrary });
+  refreshRef.current = { fetchDocuments, fetchLibrary };
 
   useEffect(() => {
     if (!loading && !user) {
@@ -30,7 +179,7 @@ const Dashboard = () => {
     }
 
     if (user) {
-      fetchDocuments();
+      refreshRef.current.fetchLibrary();
       
       // Set up realtime subscription
       const channel = supabase
@@ -43,7 +192,8 @@ const Dashboard = () => {
             table: 'documents'
           },
           () => {
-            fetchDocuments();
+            refreshRef.current.fetchDocuments();
+            refreshRef.current.fetchLibrary();
           }
         )
         .subscribe();
@@ -55,56 +205,248 @@ const Dashboard = () => {
     }
   }, [user, loading, navigate]);
 
-  const fetchDocuments = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('documents')
-        .select('*')
-        .order('created_at', { ascending: false });
+  const handleNewDocument = () => {
+    setIsNewDocumentOpen(true);
+  };
 
-      if (error) throw error;
-      setDocuments(data || []);
+  // New documents go into the folder being looked at
+  const targetFolder = folder && folder !== UNFILED && folder !== TRASH ? folder : null;
+
+  const handleCreateDocument = async (template: DocumentTemplate | null, values: Record<string, string>) => {
+    if (!user) return false;
+    const filled = template && fillTemplate(template, values);
+    try {
+      const id = await createDocument(user.id, {
+        title: filled ? filled.title : "Untitled Document",
+        body: filled?.body,
+        // Templates preset the assistant's writing goals
+        goals: template ? serializeWritingGoals(template.goals) : undefined,
+        folderId: targetFolder,
+      });
+      
+      navigate(`/editor/${id}`);
+      return true;
     } catch (error) {
-      console.error('Error fetching documents:', error);
+      console.error('Error creating document:', error);
       toast({
         title: "Error",
-        description: "Failed to load documents",
+        description: "Failed to create new document",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
+      return false;
     }
   };
 
-  const handleNewDocument = async () => {
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Lets the same files be picked again
+    e.target.value = "";
+    const created = await importFiles(files, targetFolder);
+    if (created.length === 0) return;
+
+    fetchDocuments();
+    fetchLibrary();
+    toast({
+      title: created.length === 1 ? "Document imported" : `${created.length} documents imported`,
+      action: created.length === 1 ? (
+        <ToastAction altText="Open" onClick={() => handleOpenDocument(created[0])}>
+          Open
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  const handleDeleteTemplate = async (template: DocumentTemplate) => {
     try {
-      const { data, error } = await supabase
-        .from('documents')
-        .insert([
-          {
-            title: 'Untitled Document',
-            content: '',
-            user_id: user?.id
-          }
-        ])
-        .select()
-        .single();
+      await deleteTemplate(template.id);
+      setUserTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      showError("Failed to delete the template");
+    }
+  };
 
-      if (error) throw error;
-      
-      navigate(`/editor/${data.id}`);
+  const handleOpenDocument = (docId: string) => {
+    navigate(`/editor/${docId}`);
+  };
+
+  // Trashed documents can't be opened, only restored or deleted
+  const handleCardClick = (doc: DocumentSummary) => {
+    if (!isTrash) {
+      handleOpenDocument(doc.id);
+    } else if (doc.user_id === user?.id) {
+      toggleSelected(doc.id);
+    }
+  };
+
+  const selectFolder = (next: string | null) => {
+    setFolder(next);
+    setPage(0);
+  };
+
+  const selectTag = (next: string | null) => {
+    setTag(next);
+    setPage(0);
+  };
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreateFolder = async (name: string) => {
+    if (!user) return false;
+    try {
+      const created = await createFolder(user.id, name);
+      setFolders(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      return true;
     } catch (error) {
-      console.error('Error creating document:', error);
+      console.error('Error creating folder:', error);
+      showError(error?.code === "23505" ? "You already have a folder with that name" : "Failed to create the folder");
+      return false;
+    }
+  };
+
+  const handleRenameFolder = async (target: Folder, name: string) => {
+    try {
+      await renameFolder(target.id, name);
+      setFolders(prev =>
+        prev.map(f => (f.id === target.id ? { ...f, name: name.trim() } : f)).sort((a, b) => a.name.localeCompare(b.name))
+      );
+      return true;
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+      showError(error?.code === "23505" ? "You already have a folder with that name" : "Failed to rename the folder");
+      return false;
+    }
+  };
+
+  const handleDeleteFolder = async (target: Folder) => {
+    try {
+      await deleteFolder(target.id);
+      setFolders(prev => prev.filter(f => f.id !== target.id));
+      if (folder === target.id) selectFolder(null);
+      fetchDocuments();
       toast({
-        title: "Error",
-        description: "Failed to create new document",
-        variant: "destructive",
+        title: "Folder deleted",
+        description: `Documents in "${target.name}" are now unfiled`,
       });
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      showError("Failed to delete the folder");
     }
   };
 
-  const handleOpenDocument = (docId: string) => {
-    navigate(`/editor/${docId}`);
+  const handleMoveDocument = async (doc: DocumentSummary, folderId: string | null) => {
+    try {
+      await moveDocumentToFolder(doc.id, folderId);
+      fetchDocuments();
+    } catch (error) {
+      console.error('Error moving document:', error);
+      showError("Failed to move the document");
+    }
+  };
+
+  const toggleSelected = (docId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(docId)) next.delete(docId);
+      else next.add(docId);
+      return next;
+    });
+  };
+
+  const refreshAfterBulkChange = () => {
+    setSelectedIds(new Set());
+    fetchDocuments();
+    fetchLibrary();
+  };
+
+  const handleRestore = async (ids: string[]) => {
+    try {
+      await restoreDocuments(ids);
+      refreshAfterBulkChange();
+      return true;
+    } catch (error) {
+      console.error('Error restoring documents:', error);
+      showError(ids.length === 1 ? "Failed to restore the document" : "Failed to restore the documents");
+      return false;
+    }
+  };
+
+  const handleMoveToTrash = async (ids: string[]) => {
+    try {
+      await moveDocumentsToTrash(ids);
+      refreshAfterBulkChange();
+      toast({
+        title: ids.length === 1 ? "Moved to trash" : `${ids.length} documents moved to trash`,
+        description: `Deleted for good after ${TRASH_RETENTION_DAYS} days`,
+        action: (
+          <ToastAction altText="Undo" onClick={() => handleRestore(ids)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error('Error moving documents to trash:', error);
+      showError(ids.length === 1 ? "Failed to move the document to the trash" : "Failed to move the documents to the trash");
+    }
+  };
+
+  const handleDeleteForever = async () => {
+    if (!confirmDeleteIds) return;
+    const ids = confirmDeleteIds;
+    setConfirmDeleteIds(null);
+    try {
+      await deleteDocumentsForever(ids);
+      refreshAfterBulkChange();
+      toast({
+        title: ids.length === 1 ? "Document deleted" : `${ids.length} documents deleted`,
+        description: "Comments, suggestions and versions were deleted with them",
+      });
+    } catch (error) {
+      console.error('Error deleting documents:', error);
+      showError(ids.length === 1 ? "Failed to delete the document" : "Failed to delete the documents");
+    }
+  };
+
+  const openExport = (ids: string[] | null) => {
+    setExportIds(ids);
+    setIsExportOpen(true);
+  };
+
+  const handleExportDocuments = async (format: ExportFormat, includeComments: boolean) => {
+    if (!user || format === "pdf") return false;
+    try {
+      const { archive, count } = await exportDocumentsZip(user.id, exportIds, format, includeComments);
+      if (count === 0) {
+        toast({ title: "Nothing to export", description: "There are no documents to export yet" });
+        return false;
+      }
+      downloadBlob(archive, `documents-${new Date().toISOString().slice(0, 10)}.zip`);
+      return true;
+    } catch (error) {
+      console.error('Error exporting documents:', error);
+      showError("Failed to export the documents");
+      return false;
+    }
+  };
+
+  const handleSaveTags = async (nextTags: string[]) => {
+    if (!taggingDocument) return false;
+    try {
+      await setDocumentTags(taggingDocument.id, nextTags);
+      fetchDocuments();
+      fetchLibrary();
+      return true;
+    } catch (error) {
+      console.error('Error saving tags:', error);
+      showError("Failed to save the tags");
+      return false;
+    }
   };
 
   const handleLogout = async () => {
@@ -139,6 +481,27 @@ const Dashboard = () => {
               <h1 className="text-2xl font-bold text-primary">WriteAssist</h1>
             </div>
             <div className="flex items-center gap-4">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={IMPORT_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={handleImportFiles}
+              />
+              <Button
+                variant="outline"
+                onClick={() => importInputRef.current?.click()}
+                disabled={importProgress?.current != null}
+                title="Import .docx, .md, .txt or .html files"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" onClick={() => openExport(null)} title="Export all your documents as a ZIP file">
+                <Download className="w-4 h-4 mr-2" />
+                Export all
+              </Button>
               <Button 
                 onClick={handleNewDocument}
                 className="bg-accent hover:bg-accent/90 text-white"
@@ -150,6 +513,9 @@ const Dashboard = () => {
                 <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center">
                   <User className="w-4 h-4 text-white" />
                 </div>
+                <Button variant="ghost" size="icon" onClick={() => navigate("/settings")} aria-label="Settings">
+                  <Settings className="w-4 h-4" />
+                </Button>
                 <Button variant="ghost" onClick={handleLogout}>
                   Logout
                 </Button>
@@ -166,53 +532,258 @@ const Dashboard = () => {
           <p className="text-gray-600">Manage and organize your writing projects</p>
         </div>
 
-        {isLoading ? (
-          <div className="text-center py-8">Loading documents...</div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {documents.map((doc) => (
-              <Card 
-                key={doc.id} 
-                className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:transform hover:scale-105"
-                onClick={() => handleOpenDocument(doc.id)}
+        <div className="flex flex-col lg:flex-row gap-8">
+          <div className="lg:w-56 shrink-0">
+            <FolderSidebar
+              folders={folders}
+              selectedFolder={folder}
+              onSelectFolder={selectFolder}
+              onCreateFolder={handleCreateFolder}
+              onRenameFolder={handleRenameFolder}
+              onDeleteFolder={handleDeleteFolder}
+              tags={tags}
+              selectedTag={tag}
+              onSelectTag={selectTag}
+            />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-col sm:flex-row gap-3 mb-6">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <Input
+                  placeholder="Search titles and text"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-9 bg-white"
+                />
+              </div>
+              <Select
+                value={sort}
+                onValueChange={(value) => {
+                  setSort(value as DocumentSort);
+                  setPage(0);
+                }}
               >
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <FileText className="w-8 h-8 text-primary mb-2" />
-                    <span className="text-xs text-gray-500 flex items-center">
-                      <Clock className="w-3 h-3 mr-1" />
-                      {new Date(doc.created_at).toLocaleDateString()}
-                    </span>
+                <SelectTrigger className="sm:w-44 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOCUMENT_SORTS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-8">Loading documents...</div>
+            ) : (
+              <>
+                {isTrash && (
+                  <div className="flex items-center gap-2 mb-4 px-4 py-3 rounded-md bg-amber-50 text-amber-800 text-sm">
+                    <Trash2 className="w-4 h-4 shrink-0" />
+                    Documents in the trash are deleted for good after {TRASH_RETENTION_DAYS} days, along with their comments, suggestions and versions.
+                  </div>
+                )}
+
+                {selectedIds.size > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-4 px-4 py-2 rounded-md border border-gray-200 bg-white">
+                    <span className="text-sm font-medium text-gray-900 mr-2">{selectedIds.size} selected</span>
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set(selectableIds))}>
+                      Select all on page
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                      Clear
+                    </Button>
+                    <div className="flex-1" />
+                    {isTrash ? (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => handleRestore([...selectedIds])}>
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Restore
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setConfirmDeleteIds([...selectedIds])}>
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete forever
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => openExport([...selectedIds])}>
+                          <Download className="w-4 h-4 mr-2" />
+                          Export
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleMoveToTrash([...selectedIds])}>
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Move to trash
+                        </Button>
+                      </>
+                    )}
                   </div>
-                  <CardTitle className="text-lg">{doc.title}</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <CardDescription className="mb-4 line-clamp-2">
-                    {doc.content || "No content yet..."}
-                  </CardDescription>
-                  <div className="flex justify-between items-center text-sm text-gray-500">
-                    <span>{getWordCount(doc.content)} words</span>
-                    <Button variant="ghost" size="sm">
-                      Open
+                )}
+
+                {documents.length === 0 && (isFiltered || isTrash) && (
+                  <div className="text-center py-8 text-gray-600">
+                    {isFiltered ? "No documents match these filters." : "The trash is empty."}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {documents.map((doc) => {
+                    const isOwner = doc.user_id === user.id;
+                    const docFolder = folders.find(f => f.id === doc.folder_id);
+                    const isSelected = selectedIds.has(doc.id);
+                    return (
+                      <Card 
+                        key={doc.id} 
+                        className={`cursor-pointer hover:shadow-lg transition-all duration-200 hover:transform hover:scale-105 ${
+                          isSelected ? "ring-2 ring-primary" : ""
+                        }`}
+                        onClick={() => handleCardClick(doc)}
+                      >
+                        <CardHeader className="pb-3">
+                          <div className="flex items-start justify-between">
+                            <div className="flex items-center gap-3 mb-2">
+                              {isOwner && (
+                                <Checkbox
+                                  checked={isSelected}
+                                  onCheckedChange={() => toggleSelected(doc.id)}
+                                  onClick={(e) => e.stopPropagation()}
+                                  aria-label={`Select ${doc.title}`}
+                                />
+                              )}
+                              <FileText className="w-8 h-8 text-primary" />
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <span className="text-xs text-gray-500 flex items-center">
+                                <Clock className="w-3 h-3 mr-1" />
+                                {new Date(doc.deleted_at || doc.updated_at).toLocaleDateString()}
+                              </span>
+                              {isOwner && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-gray-500" aria-label="Document options">
+                                      <MoreVertical className="w-4 h-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                                    {isTrash ? (
+                                      <>
+                                        <DropdownMenuItem onSelect={() => handleRestore([doc.id])}>
+                                          Restore
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem className="text-red-600" onSelect={() => setConfirmDeleteIds([doc.id])}>
+                                          Delete forever
+                                        </DropdownMenuItem>
+                                      </>
+                                    ) : (
+                                      <>
+                                        <DropdownMenuSub>
+                                          <DropdownMenuSubTrigger>Move to folder</DropdownMenuSubTrigger>
+                                          <DropdownMenuSubContent>
+                                            <DropdownMenuRadioGroup
+                                              value={doc.folder_id || UNFILED}
+                                              onValueChange={(value) => handleMoveDocument(doc, value === UNFILED ? null : value)}
+                                            >
+                                              <DropdownMenuRadioItem value={UNFILED}>No folder</DropdownMenuRadioItem>
+                                              {folders.map((f) => (
+                                                <DropdownMenuRadioItem key={f.id} value={f.id}>
+                                                  {f.name}
+                                                </DropdownMenuRadioItem>
+                                              ))}
+                                            </DropdownMenuRadioGroup>
+                                          </DropdownMenuSubContent>
+                                        </DropdownMenuSub>
+                                        <DropdownMenuItem onSelect={() => setTaggingDocument(doc)}>
+                                          Edit tags
+                                        </DropdownMenuItem>
+                                        <DropdownMenuSeparator />
+                                        <DropdownMenuItem className="text-red-600" onSelect={() => handleMoveToTrash([doc.id])}>
+                                          Move to trash
+                                        </DropdownMenuItem>
+                                      </>
+                                    )}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
+                            </div>
+                          </div>
+                          <CardTitle className="text-lg">{doc.title}</CardTitle>
+                          <div className="flex flex-wrap items-center gap-1">
+                            {!isOwner && (
+                              <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs rounded-full">
+                                Shared with you
+                              </span>
+                            )}
+                            {isOwner && docFolder && (
+                              <span className="flex items-center px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-full">
+                                <FolderIcon className="w-3 h-3 mr-1" />
+                                {docFolder.name}
+                              </span>
+                            )}
+                            {doc.tags.map((t) => (
+                              <span key={t} className="px-2 py-0.5 bg-green-50 text-green-800 text-xs rounded-full">
+                                #{t}
+                              </span>
+                            ))}
+                          </div>
+                        </CardHeader>
+                        <CardContent>
+                          <CardDescription className="mb-4 line-clamp-2">
+                            {doc.content || "No content yet..."}
+                          </CardDescription>
+                          {doc.deleted_at ? (
+                            <p className="text-sm text-red-600">
+                              Deleted for good in {daysUntilPurge(doc.deleted_at)} days
+                            </p>
+                          ) : (
+                            <div className="flex justify-between items-center text-sm text-gray-500">
+                              <span>{doc.word_count ?? getWordCount(doc.content)} words</span>
+                              <Button variant="ghost" size="sm">
+                                Open
+                              </Button>
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                  
+                  {/* New Document Card */}
+                  {page === 0 && !search.trim() && !isTrash && (
+                    <Card 
+                      className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:transform hover:scale-105 border-dashed border-2 border-gray-300 bg-gray-50"
+                      onClick={handleNewDocument}
+                    >
+                      <CardContent className="flex flex-col items-center justify-center h-48 text-gray-500">
+                        <Plus className="w-12 h-12 mb-4" />
+                        <p className="text-lg font-medium">Create New Document</p>
+                        <p className="text-sm text-center mt-2">Start blank or from a template</p>
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
+
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-center gap-4 mt-8">
+                    <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                      Previous
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      Page {page + 1} of {pageCount}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+                      Next
                     </Button>
                   </div>
-                </CardContent>
-              </Card>
-            ))}
-            
-            {/* New Document Card */}
-            <Card 
-              className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:transform hover:scale-105 border-dashed border-2 border-gray-300 bg-gray-50"
-              onClick={handleNewDocument}
-            >
-              <CardContent className="flex flex-col items-center justify-center h-48 text-gray-500">
-                <Plus className="w-12 h-12 mb-4" />
-                <p className="text-lg font-medium">Create New Document</p>
-                <p className="text-sm text-center mt-2">Start writing with AI-powered assistance</p>
-              </CardContent>
-            </Card>
+                )}
+              </>
+            )}
           </div>
-        )}
+        </div>
 
         {/* Stats Section */}
         <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -221,7 +792,7 @@ const Dashboard = () => {
               <div className="flex items-center">
                 <FileText className="w-8 h-8 text-accent mr-3" />
                 <div>
-                  <p className="text-2xl font-bold">{documents.length}</p>
+                  <p className="text-2xl font-bold">{stats.documents}</p>
                   <p className="text-gray-600">Documents</p>
                 </div>
               </div>
@@ -235,9 +806,7 @@ const Dashboard = () => {
                   <span className="text-white font-bold text-sm">W</span>
                 </div>
                 <div>
-                  <p className="text-2xl font-bold">
-                    {documents.reduce((sum, doc) => sum + getWordCount(doc.content), 0)}
-                  </p>
+                  <p className="text-2xl font-bold">{stats.words}</p>
                   <p className="text-gray-600">Total Words</p>
                 </div>
               </div>
@@ -257,6 +826,55 @@ const Dashboard = () => {
           </Card>
         </div>
       </main>
+
+      {taggingDocument && (
+        <DocumentTagsDialog
+          open
+          onOpenChange={(open) => !open && setTaggingDocument(null)}
+          documentTitle={taggingDocument.title}
+          tags={taggingDocument.tags}
+          knownTags={tags}
+          onSave={handleSaveTags}
+        />
+      )}
+
+      {importProgress && <ImportProgressCard progress={importProgress} onDismiss={dismissProgress} />}
+
+      <NewDocumentDialog
+        open={isNewDocumentOpen}
+        onOpenChange={setIsNewDocumentOpen}
+        userTemplates={userTemplates}
+        onCreate={handleCreateDocument}
+        onDeleteTemplate={handleDeleteTemplate}
+      />
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        title={exportIds ? `Export ${exportIds.length} document${exportIds.length !== 1 ? "s" : ""}` : "Export all documents"}
+        description="Your documents are downloaded together as a ZIP file."
+        formats={ZIP_EXPORT_FORMATS}
+        onExport={handleExportDocuments}
+      />
+
+      <AlertDialog open={confirmDeleteIds !== null} onOpenChange={(open) => !open && setConfirmDeleteIds(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmDeleteIds?.length === 1 ? "Delete this document forever?" : `Delete ${confirmDeleteIds?.length} documents forever?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Their comments, suggestions, versions and share links are deleted too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleDeleteForever}>
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
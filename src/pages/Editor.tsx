@@ -1,17 +1,71 @@
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useMemo, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Toggle } from "@/components/ui/toggle";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Save, ArrowLeft, Bold, Italic, Underline, User, MoreHorizontal } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Save, ArrowLeft, Bold, Italic, Underline, User, Share2, History, Undo2, Redo2, MessageSquarePlus, FilePenLine, LayoutTemplate, Upload, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { useGrammarCheck } from "@/hooks/useGrammarCheck";
+import { useGrammarCheck, Suggestion } from "@/hooks/useGrammarCheck";
 import WritingStats from "@/components/WritingStats";
 import SuggestionCard from "@/components/SuggestionCard";
+import SuggestionPopover from "@/components/SuggestionPopover";
+import VersionHistory from "@/components/VersionHistory";
+import SaveConflictDialog from "@/components/SaveConflictDialog";
+import CollaboratorAvatars from "@/components/CollaboratorAvatars";
+import ShareDialog from "@/components/ShareDialog";
+import CommentsPanel from "@/components/CommentsPanel";
+import TrackedChangeCard from "@/components/TrackedChangeCard";
+import WritingGoalsPanel from "@/components/WritingGoalsPanel";
+import SaveTemplateDialog from "@/components/SaveTemplateDialog";
+import ExportDialog from "@/components/ExportDialog";
+import ImportProgressCard from "@/components/ImportProgressCard";
+import RewritePopover from "@/components/RewritePopover";
+import { useDecorationRects } from "@/hooks/useDecorationRects";
+import { useSuppressions } from "@/hooks/useSuppressions";
+import { useDictionary } from "@/hooks/useDictionary";
+import { useVersionHistory } from "@/hooks/useVersionHistory";
+import { useCollaboration } from "@/hooks/useCollaboration";
+import { useComments } from "@/hooks/useComments";
+import { useTrackedChanges } from "@/hooks/useTrackedChanges";
+import { useDocumentImport } from "@/hooks/useDocumentImport";
+import { RewriteRequest, useSentenceRewrite } from "@/hooks/useSentenceRewrite";
+import { UndoEntry, UndoableChange, useUndoHistory } from "@/hooks/useUndoHistory";
+import { DismissReason, dismissReasonLabel } from "@/lib/suppressions";
+import type { DocumentVersion } from "@/lib/versionHistory";
+import { DocumentRow, isSameDocument, saveDocument } from "@/lib/documentSync";
+import { mergeDocuments } from "@/lib/documentMerge";
+import {
+  DocumentAccess,
+  canCommentOnDocument,
+  canEditDocument,
+  documentRoleLabel,
+  fetchDocumentAccess,
+} from "@/lib/documentMembers";
+import type { CommentThread } from "@/lib/comments";
+import { TrackedChange, TrackedChangeGroup, groupTrackedChanges, withoutTrackedChanges } from "@/lib/trackedChanges";
+import { WritingGoals, parseWritingGoals, saveDocumentGoals } from "@/lib/writingGoals";
+import { saveTemplate } from "@/lib/templates";
+import { ExportFormat, downloadBlob, exportDocument, exportFileName, printDocument, unresolvedThreads } from "@/lib/documentExport";
+import { isImportableFile } from "@/lib/documentImport";
+import { analyzeSentences } from "@/lib/textStatistics";
+import {
+  RichDocument,
+  blockText,
+  createEmptyDocument,
+  parseDocumentJson,
+  parseHtml,
+  renderHtml,
+  replaceRange,
+  toPlainText,
+} from "@/lib/documentModel";
+import { getSelectionOffsets, setSelectionOffsets } from "@/lib/editorSelection";
+import { diffText } from "@/lib/textEdits";
 
 const Editor = () => {
   const { docId } = useParams();
@@ -19,20 +73,62 @@ const Editor = () => {
   const { toast } = useToast();
   const { user, signOut } = useAuth();
   const textareaRef = useRef<HTMLDivElement>(null);
+  const surfaceContainerRef = useRef<HTMLDivElement>(null);
+  const hidePopoverTimerRef = useRef<number>();
+  const userName = user?.email?.split("@")[0] || "Someone";
+  const { words: dictionaryWords, addWord } = useDictionary(user?.id);
+  // Set once the document has loaded
+  const [goals, setGoals] = useState<WritingGoals>();
   const { 
-    suggestions, 
+    suggestions: checkedSuggestions, 
     isChecking, 
     checkText, 
     setSuggestions, 
+    applyTextChange,
+    loadStoredSuggestions,
     removeSuggestion, 
+    recordSuggestionStatus,
+    restoreSuggestions,
     clearSuggestions,
     startProcessingSuggestions,
     finishProcessingSuggestions,
     resetForNewText,
     hasCompletedAnalysis
-  } = useGrammarCheck();
+  } = useGrammarCheck({ dictionary: dictionaryWords, goals });
+  const { isSuppressed, suppress } = useSuppressions(docId, user?.id);
+  const {
+    versions,
+    isLoading: isLoadingVersions,
+    snapshot,
+    snapshotIfDue
+  } = useVersionHistory(docId, user?.id);
+  const { record: recordUndo, undo, redo, peekUndoId, clear: clearUndo, canUndo, canRedo } = useUndoHistory();
+  const {
+    threads: commentThreads,
+    draft: commentDraft,
+    startDraft: startCommentDraft,
+    cancelDraft: cancelCommentDraft,
+    addThread: addCommentThread,
+    reply: replyToComment,
+    setResolved: setCommentResolved,
+    remove: removeComment,
+    applyTextChange: moveComments,
+    persistPositions: persistCommentPositions
+  } = useComments(docId, user?.id, userName);
+  const {
+    changes: trackedChanges,
+    trackTextChange,
+    applyTextChange: moveTrackedChanges,
+    resolve: resolveTrackedChanges,
+    persistChanges: persistTrackedChanges
+  } = useTrackedChanges(docId, user?.id, userName);
+  const { progress: importProgress, importFiles, dismissProgress } = useDocumentImport(user?.id);
+  const { rewriteRequest, requestRewrite, clearRewrite } = useSentenceRewrite(goals);
   
-  const [content, setContent] = useState("");
+  const [documentBody, setDocumentBody] = useState<RichDocument>(createEmptyDocument);
+  // The document the writing surface was last rendered from. Typing updates
+  // `documentBody` from the DOM; only external changes re-render the surface.
+  const [renderedDocument, setRenderedDocument] = useState<RichDocument>(documentBody);
   const [title, setTitle] = useState("Untitled Document");
   const [isSaving, setIsSaving] = useState(false);
   const [wordCount, setWordCount] = useState(0);
@@ -43,27 +139,371 @@ const Editor = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-  const [lastAnalyzedText, setLastAnalyzedText] = useState("");
   const [isProcessingSuggestions, setIsProcessingSuggestions] = useState(false);
+  const [activeSuggestionId, setActiveSuggestionId] = useState<string | null>(null);
+  const [hoveredSuggestionId, setHoveredSuggestionId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Files dragged over the writing area are imported as new documents
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [sidebarTab, setSidebarTab] = useState("assistant");
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  // In Suggesting mode edits are recorded as proposed changes for review
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [activeChangeId, setActiveChangeId] = useState<string | null>(null);
+  // Shades hard-to-read sentences; clicking one offers a rewrite
+  const [showReadabilityHeatmap, setShowReadabilityHeatmap] = useState(false);
+  // The current user's access: owner, or their role on a shared document
+  const [access, setAccess] = useState<DocumentAccess | null>(null);
+  const canEdit = canEditDocument(access);
+  const canComment = canCommentOnDocument(access);
+  const {
+    collaborators,
+    editorsShareReplica,
+    remoteSelections,
+    remoteChanges,
+    startSession,
+    publishChange,
+    takeRemoteDocument,
+    publishSelection
+  } = useCollaboration({
+    documentId: docId,
+    userId: user?.id,
+    userName,
+    access,
+  });
+  // Set when a save found the document changed in another tab or device
+  const [saveConflict, setSaveConflict] = useState<DocumentRow | null>(null);
+  // Revision and content of the document as last loaded or saved
+  const revisionRef = useRef(0);
+  const syncedDocumentRef = useRef<RichDocument>(documentBody);
+  const saveQueueRef = useRef<Promise<boolean>>(Promise.resolve(true));
+  // Selection to restore once the surface is re-rendered for remote changes
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  const content = useMemo(() => toPlainText(documentBody), [documentBody]);
+
+  // Suggestions the user asked not to see again are never shown, and people
+  // who can't edit don't get any
+  const suggestions = useMemo(
+    () => (canEdit ? checkedSuggestions.filter(s => !isSuppressed(s)) : []),
+    [checkedSuggestions, isSuppressed, canEdit]
+  );
+
+  // Every document change goes through here so open suggestions are rebased
+  // through the edit in the same render as the text changes. Changes are
+  // recorded for undo unless `change` is null (undo and redo themselves), and
+  // tracked as proposed changes in Suggesting mode unless `track` is false.
+  // Returns the id of the undo entry.
+  const commitDocument = (
+    nextDocument: RichDocument,
+    change: UndoableChange | null = { kind: "typing" },
+    track = isSuggesting
+  ) => {
+    const undoId = change ? recordUndo(change, documentBody, nextDocument) : null;
+    const nextText = toPlainText(nextDocument);
+    applyTextChange(content, nextText);
+    moveComments(content, nextText);
+    if (track && change) {
+      trackTextChange(content, nextText);
+    } else {
+      moveTrackedChanges(content, nextText);
+    }
+    setDocumentBody(nextDocument);
+    publishChange(documentBody, nextDocument);
+    return undoId;
+  };
+
+  // Replace the document from outside the writing surface (loading, applying
+  // suggestions) and re-render the surface from the model
+  const replaceDocument = (
+    nextDocument: RichDocument,
+    change: UndoableChange | null = { kind: "edit" },
+    track = isSuggesting
+  ) => {
+    const undoId = commitDocument(nextDocument, change, track);
+    setRenderedDocument(nextDocument);
+    return undoId;
+  };
+
+  // Puts the cursor after the text that changed between two versions
+  const placeCursorAfterChange = (fromText: string, toText: string) => {
+    const edit = diffText(fromText, toText);
+    const div = textareaRef.current;
+    if (!edit || !div) return;
+    setTimeout(() => {
+      div.focus();
+      setSelectionOffsets(div, edit.start + edit.insertText.length);
+    }, 0);
+  };
+
+  const applyUndoEntry = (entry: UndoEntry, direction: "undo" | "redo") => {
+    const target = direction === "undo" ? entry.before : entry.after;
+    const targetText = toPlainText(target);
+    setHoveredSuggestionId(null);
+    replaceDocument(target, null);
+    placeCursorAfterChange(content, targetText);
+
+    if (entry.kind !== "suggestion" || !entry.applied) return;
+    if (direction === "undo") {
+      restoreSuggestions(targetText, entry.suggestionsBefore || [], entry.applied);
+      recordSuggestionStatus(entry.applied, "open");
+    } else {
+      entry.applied.forEach(suggestion => removeSuggestion(suggestion.id));
+      recordSuggestionStatus(entry.applied, "accepted");
+    }
+  };
+
+  const handleUndo = () => {
+    const entry = undo();
+    if (entry) applyUndoEntry(entry, "undo");
+  };
+
+  const handleRedo = () => {
+    const entry = redo();
+    if (entry) applyUndoEntry(entry, "redo");
+  };
+
+  // The toast's Undo only reverts its own change, and only while nothing
+  // has been changed after it
+  const handleUndoChange = (undoId: number | null) => {
+    if (undoId !== null && peekUndoId() === undoId) {
+      handleUndo();
+    } else {
+      toast({
+        title: "Can't undo",
+        description: "The document has changed since. Use Ctrl+Z to step back through your edits.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Keyboard shortcuts use the latest handlers without re-subscribing
+  const undoHandlersRef = useRef({ handleUndo, handleRedo, handleUndoChange });
+  undoHandlersRef.current = { handleUndo, handleRedo, handleUndoChange };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave other text fields their own undo
+      if ((e.target as HTMLElement | null)?.closest?.("input, textarea")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undoHandlersRef.current.handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        undoHandlersRef.current.handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useLayoutEffect(() => {
+    if (textareaRef.current) {
+      textareaRef.current.innerHTML = renderHtml(renderedDocument);
+      if (pendingSelectionRef.current) {
+        setSelectionOffsets(textareaRef.current, pendingSelectionRef.current.start, pendingSelectionRef.current.end);
+        pendingSelectionRef.current = null;
+      }
+    }
+  }, [renderedDocument, isLoading]);
+
+  // Shows collaborators' changes. They are not published again and, since
+  // an undo would also revert them, they reset the undo history.
+  const applyRemoteChanges = () => {
+    const div = textareaRef.current;
+    const selection = div && document.activeElement === div ? getSelectionOffsets(div) : null;
+    const remote = takeRemoteDocument(selection);
+    if (!remote) return;
+
+    clearUndo();
+    const remoteText = toPlainText(remote.document);
+    applyTextChange(content, remoteText);
+    moveComments(content, remoteText);
+    moveTrackedChanges(content, remoteText);
+    setDocumentBody(remote.document);
+    setRenderedDocument(remote.document);
+    pendingSelectionRef.current = remote.selection;
+  };
+
+  const applyRemoteChangesRef = useRef(applyRemoteChanges);
+  applyRemoteChangesRef.current = applyRemoteChanges;
+
+  useEffect(() => {
+    if (remoteChanges > 0) applyRemoteChangesRef.current();
+  }, [remoteChanges]);
+
+  // Share our caret and selection with collaborators
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const div = textareaRef.current;
+      if (!div) return;
+      publishSelection(document.activeElement === div ? getSelectionOffsets(div) : null);
+    };
+
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [publishSelection]);
+
+  const suggestionDecorations = useMemo(
+    () => suggestions.map(s => ({ id: s.id, start: s.position.start, end: s.position.end })),
+    [suggestions]
+  );
+  const { rects: suggestionRects, hitTest: hitTestSuggestion } = useDecorationRects(
+    surfaceContainerRef,
+    textareaRef,
+    suggestionDecorations,
+    content
+  );
+  const suggestionsById = useMemo(
+    () => new Map(suggestions.map(s => [s.id, s])),
+    [suggestions]
+  );
+
+  // Collaborators' selections, plus a caret at the end they are typing at
+  const remoteSelectionDecorations = useMemo(
+    () => remoteSelections.flatMap(s => [
+      ...(s.end > s.start ? [{ id: `${s.sessionId}:selection`, start: s.start, end: s.end }] : []),
+      { id: `${s.sessionId}:caret`, start: s.end, end: s.end },
+    ]),
+    [remoteSelections]
+  );
+  const { rects: remoteSelectionRects } = useDecorationRects(
+    surfaceContainerRef,
+    textareaRef,
+    remoteSelectionDecorations,
+    content
+  );
+  const remoteSelectionsById = useMemo(
+    () => new Map(remoteSelections.map(s => [s.sessionId, s])),
+    [remoteSelections]
+  );
+
+  // Highlights for open comment threads and the text picked for a new one
+  const commentDecorations = useMemo(
+    () => [
+      ...commentThreads
+        .filter(thread => !thread.root.resolved_at && thread.position.end > thread.position.start)
+        .map(thread => ({ id: thread.id, start: thread.position.start, end: thread.position.end })),
+      ...(commentDraft ? [{ id: "draft", start: commentDraft.position.start, end: commentDraft.position.end }] : []),
+    ],
+    [commentThreads, commentDraft]
+  );
+  const { rects: commentRects, hitTest: hitTestComment } = useDecorationRects(
+    surfaceContainerRef,
+    textareaRef,
+    commentDecorations,
+    content
+  );
+
+  // Proposed insertions are underlined and deletions marked where the text was
+  const trackedChangeDecorations = useMemo(
+    () => trackedChanges.map(change => ({ id: change.id, start: change.position.start, end: change.position.end })),
+    [trackedChanges]
+  );
+  const { rects: trackedChangeRects, hitTest: hitTestTrackedChange } = useDecorationRects(
+    surfaceContainerRef,
+    textareaRef,
+    trackedChangeDecorations,
+    content
+  );
+  const trackedChangeGroups = useMemo(() => groupTrackedChanges(trackedChanges), [trackedChanges]);
+  // Maps each change to the group it is reviewed in
+  const trackedChangeGroupIds = useMemo(
+    () => new Map(trackedChangeGroups.flatMap(group => group.changes.map(change => [change.id, group.id]))),
+    [trackedChangeGroups]
+  );
+  const trackedChangesById = useMemo(
+    () => new Map(trackedChanges.map(change => [change.id, change])),
+    [trackedChanges]
+  );
+
+  // Hard and very hard sentences, while the heatmap is on
+  const hardSentences = useMemo(
+    () => (showReadabilityHeatmap ? analyzeSentences(content).filter(sentence => sentence.difficulty) : []),
+    [content, showReadabilityHeatmap]
+  );
+  const hardSentenceDecorations = useMemo(
+    () => hardSentences.map(sentence => ({ id: `sentence-${sentence.start}`, start: sentence.start, end: sentence.end })),
+    [hardSentences]
+  );
+  const { rects: hardSentenceRects, hitTest: hitTestHardSentence } = useDecorationRects(
+    surfaceContainerRef,
+    textareaRef,
+    hardSentenceDecorations,
+    content
+  );
+  const hardSentencesById = useMemo(
+    () => new Map(hardSentences.map(sentence => [`sentence-${sentence.start}`, sentence])),
+    [hardSentences]
+  );
+
+  // The rewrite is for the sentence as it was clicked
+  useEffect(() => {
+    if (!rewriteRequest) return;
+    const { start, end, text } = rewriteRequest.sentence;
+    if (!showReadabilityHeatmap || content.slice(start, end) !== text) clearRewrite();
+  }, [content, showReadabilityHeatmap, rewriteRequest, clearRewrite]);
+
+  // Saves over the revision we last saw. Saves run one at a time so each one
+  // builds on the revision the previous one produced. Resolves to false when
+  // the save hit a conflict.
+  const persistDocument = (bodyToSave: RichDocument, titleToSave: string) => {
+    const run = async (retries = 1): Promise<boolean> => {
+      if (!docId || !user) return false;
+
+      const result = await saveDocument(docId, revisionRef.current, bodyToSave, titleToSave);
+      if (result.status === "saved") {
+        revisionRef.current = result.revision;
+        syncedDocumentRef.current = bodyToSave;
+        setLastSaved(new Date(result.updatedAt));
+        persistCommentPositions();
+        persistTrackedChanges();
+        return true;
+      }
+
+      // Edits from collaborators on our replica reach us live, so when only
+      // they could have saved, our copy already includes what they saved.
+      // Anyone else's save goes through the conflict dialog.
+      const remote = result.remote;
+      if (editorsShareReplica && retries > 0) {
+        revisionRef.current = remote.revision;
+        return run(retries - 1);
+      }
+
+      // Nothing to resolve if the other copy is the same as ours
+      if (remote.title === titleToSave && isSameDocument(remote, bodyToSave)) {
+        revisionRef.current = remote.revision;
+        syncedDocumentRef.current = bodyToSave;
+        setLastSaved(new Date(remote.updated_at));
+        persistCommentPositions();
+        persistTrackedChanges();
+        return true;
+      }
+
+      setSaveConflict(remote);
+      return false;
+    };
+
+    const saved = saveQueueRef.current.then(() => run());
+    saveQueueRef.current = saved.catch(() => false);
+    return saved;
+  };
 
   // Auto-save functionality
-  const autoSave = async (contentToSave: string, titleToSave: string) => {
-    if (!docId || !user || !hasUnsavedChanges) return;
+  const autoSave = async (bodyToSave: RichDocument, titleToSave: string) => {
+    if (!docId || !user || !hasUnsavedChanges || saveConflict || !canEdit) return;
 
     try {
-      const { error } = await supabase
-        .from('documents')
-        .update({ 
-          content: contentToSave, 
-          title: titleToSave,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', docId)
-        .eq('user_id', user.id);
-
-      if (!error) {
-        setLastSaved(new Date());
+      if (await persistDocument(bodyToSave, titleToSave)) {
         setHasUnsavedChanges(false);
+        snapshotIfDue(bodyToSave, titleToSave);
       }
     } catch (error) {
       console.error('Auto-save error:', error);
@@ -75,11 +515,11 @@ const Editor = () => {
     if (!hasUnsavedChanges) return;
 
     const autoSaveTimer = setTimeout(() => {
-      autoSave(content, title);
+      autoSave(documentBody, title);
     }, 3000);
 
     return () => clearTimeout(autoSaveTimer);
-  }, [content, title, hasUnsavedChanges, docId, user]);
+  }, [documentBody, title, hasUnsavedChanges, docId, user]);
 
   // Load document
   useEffect(() => {
@@ -91,7 +531,6 @@ const Editor = () => {
           .from('documents')
           .select('*')
           .eq('id', docId)
-          .eq('user_id', user.id)
           .single();
 
         if (error) {
@@ -105,11 +544,33 @@ const Editor = () => {
           return;
         }
 
+        // Only the owner can still read a trashed document
+        if (data?.deleted_at) {
+          toast({
+            title: "This document is in the trash",
+            description: "Restore it from the Trash to keep editing",
+          });
+          navigate("/dashboard");
+          return;
+        }
+
         if (data) {
+          setAccess(data.user_id === user.id ? "owner" : await fetchDocumentAccess(docId));
           setTitle(data.title);
-          setContent(data.content || "");
+          // No goals set is an empty set once loaded, so they can be added
+          setGoals(parseWritingGoals(data.goals) ?? {});
+          const loadedDocument = parseDocumentJson(data.body, data.content);
+          revisionRef.current = data.revision;
+          syncedDocumentRef.current = loadedDocument;
+          const loadedText = toPlainText(loadedDocument);
+          applyTextChange("", loadedText);
+          // Reuse the suggestions stored for this text before it gets checked.
+          // They already refer to the loaded text, so this follows the change above.
+          await loadStoredSuggestions(loadedText, docId, user.id);
+          setDocumentBody(loadedDocument);
+          setRenderedDocument(loadedDocument);
           setLastSaved(new Date(data.updated_at));
-          setLastAnalyzedText(data.content || "");
+          startSession(loadedDocument, data.revision);
         }
       } catch (error) {
         console.error('Error loading document:', error);
@@ -120,32 +581,29 @@ const Editor = () => {
     };
 
     loadDocument();
-  }, [docId, user, navigate, toast]);
+  }, [docId, user, navigate, toast, applyTextChange, loadStoredSuggestions, startSession]);
 
-  // Track content changes for auto-save and grammar check
+  // Track content changes for auto-save
   useEffect(() => {
     setHasUnsavedChanges(true);
-    
-    // Reset analysis state when content changes significantly
-    const currentWordCount = content.trim().split(/\s+/).filter(word => word.length > 0).length;
-    const lastWordCount = lastAnalyzedText.trim().split(/\s+/).filter(word => word.length > 0).length;
-    
-    // If word count changed significantly (more than 3 words), reset for new analysis
-    if (Math.abs(currentWordCount - lastWordCount) > 3) {
-      resetForNewText();
-    }
-  }, [content, title, resetForNewText, lastAnalyzedText]);
+  }, [content, title]);
+
+  // Any edit makes the analysis stale. Re-checking is cheap because only the
+  // paragraphs that changed are sent for analysis.
+  useEffect(() => {
+    resetForNewText();
+  }, [content, resetForNewText]);
 
   // Grammar checking - only analyze if not completed
   useEffect(() => {
-    if (content && content.trim().length > 20 && user && docId && !hasCompletedAnalysis) {
+    if (content && content.trim().length > 20 && user && docId && canEdit && !hasCompletedAnalysis) {
       const words = content.trim().split(/\s+/).filter(word => word.length > 0);
       if (words.length >= 5) {
         console.log('Checking text for grammar:', content.substring(0, 50) + '...');
         checkText(content, docId, user.id);
       }
     }
-  }, [content, checkText, user, docId, hasCompletedAnalysis]);
+  }, [content, checkText, user, docId, canEdit, hasCompletedAnalysis]);
 
   // Count words
   useEffect(() => {
@@ -170,30 +628,14 @@ const Editor = () => {
   }, [user, navigate, isLoading]);
 
   const handleSave = async () => {
-    if (!docId || !user) return;
+    if (!docId || !user || !canEdit) return;
 
     setIsSaving(true);
     try {
-      const { error } = await supabase
-        .from('documents')
-        .update({ 
-          content, 
-          title,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', docId)
-        .eq('user_id', user.id);
-
-      if (error) {
-        console.error('Error saving document:', error);
-        toast({
-          title: "Error",
-          description: "Failed to save document",
-          variant: "destructive",
-        });
-      } else {
-        setLastSaved(new Date());
+      // A conflict opens the conflict dialog instead
+      if (await persistDocument(documentBody, title)) {
         setHasUnsavedChanges(false);
+        snapshot(documentBody, title, "milestone", "Saved manually");
         toast({
           title: "Document saved",
           description: "Your changes have been saved successfully",
@@ -211,6 +653,165 @@ const Editor = () => {
     }
   };
 
+  const handleKeepMine = async () => {
+    if (!saveConflict) return;
+    revisionRef.current = saveConflict.revision;
+    setSaveConflict(null);
+
+    try {
+      if (await persistDocument(documentBody, title)) {
+        setHasUnsavedChanges(false);
+        toast({
+          title: "Document saved",
+          description: "Your version replaced the other one",
+        });
+      }
+    } catch (error) {
+      console.error('Error saving document:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save document",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUseTheirs = () => {
+    if (!saveConflict) return;
+    const theirDocument = parseDocumentJson(saveConflict.body, saveConflict.content);
+    revisionRef.current = saveConflict.revision;
+    syncedDocumentRef.current = theirDocument;
+    setSaveConflict(null);
+
+    // Recorded for undo, so switching back to our version stays possible
+    replaceDocument(theirDocument, { kind: "edit" }, false);
+    setTitle(saveConflict.title);
+    setLastSaved(new Date(saveConflict.updated_at));
+  };
+
+  const handleMergeVersions = () => {
+    if (!saveConflict) return;
+    const theirDocument = parseDocumentJson(saveConflict.body, saveConflict.content);
+    const { document: merged, conflicts } = mergeDocuments(syncedDocumentRef.current, documentBody, theirDocument);
+    revisionRef.current = saveConflict.revision;
+    syncedDocumentRef.current = theirDocument;
+    setSaveConflict(null);
+
+    replaceDocument(merged, { kind: "edit" }, false);
+    toast({
+      title: "Versions merged",
+      description: conflicts > 0
+        ? `${conflicts} passage${conflicts !== 1 ? 's were' : ' was'} changed in both versions; both copies were kept for you to tidy up`
+        : "Changes from both versions were combined",
+    });
+  };
+
+  const handleGoalsChange = async (next: WritingGoals) => {
+    if (!docId) return;
+    const previous = goals;
+    setGoals(next);
+    try {
+      await saveDocumentGoals(docId, next);
+    } catch (error) {
+      console.error('Error saving goals:', error);
+      setGoals(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save the writing goals",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFileDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDraggingFiles(true);
+  };
+
+  const handleFileDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+  };
+
+  const handleFileDrop = async (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    // Keep the browser from inserting or opening the files
+    e.preventDefault();
+    setIsDraggingFiles(false);
+
+    const files = Array.from(e.dataTransfer.files);
+    const importable = files.filter(isImportableFile);
+    if (importable.length < files.length) {
+      toast({
+        title: "Some files were skipped",
+        description: "Only .docx, .md, .txt and .html files can be imported",
+        variant: "destructive",
+      });
+    }
+
+    const created = await importFiles(importable);
+    if (created.length === 0) return;
+    toast({
+      title: created.length === 1 ? "Document imported" : `${created.length} documents imported`,
+      description: "Imported files are added as new documents",
+      action: (
+        <ToastAction
+          altText={created.length === 1 ? "Open" : "Dashboard"}
+          onClick={() => navigate(created.length === 1 ? `/editor/${created[0]}` : "/dashboard")}
+        >
+          {created.length === 1 ? "Open" : "Dashboard"}
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleSaveTemplate = async (name: string, description: string) => {
+    if (!user) return false;
+    try {
+      await saveTemplate(user.id, { name, description, title, body: documentBody, goals });
+      toast({
+        title: "Template saved",
+        description: `"${name.trim()}" is available when you create a new document`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the template",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Exports leave out changes nobody has accepted yet
+  const handleExport = async (format: ExportFormat, includeComments: boolean) => {
+    const reviewed = withoutTrackedChanges(documentBody, trackedChanges, unresolvedThreads(commentThreads));
+    const source = {
+      title,
+      body: reviewed.document,
+      comments: includeComments ? reviewed.anchored : undefined,
+    };
+    try {
+      if (format === "pdf") {
+        await printDocument(source);
+      } else {
+        downloadBlob(await exportDocument(source, format), exportFileName(title, format));
+      }
+      return true;
+    } catch (error) {
+      console.error('Error exporting document:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the document",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
   const handleBack = () => {
     navigate("/dashboard");
   };
@@ -246,7 +847,7 @@ const Editor = () => {
     
     if (selectedText) {
       // Apply document.execCommand for rich text formatting
-      document.execCommand('styleWithCSS', false, 'true');
+      document.execCommand('styleWithCSS', false, 'false');
       
       switch (format) {
         case "bold":
@@ -265,8 +866,8 @@ const Editor = () => {
           return;
       }
       
-      // Update content from the div
-      setContent(div.textContent || "");
+      // Read the formatted DOM back into the document model
+      commitDocument(parseHtml(div));
       
       // Focus back to div
       setTimeout(() => {
@@ -277,156 +878,223 @@ const Editor = () => {
     }
   };
 
-  // Improved word boundary detection
-  const findWordBoundaries = (text: string, word: string, startSearchPos: number = 0) => {
-    const searchText = text.toLowerCase();
-    const searchWord = word.toLowerCase().trim();
-    
-    // Find all occurrences of the word with word boundaries
-    const regex = new RegExp(`\\b${searchWord.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-    const matches = [];
-    let match;
-    
-    while ((match = regex.exec(text)) !== null) {
-      matches.push({
-        start: match.index,
-        end: match.index + match[0].length,
-        text: match[0]
-      });
+  const cancelHidePopover = () => {
+    window.clearTimeout(hidePopoverTimerRef.current);
+  };
+
+  const scheduleHidePopover = () => {
+    cancelHidePopover();
+    hidePopoverTimerRef.current = window.setTimeout(() => setHoveredSuggestionId(null), 250);
+  };
+
+  const handleSurfaceMouseMove = (e: React.MouseEvent) => {
+    const suggestionId = hitTestSuggestion(e.clientX, e.clientY);
+    if (suggestionId) {
+      cancelHidePopover();
+      setHoveredSuggestionId(suggestionId);
+    } else if (hoveredSuggestionId) {
+      scheduleHidePopover();
     }
-    
-    return matches;
   };
 
-  const setCursorPosition = (element: HTMLDivElement, position: number) => {
-    const range = document.createRange();
-    const selection = window.getSelection();
-    
-    if (!selection) return;
-    
-    // Find the text node and position within it
-    let currentPos = 0;
-    const walker = document.createTreeWalker(
-      element,
-      NodeFilter.SHOW_TEXT,
-      null
-    );
-    
-    let node;
-    while (node = walker.nextNode()) {
-      const nodeLength = node.textContent?.length || 0;
-      if (currentPos + nodeLength >= position) {
-        const offsetInNode = position - currentPos;
-        range.setStart(node, Math.min(offsetInNode, nodeLength));
-        range.setEnd(node, Math.min(offsetInNode, nodeLength));
-        break;
-      }
-      currentPos += nodeLength;
+  // Clicking an underline or a proposed change focuses its card in the
+  // sidebar, clicking commented text its thread, and clicking a shaded
+  // sentence offers a rewrite
+  const handleSurfaceClick = (e: React.MouseEvent) => {
+    clearRewrite();
+    const suggestionId = hitTestSuggestion(e.clientX, e.clientY);
+    setActiveSuggestionId(suggestionId);
+    if (suggestionId) {
+      setSidebarTab("assistant");
+      setTimeout(() => {
+        document
+          .querySelector(`[data-suggestion-card="${suggestionId}"]`)
+          ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+      }, 0);
+      return;
     }
-    
-    selection.removeAllRanges();
-    selection.addRange(range);
+
+    const changeId = hitTestTrackedChange(e.clientX, e.clientY);
+    const changeGroupId = changeId ? trackedChangeGroupIds.get(changeId) ?? null : null;
+    setActiveChangeId(changeGroupId);
+    if (changeGroupId) {
+      setSidebarTab("changes");
+      setTimeout(() => {
+        document
+          .querySelector(`[data-tracked-change-card="${changeGroupId}"]`)
+          ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+      }, 0);
+      return;
+    }
+
+    const commentId = hitTestComment(e.clientX, e.clientY);
+    setActiveCommentId(commentId === "draft" ? null : commentId);
+    if (commentId && commentId !== "draft") {
+      setSidebarTab("comments");
+      setTimeout(() => {
+        document
+          .querySelector(`[data-comment-thread="${commentId}"]`)
+          ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+      }, 0);
+      return;
+    }
+
+    const sentenceId = hitTestHardSentence(e.clientX, e.clientY);
+    const sentence = sentenceId ? hardSentencesById.get(sentenceId) : undefined;
+    if (sentence) requestRewrite(sentence);
   };
 
-  const handleAcceptSuggestion = (suggestion: any) => {
-    console.log('Accepting suggestion:', suggestion);
-    
-    setIsProcessingSuggestions(true);
-    startProcessingSuggestions();
-    
-    // Validate position bounds
-    if (suggestion.position.start < 0 || 
-        suggestion.position.end > content.length || 
-        suggestion.position.start >= suggestion.position.end) {
-      console.error('Invalid suggestion position:', suggestion.position);
+  const handleAcceptRewrite = ({ sentence, rewrite }: RewriteRequest) => {
+    if (!rewrite) return;
+    clearRewrite();
+    const { start, end } = sentence;
+    if (content.slice(start, end) !== sentence.text) {
       toast({
         title: "Error",
-        description: "Cannot apply suggestion - invalid position",
+        description: "Cannot apply the rewrite - the sentence has changed.",
         variant: "destructive",
       });
-      finishProcessingSuggestions();
       return;
     }
 
-    // Extract the text that should be at the position
-    const actualText = content.substring(suggestion.position.start, suggestion.position.end);
-    console.log('Position check - Expected:', suggestion.original, 'Actual:', actualText);
-    
-    let correctedPosition = { ...suggestion.position };
-    let foundMatch = false;
-
-    // First try exact match
-    if (actualText === suggestion.original) {
-      foundMatch = true;
-    } 
-    // Then try case-insensitive match
-    else if (actualText.toLowerCase().trim() === suggestion.original.toLowerCase().trim()) {
-      foundMatch = true;
+    const undoId = replaceDocument(replaceRange(documentBody, start, end, rewrite.text));
+    toast({
+      title: "Sentence rewritten",
+      action: (
+        <ToastAction altText="Undo" onClick={() => undoHandlersRef.current.handleUndoChange(undoId)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  // Starts a thread on the selected text
+  const handleStartComment = () => {
+    const div = textareaRef.current;
+    const selection = div ? getSelectionOffsets(div) : null;
+    if (!selection || selection.start === selection.end) {
+      toast({
+        title: "Select some text",
+        description: "Select the text you want to comment on first",
+      });
+      return;
     }
-    // If no match, use word boundary detection to find the correct position
-    else {
-      console.warn('Position mismatch, searching for correct word boundary...');
-      
-      // Find all word boundaries for this word
-      const wordMatches = findWordBoundaries(content, suggestion.original);
-      
-      if (wordMatches.length > 0) {
-        // Find the closest match to the suggested position
-        let closestMatch = wordMatches[0];
-        let minDistance = Math.abs(wordMatches[0].start - suggestion.position.start);
-        
-        for (const match of wordMatches) {
-          const distance = Math.abs(match.start - suggestion.position.start);
-          if (distance < minDistance) {
-            minDistance = distance;
-            closestMatch = match;
-          }
-        }
-        
-        // Use the closest match
-        correctedPosition.start = closestMatch.start;
-        correctedPosition.end = closestMatch.end;
-        foundMatch = true;
-        console.log('Found word boundary match:', correctedPosition);
-      }
+
+    startCommentDraft(selection, content.slice(selection.start, selection.end));
+    setActiveCommentId(null);
+    setSidebarTab("comments");
+  };
+
+  // Focusing a proposed change scrolls it into view
+  const handleFocusChange = (group: TrackedChangeGroup) => {
+    setActiveChangeId(group.id);
+    const container = surfaceContainerRef.current;
+    const rect = trackedChangeRects.find(r => group.changes.some(change => change.id === r.id));
+    if (container && rect && (rect.top < container.scrollTop || rect.top > container.scrollTop + container.clientHeight - rect.height)) {
+      container.scrollTo({ top: rect.top - container.clientHeight / 3, behavior: "smooth" });
+    }
+  };
+
+  // Accepting keeps the text as it is and only drops the marks
+  const handleAcceptChange = (group: TrackedChangeGroup) => {
+    resolveTrackedChanges(group.changes.map(change => change.id));
+    setActiveChangeId(null);
+  };
+
+  // Rejecting puts the text back the way it was before the changes. The
+  // changes are dropped first so the edit only moves the remaining ones.
+  const rejectChanges = (changes: TrackedChange[]) => {
+    resolveTrackedChanges(changes.map(change => change.id));
+    replaceDocument(withoutTrackedChanges(documentBody, changes).document, { kind: "edit" }, false);
+  };
+
+  const handleRejectChange = (group: TrackedChangeGroup) => {
+    rejectChanges(group.changes);
+    setActiveChangeId(null);
+  };
+
+  const handleAcceptAllChanges = () => {
+    if (trackedChanges.length === 0) return;
+    resolveTrackedChanges(trackedChanges.map(change => change.id));
+    setActiveChangeId(null);
+    toast({
+      title: "All changes accepted",
+      description: `Accepted ${trackedChangeGroups.length} proposed change${trackedChangeGroups.length !== 1 ? 's' : ''}`,
+    });
+  };
+
+  const handleRejectAllChanges = () => {
+    if (trackedChanges.length === 0) return;
+    snapshot(documentBody, title, "milestone", "Before rejecting all changes");
+    rejectChanges(trackedChanges);
+    setActiveChangeId(null);
+    toast({
+      title: "All changes rejected",
+      description: `Rejected ${trackedChangeGroups.length} proposed change${trackedChangeGroups.length !== 1 ? 's' : ''}`,
+    });
+  };
+
+  // Focusing a thread scrolls its text into view
+  const handleFocusComment = (thread: CommentThread) => {
+    setActiveCommentId(thread.id);
+    const container = surfaceContainerRef.current;
+    const rect = commentRects.find(r => r.id === thread.id);
+    if (container && rect && (rect.top < container.scrollTop || rect.top > container.scrollTop + container.clientHeight - rect.height)) {
+      container.scrollTo({ top: rect.top - container.clientHeight / 3, behavior: "smooth" });
+    }
+  };
+
+  // Focusing a card scrolls its underline into view
+  const handleFocusSuggestion = (suggestion: Suggestion) => {
+    setActiveSuggestionId(suggestion.id);
+    const container = surfaceContainerRef.current;
+    const rect = suggestionRects.find(r => r.id === suggestion.id);
+    if (container && rect && (rect.top < container.scrollTop || rect.top > container.scrollTop + container.clientHeight - rect.height)) {
+      container.scrollTo({ top: rect.top - container.clientHeight / 3, behavior: "smooth" });
     }
+  };
 
-    if (!foundMatch) {
-      console.error('Could not find matching text for suggestion');
+  const handleAcceptSuggestion = (suggestion: Suggestion) => {
+    console.log('Accepting suggestion:', suggestion);
+    
+    setIsProcessingSuggestions(true);
+    startProcessingSuggestions();
+    
+    // Positions are kept in sync with every edit, so the suggestion either still
+    // covers exactly its original text or it has become stale
+    const { start, end } = suggestion.position;
+    if (start < 0 || end > content.length || start >= end || content.slice(start, end) !== suggestion.original) {
+      console.error('Suggestion no longer matches the text:', suggestion);
+      removeSuggestion(suggestion.id);
       toast({
         title: "Error",
         description: "Cannot apply suggestion - text has changed. Please refresh suggestions.",
         variant: "destructive",
       });
-      
+      setIsProcessingSuggestions(false);
       finishProcessingSuggestions();
       return;
     }
 
-    // Apply the correction using the corrected position
-    const beforeText = content.substring(0, correctedPosition.start);
-    const afterText = content.substring(correctedPosition.end);
-    const newContent = beforeText + suggestion.correction + afterText;
-    
-    console.log('Applying correction:', {
-      before: content.substring(correctedPosition.start, correctedPosition.end),
-      after: suggestion.correction,
-      position: correctedPosition
-    });
-    
-    // Update content
-    setContent(newContent);
-    
-    // Remove this specific suggestion
+    // Remove this specific suggestion before the edit rebases the others
     removeSuggestion(suggestion.id);
+    recordSuggestionStatus([suggestion], "accepted");
+    setHoveredSuggestionId(null);
+
+    // Update the document, keeping the formatting around the correction
+    const undoId = replaceDocument(replaceRange(documentBody, start, end, suggestion.correction), {
+      kind: "suggestion",
+      applied: [suggestion],
+      suggestionsBefore: checkedSuggestions.filter(s => !s.ruleId),
+    });
     
     // Update cursor position to be after the correction
     if (textareaRef.current) {
-      const newPosition = correctedPosition.start + suggestion.correction.length;
+      const newPosition = start + suggestion.correction.length;
       setTimeout(() => {
         if (textareaRef.current) {
           textareaRef.current.focus();
-          setCursorPosition(textareaRef.current, newPosition);
+          setSelectionOffsets(textareaRef.current, newPosition);
         }
       }, 0);
     }
@@ -434,6 +1102,11 @@ const Editor = () => {
     toast({
       title: "Suggestion applied",
       description: `Changed "${suggestion.original}" to "${suggestion.correction}"`,
+      action: (
+        <ToastAction altText="Undo" onClick={() => undoHandlersRef.current.handleUndoChange(undoId)}>
+          Undo
+        </ToastAction>
+      ),
     });
 
     setTimeout(() => {
@@ -442,8 +1115,10 @@ const Editor = () => {
     }, 500);
   };
 
-  const handleRejectSuggestion = (suggestion: any) => {
+  const handleRejectSuggestion = (suggestion: Suggestion) => {
     removeSuggestion(suggestion.id);
+    recordSuggestionStatus([suggestion], "dismissed");
+    setHoveredSuggestionId(null);
     
     toast({
       title: "Suggestion rejected",
@@ -451,50 +1126,85 @@ const Editor = () => {
     });
   };
 
+  const handleAddToDictionary = async (suggestion: Suggestion) => {
+    const word = suggestion.original.trim();
+    if (await addWord(word)) {
+      setHoveredSuggestionId(null);
+      toast({
+        title: "Added to dictionary",
+        description: `"${word}" won't be flagged as a misspelling again`,
+      });
+    }
+  };
+
+  const handleDismissSuggestion = (suggestion: Suggestion, reason: DismissReason, thisDocumentOnly: boolean) => {
+    removeSuggestion(suggestion.id);
+    recordSuggestionStatus([suggestion], "dismissed", reason);
+    setHoveredSuggestionId(null);
+    suppress(suggestion, reason, thisDocumentOnly);
+
+    toast({
+      title: "Suggestion dismissed",
+      description: thisDocumentOnly
+        ? `${dismissReasonLabel(reason)}: you won't see this suggestion in this document again`
+        : `${dismissReasonLabel(reason)}: you won't see this suggestion again`,
+    });
+  };
+
+  const handleRestoreVersion = async (version: DocumentVersion) => {
+    // Keep the text being replaced so the restore can itself be undone
+    await snapshot(documentBody, title, "milestone", "Before restoring a version");
+    replaceDocument(parseDocumentJson(version.body, version.content));
+    setTitle(version.title);
+    setIsHistoryOpen(false);
+
+    toast({
+      title: "Version restored",
+      description: `Restored the version from ${new Date(version.created_at).toLocaleString()}`,
+    });
+  };
+
   const handleAcceptAllSuggestions = () => {
     if (suggestions.length === 0) return;
 
     setIsProcessingSuggestions(true);
     startProcessingSuggestions();
     
-    // Sort suggestions by position (start from the end to avoid position shifts)
+    // Apply from the end of the document backwards so earlier positions stay valid
     const sortedSuggestions = [...suggestions].sort((a, b) => b.position.start - a.position.start);
     
-    let newContent = content;
-    let appliedCount = 0;
+    let newDocument = documentBody;
+    const applied: Suggestion[] = [];
+    let appliedFrom = content.length;
     
     sortedSuggestions.forEach((suggestion) => {
-      // Use word boundary detection for each suggestion
-      const wordMatches = findWordBoundaries(newContent, suggestion.original);
-      
-      if (wordMatches.length > 0) {
-        // Find the match closest to the suggested position
-        let closestMatch = wordMatches[0];
-        let minDistance = Math.abs(wordMatches[0].start - suggestion.position.start);
-        
-        for (const match of wordMatches) {
-          const distance = Math.abs(match.start - suggestion.position.start);
-          if (distance < minDistance) {
-            minDistance = distance;
-            closestMatch = match;
-          }
-        }
-        
-        // Apply the correction
-        const beforeText = newContent.substring(0, closestMatch.start);
-        const afterText = newContent.substring(closestMatch.end);
-        newContent = beforeText + suggestion.correction + afterText;
-        appliedCount++;
-      }
+      const { start, end } = suggestion.position;
+      // Skip suggestions overlapping one that was already applied, or stale ones
+      if (end > appliedFrom || content.slice(start, end) !== suggestion.original) return;
+
+      newDocument = replaceRange(newDocument, start, end, suggestion.correction);
+      appliedFrom = start;
+      applied.push(suggestion);
     });
     
-    if (appliedCount > 0) {
-      setContent(newContent);
+    if (applied.length > 0) {
+      snapshot(documentBody, title, "milestone", "Before Accept All");
+      recordSuggestionStatus(applied, "accepted");
       clearSuggestions();
+      const undoId = replaceDocument(newDocument, {
+        kind: "suggestion",
+        applied,
+        suggestionsBefore: checkedSuggestions.filter(s => !s.ruleId),
+      });
       
       toast({
         title: "All suggestions applied",
-        description: `Applied ${appliedCount} suggestions successfully`,
+        description: `Applied ${applied.length} suggestions successfully`,
+        action: (
+          <ToastAction altText="Undo" onClick={() => undoHandlersRef.current.handleUndoChange(undoId)}>
+            Undo
+          </ToastAction>
+        ),
       });
     } else {
       toast({
@@ -525,6 +1235,18 @@ const Editor = () => {
     return `${diffHours} hours ago`;
   };
 
+  const openCommentCount = commentThreads.filter(thread => !thread.root.resolved_at).length;
+
+  const hoveredSuggestion = hoveredSuggestionId ? suggestionsById.get(hoveredSuggestionId) : undefined;
+  const hoveredSuggestionAnchor = hoveredSuggestion
+    ? suggestionRects.find(rect => rect.id === hoveredSuggestion.id)
+    : undefined;
+
+  // Below the sentence's last line, so the popover doesn't cover it
+  const rewriteAnchor = rewriteRequest
+    ? hardSentenceRects.filter(rect => rect.id === `sentence-${rewriteRequest.sentence.start}`).pop()
+    : undefined;
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
@@ -551,17 +1273,45 @@ const Editor = () => {
             <div>
               <h1 className="text-lg font-semibold text-gray-900">{title}</h1>
               <p className="text-sm text-gray-500">
-                {hasUnsavedChanges ? "Saving..." : formatLastSaved()}
+                {access && !canEdit
+                  ? `${documentRoleLabel(access)} access · ${formatLastSaved()}`
+                  : hasUnsavedChanges ? "Saving..." : formatLastSaved()}
               </p>
             </div>
           </div>
           
           <div className="flex items-center gap-3">
+            <CollaboratorAvatars collaborators={collaborators} />
+
+            <div className="flex items-center gap-1 p-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleUndo}
+                disabled={!canUndo}
+                className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRedo}
+                disabled={!canRedo}
+                className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="w-4 h-4" />
+              </Button>
+            </div>
+
             {/* Enhanced Formatting Toolbar */}
             <div className="flex items-center gap-1 mr-4 p-1 bg-gray-50 rounded-lg border">
               <Toggle
                 pressed={isBold}
                 onPressedChange={() => applyFormatting("bold")}
+                disabled={!canEdit}
                 size="sm"
                 className="h-8 w-8 p-0 data-[state=on]:bg-blue-100 data-[state=on]:text-blue-700"
               >
@@ -570,6 +1320,7 @@ const Editor = () => {
               <Toggle
                 pressed={isItalic}
                 onPressedChange={() => applyFormatting("italic")}
+                disabled={!canEdit}
                 size="sm"
                 className="h-8 w-8 p-0 data-[state=on]:bg-blue-100 data-[state=on]:text-blue-700"
               >
@@ -578,6 +1329,7 @@ const Editor = () => {
               <Toggle
                 pressed={isUnderline}
                 onPressedChange={() => applyFormatting("underline")}
+                disabled={!canEdit}
                 size="sm"
                 className="h-8 w-8 p-0 data-[state=on]:bg-blue-100 data-[state=on]:text-blue-700"
               >
@@ -588,9 +1340,67 @@ const Editor = () => {
             <Button
               variant="ghost"
               size="sm"
+              onClick={() => setIsHistoryOpen(true)}
+              className="text-gray-600 hover:text-gray-900"
+              title="Version history"
+            >
+              <History className="w-4 h-4" />
+            </Button>
+
+            <Toggle
+              pressed={isSuggesting}
+              onPressedChange={setIsSuggesting}
+              disabled={!canEdit}
+              size="sm"
+              className="h-8 px-2 text-gray-600 data-[state=on]:bg-green-100 data-[state=on]:text-green-800"
+              title="Suggesting: your edits are recorded as proposed changes"
+            >
+              <FilePenLine className="w-4 h-4 mr-1" />
+              Suggesting
+            </Toggle>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              // Keep the selection in the document when clicked
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={handleStartComment}
+              disabled={!canComment}
               className="text-gray-600 hover:text-gray-900"
+              title="Comment on the selected text"
             >
-              <MoreHorizontal className="w-4 h-4" />
+              <MessageSquarePlus className="w-4 h-4 mr-1" />
+              Comment
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSaveTemplateOpen(true)}
+              className="text-gray-600 hover:text-gray-900"
+              title="Save as template"
+            >
+              <LayoutTemplate className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsExportOpen(true)}
+              className="text-gray-600 hover:text-gray-900"
+              title="Export"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsShareOpen(true)}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              <Share2 className="w-4 h-4 mr-1" />
+              Share
             </Button>
             
             <div className="flex items-center gap-3 ml-4">
@@ -612,139 +1422,387 @@ const Editor = () => {
       {/* Main Editor Layout - Grammarly Style */}
       <div className="flex-1 flex bg-gray-50">
         {/* Writing Area */}
-        <div className="flex-1 flex justify-center py-8">
+        <div
+          className="relative flex-1 flex justify-center py-8"
+          onDragOver={handleFileDragOver}
+          onDragLeave={handleFileDragLeave}
+          onDrop={handleFileDrop}
+        >
+          {isDraggingFiles && (
+            <div className="pointer-events-none absolute inset-4 z-40 flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-primary bg-primary/5 text-primary">
+              <Upload className="w-8 h-8 mb-2" />
+              <p className="font-medium">Drop files to import them as new documents</p>
+              <p className="text-sm">.docx, .md, .txt and .html</p>
+            </div>
+          )}
           <div className="w-full max-w-4xl bg-white rounded-lg shadow-sm border border-gray-200 mx-6">
-            <div className="p-8">
+            <div
+              ref={surfaceContainerRef}
+              className="relative p-8 h-[calc(100vh-216px)] overflow-y-auto"
+              onMouseMove={handleSurfaceMouseMove}
+              onMouseLeave={() => hoveredSuggestionId && scheduleHidePopover()}
+              onClick={handleSurfaceClick}
+            >
               <div
                 ref={textareaRef}
-                contentEditable
+                contentEditable={canEdit}
                 suppressContentEditableWarning={true}
-                onInput={(e) => setContent(e.currentTarget.textContent || "")}
-                className="w-full h-[calc(100vh-280px)] resize-none border-0 outline-none text-gray-900 text-lg leading-relaxed focus:outline-none"
+                onInput={(e) => commitDocument(parseHtml(e.currentTarget))}
+                className="editor-surface relative w-full min-h-full resize-none border-0 outline-none text-gray-900 text-lg leading-relaxed focus:outline-none"
                 style={{ 
                   fontFamily: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
                   lineHeight: '1.8'
                 }}
                 data-placeholder="Start writing, or paste your document here to check for grammar, spelling, and style suggestions."
-                dangerouslySetInnerHTML={{ __html: content }}
+                data-empty={content.length === 0 && documentBody.blocks.length === 1}
               />
+
+              {/* Readability heatmap, under everything else */}
+              <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+                {hardSentenceRects.map((rect, index) => {
+                  const sentence = hardSentencesById.get(rect.id);
+                  if (!sentence) return null;
+                  const isOpen = rewriteRequest?.sentence.start === sentence.start;
+                  return (
+                    <div
+                      key={`${rect.id}-${index}`}
+                      className={`absolute ${
+                        sentence.difficulty === "very-hard"
+                          ? isOpen ? "bg-red-300/60" : "bg-red-200/50"
+                          : isOpen ? "bg-amber-300/60" : "bg-amber-100/70"
+                      }`}
+                      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                    />
+                  );
+                })}
+              </div>
+
+              {/* Highlights over commented text */}
+              <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+                {commentRects.map((rect, index) => (
+                  <div
+                    key={`${rect.id}-${index}`}
+                    className={`absolute rounded-sm ${
+                      rect.id === activeCommentId || rect.id === "draft" ? "bg-yellow-300/60" : "bg-yellow-200/40"
+                    }`}
+                    style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                  />
+                ))}
+              </div>
+
+              {/* Proposed changes: inserted text underlined, deleted text struck
+                  through above where it was */}
+              <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+                {trackedChangeRects.map((rect, index) => {
+                  const change = trackedChangesById.get(rect.id);
+                  if (!change) return null;
+                  const isFocused = trackedChangeGroupIds.get(rect.id) === activeChangeId;
+                  if (change.kind === "insertion") {
+                    return (
+                      <div
+                        key={`${rect.id}-${index}`}
+                        className={`absolute border-b-2 border-green-600 ${isFocused ? "bg-green-200/60" : "bg-green-100/40"}`}
+                        style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                      />
+                    );
+                  }
+                  return (
+                    <div
+                      key={`${rect.id}-${index}`}
+                      className="absolute w-0.5 bg-red-500"
+                      style={{ left: rect.left - 1, top: rect.top, height: rect.height }}
+                    >
+                      <span
+                        className={`absolute bottom-full left-0 max-w-[16rem] truncate px-1 rounded-sm border text-[11px] leading-4 line-through whitespace-nowrap ${
+                          isFocused ? "bg-red-100 border-red-300 text-red-800" : "bg-red-50 border-red-200 text-red-700"
+                        }`}
+                      >
+                        {change.text}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Squiggly underlines drawn over the suggestion ranges */}
+              <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+                {suggestionRects.map((rect, index) => {
+                  const suggestion = suggestionsById.get(rect.id);
+                  if (!suggestion) return null;
+                  const isFocused = rect.id === activeSuggestionId || rect.id === hoveredSuggestionId;
+                  return (
+                    <div
+                      key={`${rect.id}-${index}`}
+                      className={`suggestion-underline suggestion-underline--${suggestion.type}${isFocused ? " is-active" : ""}`}
+                      style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                    />
+                  );
+                })}
+              </div>
+
+              {/* Collaborators' selections and carets */}
+              <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+                {remoteSelectionRects.map((rect, index) => {
+                  const [sessionId, part] = rect.id.split(":");
+                  const selection = remoteSelectionsById.get(sessionId);
+                  if (!selection) return null;
+                  if (part === "selection") {
+                    return (
+                      <div
+                        key={`${rect.id}-${index}`}
+                        className="absolute rounded-sm opacity-20"
+                        style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height, backgroundColor: selection.color }}
+                      />
+                    );
+                  }
+                  return (
+                    <div
+                      key={`${rect.id}-${index}`}
+                      className="absolute w-0.5"
+                      style={{ left: rect.left - 1, top: rect.top, height: rect.height, backgroundColor: selection.color }}
+                    >
+                      <span
+                        className="absolute bottom-full left-0 px-1 rounded-sm text-[10px] leading-4 text-white whitespace-nowrap"
+                        style={{ backgroundColor: selection.color }}
+                      >
+                        {selection.name}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {rewriteRequest && rewriteAnchor && (
+                <RewritePopover
+                  request={rewriteRequest}
+                  anchor={rewriteAnchor}
+                  onAccept={canEdit ? handleAcceptRewrite : undefined}
+                  onRetry={(request) => requestRewrite(request.sentence)}
+                  onDismiss={clearRewrite}
+                />
+              )}
+
+              {hoveredSuggestion && hoveredSuggestionAnchor && (
+                <SuggestionPopover
+                  suggestion={hoveredSuggestion}
+                  anchor={hoveredSuggestionAnchor}
+                  onAccept={handleAcceptSuggestion}
+                  onReject={handleRejectSuggestion}
+                  onMouseEnter={cancelHidePopover}
+                  onMouseLeave={scheduleHidePopover}
+                />
+              )}
             </div>
           </div>
         </div>
 
         {/* Grammarly-style Sidebar */}
-        <div className="w-80 bg-white border-l border-gray-200 flex flex-col">
-          {/* Sidebar Header */}
-          <div className="p-6 border-b border-gray-200">
-            <div className="flex items-center gap-3 mb-4">
-              <div className="w-6 h-6 bg-green-600 rounded flex items-center justify-center">
-                <div className="w-3 h-3 bg-white rounded-full"></div>
+        <Tabs value={sidebarTab} onValueChange={setSidebarTab} className="w-80 bg-white border-l border-gray-200 flex flex-col">
+          <TabsList className="grid grid-cols-3 mx-6 mt-4">
+            <TabsTrigger value="assistant" className="px-2 text-xs">Assistant</TabsTrigger>
+            <TabsTrigger value="comments" className="px-2 text-xs">
+              Comments{openCommentCount > 0 ? ` (${openCommentCount})` : ""}
+            </TabsTrigger>
+            <TabsTrigger value="changes" className="px-2 text-xs">
+              Changes{trackedChangeGroups.length > 0 ? ` (${trackedChangeGroups.length})` : ""}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="assistant" className="flex-1 flex flex-col min-h-0 mt-0">
+            {/* Sidebar Header */}
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-6 h-6 bg-green-600 rounded flex items-center justify-center">
+                  <div className="w-3 h-3 bg-white rounded-full"></div>
+                </div>
+                <h2 className="text-lg font-semibold text-gray-900">Writing Assistant</h2>
+                {isChecking && (
+                  <div className="w-4 h-4 border-2 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+                )}
               </div>
-              <h2 className="text-lg font-semibold text-gray-900">Writing Assistant</h2>
-              {isChecking && (
-                <div className="w-4 h-4 border-2 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+            
+              {/* Goals Section */}
+              {goals && (
+                <WritingGoalsPanel goals={goals} onChange={access === "owner" ? handleGoalsChange : undefined} />
               )}
             </div>
-            
-            {/* Goals Section */}
-            <div className="bg-gray-50 rounded-lg p-4">
-              <h3 className="text-sm font-medium text-gray-900 mb-2">Goals</h3>
-              <div className="flex flex-wrap gap-2">
-                <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">Correctness</span>
-                <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">Clarity</span>
-                <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full">Engagement</span>
+
+            {/* Suggestions with Accept All button */}
+            <div className="flex-1 overflow-y-auto p-6">
+              {access && !canEdit ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-600 font-medium">
+                    {access === "commenter" ? "You can comment on this document" : "You can view this document"}
+                  </p>
+                  <p className="text-gray-500 text-sm mt-1">Writing suggestions are only shown to editors.</p>
+                </div>
+              ) : suggestions.length > 0 ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-medium text-gray-900">
+                      {suggestions.length} suggestion{suggestions.length !== 1 ? 's' : ''}
+                    </h3>
+                    <Button
+                      onClick={handleAcceptAllSuggestions}
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700 text-white text-xs h-7 px-3"
+                      disabled={isProcessingSuggestions}
+                    >
+                      Accept All
+                    </Button>
+                  </div>
+                  {/* Sort suggestions by priority: grammar > spelling > punctuation > style */}
+                  {[...suggestions]
+                    .sort((a, b) => {
+                      const priority = { grammar: 0, spelling: 1, punctuation: 2, style: 3 };
+                      return priority[a.type] - priority[b.type];
+                    })
+                    .map((suggestion) => (
+                      <SuggestionCard
+                        key={suggestion.id}
+                        suggestion={suggestion}
+                        onAccept={handleAcceptSuggestion}
+                        onReject={handleRejectSuggestion}
+                        onDismiss={handleDismissSuggestion}
+                        onAddToDictionary={handleAddToDictionary}
+                        isActive={suggestion.id === activeSuggestionId}
+                        onFocus={handleFocusSuggestion}
+                      />
+                    ))}
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  {isChecking ? (
+                    <div>
+                      <div className="w-8 h-8 border-2 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
+                      <p className="text-gray-600">Analyzing your text...</p>
+                    </div>
+                  ) : hasCompletedAnalysis ? (
+                    <div>
+                      <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                        <div className="w-6 h-6 bg-green-600 rounded-full"></div>
+                      </div>
+                      <p className="text-gray-600 font-medium">Great writing!</p>
+                      <p className="text-gray-500 text-sm mt-1">No writing issues found</p>
+                    </div>
+                  ) : (
+                    <div>
+                      <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                        <div className="w-6 h-6 bg-gray-400 rounded-full"></div>
+                      </div>
+                      <p className="text-gray-600">Start writing to get suggestions</p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Performance Stats */}
+            <div className="border-t border-gray-200 p-6">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Performance</h3>
+              <div className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Overall score</span>
+                  <span className="font-medium text-green-600">
+                    {suggestions.length === 0 ? '95' : Math.max(70, 95 - suggestions.length * 5)}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Correctness</span>
+                  <span className="font-medium">
+                    {suggestions.filter(s => s.type === 'grammar' || s.type === 'spelling').length === 0 ? '95' : '85'}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Clarity</span>
+                  <span className="font-medium">
+                    {suggestions.filter(s => s.type === 'style').length === 0 ? '90' : '80'}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Engagement</span>
+                  <span className="font-medium">87</span>
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Suggestions with Accept All button */}
-          <div className="flex-1 overflow-y-auto p-6">
-            {suggestions.length > 0 ? (
+            {/* Readability */}
+            <div className="border-t border-gray-200 p-6">
+              <WritingStats
+                content={content}
+                showHeatmap={showReadabilityHeatmap}
+                onShowHeatmapChange={setShowReadabilityHeatmap}
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="comments" className="flex-1 overflow-y-auto p-6 mt-0">
+            <CommentsPanel
+              threads={commentThreads}
+              draft={commentDraft}
+              activeThreadId={activeCommentId}
+              currentUserId={user?.id || ""}
+              canComment={canComment}
+              isOwner={access === "owner"}
+              onSubmitDraft={addCommentThread}
+              onCancelDraft={cancelCommentDraft}
+              onReply={replyToComment}
+              onSetResolved={setCommentResolved}
+              onDelete={removeComment}
+              onFocusThread={handleFocusComment}
+            />
+          </TabsContent>
+
+          <TabsContent value="changes" className="flex-1 overflow-y-auto p-6 mt-0">
+            {trackedChangeGroups.length > 0 ? (
               <div className="space-y-4">
                 <div className="flex items-center justify-between mb-3">
                   <h3 className="text-sm font-medium text-gray-900">
-                    {suggestions.length} suggestion{suggestions.length !== 1 ? 's' : ''}
+                    {trackedChangeGroups.length} proposed change{trackedChangeGroups.length !== 1 ? 's' : ''}
                   </h3>
-                  <Button
-                    onClick={handleAcceptAllSuggestions}
-                    size="sm"
-                    className="bg-green-600 hover:bg-green-700 text-white text-xs h-7 px-3"
-                    disabled={isProcessingSuggestions}
-                  >
-                    Accept All
-                  </Button>
+                  {canEdit && (
+                    <div className="flex gap-1">
+                      <Button
+                        onClick={handleRejectAllChanges}
+                        size="sm"
+                        variant="outline"
+                        className="border-gray-300 text-gray-700 text-xs h-7 px-2"
+                      >
+                        Reject All
+                      </Button>
+                      <Button
+                        onClick={handleAcceptAllChanges}
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700 text-white text-xs h-7 px-2"
+                      >
+                        Accept All
+                      </Button>
+                    </div>
+                  )}
                 </div>
-                {/* Sort suggestions by priority: grammar > spelling > punctuation > style */}
-                {[...suggestions]
-                  .sort((a, b) => {
-                    const priority = { grammar: 0, spelling: 1, punctuation: 2, style: 3 };
-                    return priority[a.type] - priority[b.type];
-                  })
-                  .map((suggestion) => (
-                    <SuggestionCard
-                      key={suggestion.id}
-                      suggestion={suggestion}
-                      onAccept={handleAcceptSuggestion}
-                      onReject={handleRejectSuggestion}
-                    />
-                  ))}
+                {trackedChangeGroups.map((group) => (
+                  <TrackedChangeCard
+                    key={group.id}
+                    group={group}
+                    onAccept={canEdit ? handleAcceptChange : undefined}
+                    onReject={canEdit ? handleRejectChange : undefined}
+                    isActive={group.id === activeChangeId}
+                    onFocus={handleFocusChange}
+                  />
+                ))}
               </div>
             ) : (
               <div className="text-center py-8">
-                {isChecking ? (
-                  <div>
-                    <div className="w-8 h-8 border-2 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-3"></div>
-                    <p className="text-gray-600">Analyzing your text...</p>
-                  </div>
-                ) : hasCompletedAnalysis ? (
-                  <div>
-                    <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
-                      <div className="w-6 h-6 bg-green-600 rounded-full"></div>
-                    </div>
-                    <p className="text-gray-600 font-medium">Great writing!</p>
-                    <p className="text-gray-500 text-sm mt-1">No writing issues found</p>
-                  </div>
-                ) : (
-                  <div>
-                    <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
-                      <div className="w-6 h-6 bg-gray-400 rounded-full"></div>
-                    </div>
-                    <p className="text-gray-600">Start writing to get suggestions</p>
-                  </div>
+                <p className="text-gray-600">No proposed changes</p>
+                {canEdit && (
+                  <p className="text-gray-500 text-sm mt-1">
+                    Turn on Suggesting to record your edits as changes others can accept or reject.
+                  </p>
                 )}
               </div>
             )}
-          </div>
-
-          {/* Performance Stats */}
-          <div className="border-t border-gray-200 p-6">
-            <h3 className="text-sm font-medium text-gray-900 mb-3">Performance</h3>
-            <div className="space-y-3">
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Overall score</span>
-                <span className="font-medium text-green-600">
-                  {suggestions.length === 0 ? '95' : Math.max(70, 95 - suggestions.length * 5)}
-                </span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Correctness</span>
-                <span className="font-medium">
-                  {suggestions.filter(s => s.type === 'grammar' || s.type === 'spelling').length === 0 ? '95' : '85'}
-                </span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Clarity</span>
-                <span className="font-medium">
-                  {suggestions.filter(s => s.type === 'style').length === 0 ? '90' : '80'}
-                </span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Engagement</span>
-                <span className="font-medium">87</span>
-              </div>
-            </div>
-          </div>
-        </div>
+          </TabsContent>
+        </Tabs>
       </div>
 
       {/* Grammarly-style Status Bar */}
@@ -753,23 +1811,78 @@ const Editor = () => {
           <div className="flex items-center gap-6">
             <span>{wordCount} words</span>
             <span>{content.length} characters</span>
-            <span>{content.split('\n\n').filter(p => p.trim()).length} paragraphs</span>
+            <span>{documentBody.blocks.filter(block => blockText(block).trim()).length} paragraphs</span>
             <span>{Math.ceil(wordCount / 200)} min read</span>
           </div>
           
           <div className="flex items-center gap-4">
             <span className="text-gray-400">Writing time: {writingTime} min</span>
-            <Button
-              onClick={handleSave}
-              disabled={isSaving || !hasUnsavedChanges}
-              size="sm"
-              className="bg-green-600 hover:bg-green-700 text-white border-0 disabled:opacity-50"
-            >
-              {isSaving ? "Saving..." : hasUnsavedChanges ? "Save" : "Saved"}
-            </Button>
+            {canEdit ? (
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || !hasUnsavedChanges}
+                size="sm"
+                className="bg-green-600 hover:bg-green-700 text-white border-0 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : hasUnsavedChanges ? "Save" : "Saved"}
+              </Button>
+            ) : (
+              <span className="text-gray-400">Read only</span>
+            )}
           </div>
         </div>
       </div>
+
+      <VersionHistory
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        versions={versions}
+        isLoading={isLoadingVersions}
+        currentContent={content}
+        onRestore={canEdit ? handleRestoreVersion : undefined}
+      />
+
+      {docId && user && access && (
+        <ShareDialog
+          open={isShareOpen}
+          onOpenChange={setIsShareOpen}
+          documentId={docId}
+          documentTitle={title}
+          access={access}
+          currentUserId={user.id}
+        />
+      )}
+
+      {importProgress && <ImportProgressCard progress={importProgress} onDismiss={dismissProgress} />}
+
+      <SaveTemplateDialog
+        open={isSaveTemplateOpen}
+        onOpenChange={setIsSaveTemplateOpen}
+        documentTitle={title}
+        onSave={handleSaveTemplate}
+      />
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        title="Export document"
+        description="Download this document as a file, or print it to save a PDF."
+        onExport={handleExport}
+      />
+
+      {saveConflict && (
+        <SaveConflictDialog
+          open
+          ourTitle={title}
+          ourContent={content}
+          theirTitle={saveConflict.title}
+          theirContent={saveConflict.content || ""}
+          theirUpdatedAt={saveConflict.updated_at}
+          onKeepMine={handleKeepMine}
+          onUseTheirs={handleUseTheirs}
+          onMerge={handleMergeVersions}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,65 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import SuppressedSuggestions from "@/components/SuppressedSuggestions";
+import DictionaryManager from "@/components/DictionaryManager";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate("/");
+    }
+  }, [user, loading, navigate]);
+
+  if (loading || !user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4 h-16">
+            <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+            <h1 className="text-2xl font-bold text-primary">Settings</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Tabs
+          value={searchParams.get("tab") || "dictionary"}
+          onValueChange={(tab) => setSearchParams({ tab }, { replace: true })}
+        >
+          <TabsList className="mb-6">
+            <TabsTrigger value="dictionary">Dictionary</TabsTrigger>
+            <TabsTrigger value="suppressions">Suppressed suggestions</TabsTrigger>
+          </TabsList>
+          <TabsContent value="dictionary">
+            <DictionaryManager userId={user.id} />
+          </TabsContent>
+          <TabsContent value="suppressions">
+            <SuppressedSuggestions />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
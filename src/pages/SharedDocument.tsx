@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Eye, Lock } from "lucide-react";
+import { renderHtml } from "@/lib/documentModel";
+import { SharedDocumentResult, fetchSharedDocument } from "@/lib/shareLinks";
+
+const UNAVAILABLE_MESSAGES = {
+  not_found: "This link doesn't exist or has been turned off by the owner.",
+  expired: "This link has expired. Ask the owner for a new one.",
+};
+
+// Read-only view of a document opened through a public share link. Works
+// without an account.
+const SharedDocument = () => {
+  const { token } = useParams();
+  const [result, setResult] = useState<SharedDocumentResult | null>(null);
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  const openLink = useCallback(async (linkPassword: string | null) => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      setResult(await fetchSharedDocument(token, linkPassword));
+      setHasError(false);
+    } catch (error) {
+      console.error('Error opening share link:', error);
+      setHasError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    openLink(null);
+  }, [openLink]);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) openLink(password);
+  };
+
+  const header = (
+    <header className="bg-white border-b border-gray-200 shadow-sm">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center h-16">
+          <a href="/" className="text-2xl font-bold text-primary">WriteAssist</a>
+          <span className="flex items-center text-sm text-gray-500">
+            <Eye className="w-4 h-4 mr-1" />
+            Read only
+          </span>
+        </div>
+      </div>
+    </header>
+  );
+
+  if (isLoading && !result) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  const unavailable = (message: string) => (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      {header}
+      <main className="max-w-md mx-auto px-4 py-16 text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Document unavailable</h2>
+        <p className="text-gray-600">{message}</p>
+      </main>
+    </div>
+  );
+
+  if (hasError || !result) {
+    return unavailable("Something went wrong while opening this link. Try again later.");
+  }
+
+  if (result.status === "password_required" || result.status === "wrong_password" || result.status === "too_many_attempts") {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+        {header}
+        <main className="max-w-md mx-auto px-4 py-16">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="w-5 h-5" />
+                Password required
+              </CardTitle>
+              <CardDescription>The owner protected this document with a password.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleUnlock} className="space-y-3">
+                <Input
+                  type="password"
+                  placeholder="Password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoFocus
+                />
+                {result.status === "wrong_password" && (
+                  <p className="text-sm text-red-600">That password is not correct.</p>
+                )}
+                {result.status === "too_many_attempts" && (
+                  <p className="text-sm text-red-600">Too many wrong passwords. Try again in 15 minutes.</p>
+                )}
+                <Button
+                  type="submit"
+                  disabled={isLoading || !password}
+                  className="w-full bg-green-600 hover:bg-green-700 text-white"
+                >
+                  Open document
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  if (result.status !== "ok") {
+    return unavailable(UNAVAILABLE_MESSAGES[result.status]);
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {header}
+      <main className="max-w-4xl mx-auto px-6 py-8">
+        <article className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-1">{result.title}</h1>
+          <p className="text-sm text-gray-500 mb-6">
+            Last updated {new Date(result.updatedAt).toLocaleString()}
+          </p>
+          <div
+            className="editor-surface text-gray-900 text-lg"
+            style={{
+              fontFamily: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
+              lineHeight: '1.8'
+            }}
+            // renderHtml escapes the document text
+            dangerouslySetInnerHTML={{ __html: renderHtml(result.document) }}
+          />
+        </article>
+      </main>
+    </div>
+  );
+};
+
+export default SharedDocument;
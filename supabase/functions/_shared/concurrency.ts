@@ -0,0 +1,23 @@
+// Runs async work with a cap on how much is in flight. This module has no
+// imports so it runs unchanged in the browser (via src/lib/concurrency.ts) and
+// in Deno edge functions.
+
+// Runs fn over items with at most `limit` calls in flight, keeping result order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
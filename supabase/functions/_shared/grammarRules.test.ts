@@ -0,0 +1,22 @@
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { runRules } from './grammarRules.ts'
+
+const capitalizations = (text: string) =>
+  runRules(text)
+    .filter(suggestion => suggestion.ruleId === 'sentence-capitalization')
+    .map(suggestion => suggestion.original)
+
+Deno.test('sentence-capitalization flags lowercase sentence starts', () => {
+  assertEquals(capitalizations('It rained. we stayed in.'), ['we'])
+})
+
+Deno.test('sentence-capitalization skips dotted abbreviations', () => {
+  assertEquals(capitalizations('The U.S. economy grew.'), [])
+  assertEquals(capitalizations('Meet at 9 a.m. tomorrow, e.g. at the office.'), [])
+  assertEquals(capitalizations('Acme Inc. announced results.'), [])
+})
+
+Deno.test('sentence-capitalization skips ellipses', () => {
+  assertEquals(capitalizations('I was worn out... so I went home.'), [])
+})
@@ -0,0 +1,327 @@
+// Deterministic grammar and style rules. This module has no imports so it runs
+// unchanged in the browser (via src/lib/grammarRules.ts) and in Deno edge
+// functions.
+
+export type SuggestionType = 'grammar' | 'spelling' | 'style' | 'punctuation'
+
+export interface RuleSuggestion {
+  type: SuggestionType
+  position: { start: number; end: number }
+  original: string
+  correction: string
+  explanation: string
+  ruleId: string
+}
+
+export interface RuleOptions {
+  // Words that must never be reported as misspelled (compared case-insensitively)
+  dictionary?: Iterable<string>
+}
+
+interface RuleContext {
+  text: string
+  dictionary: Set<string>
+}
+
+interface Rule {
+  id: string
+  check: (context: RuleContext) => RuleSuggestion[]
+}
+
+const matchAll = (text: string, pattern: RegExp) =>
+  Array.from(text.matchAll(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g')))
+
+const keepCase = (original: string, replacement: string) => {
+  if (original.length > 1 && original === original.toUpperCase()) return replacement.toUpperCase()
+  if (original[0] === original[0].toUpperCase()) {
+    return replacement[0].toUpperCase() + replacement.slice(1)
+  }
+  return replacement
+}
+
+// Legitimately doubled words ("I had had enough", "he said that that was fine")
+const ALLOWED_REPEATS = new Set(['had', 'that', 'bye', 'no', 'very', 'ha'])
+
+const doubledWords: Rule = {
+  id: 'doubled-word',
+  check: ({ text }) =>
+    matchAll(text, /\b([A-Za-z']+)(\s+)\1\b/gi)
+      .filter(match => !ALLOWED_REPEATS.has(match[1].toLowerCase()) && !match[2].includes('\n'))
+      .map(match => ({
+        type: 'grammar',
+        position: { start: match.index!, end: match.index! + match[0].length },
+        original: match[0],
+        correction: match[1],
+        explanation: `The word "${match[1]}" is repeated.`,
+        ruleId: 'doubled-word',
+      })),
+}
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'no', 'fig', 'approx', 'cf', 'al',
+  'inc', 'ltd', 'co', 'corp', 'dept', 'est', 'ave', 'mt', 'gen', 'gov', 'sen', 'rep', 'vol', 'ch', 'pp',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+])
+
+// Whether the period at `index` ends an abbreviation or an ellipsis rather
+// than a sentence
+const isNonTerminalPeriod = (text: string, index: number) => {
+  if (text[index - 1] === '.') return true
+  const before = text.slice(0, index).match(/([A-Za-z.]+)$/)
+  if (!before) return false
+  const word = before[1].replace(/^\.+/, '')
+  // Dotted abbreviations such as "U.S." and "a.m."
+  return ABBREVIATIONS.has(word.toLowerCase()) || /^[A-Za-z](\.[A-Za-z])+$/.test(word)
+}
+
+const sentenceCapitalization: Rule = {
+  id: 'sentence-capitalization',
+  check: ({ text }) =>
+    matchAll(text, /(^|[.!?]["')\]]*\s+|\n\s*)([a-z][a-z']*)/g)
+      .filter(match => {
+        if (match[1].startsWith('.') && isNonTerminalPeriod(text, match.index!)) return false
+        // Leave identifiers, URLs and the like alone
+        const rest = text.slice(match.index! + match[0].length)
+        return !/^[./@:_\-\d]\S/.test(rest)
+      })
+      .map(match => {
+        const start = match.index! + match[1].length
+        const word = match[2]
+        return {
+          type: 'punctuation',
+          position: { start, end: start + word.length },
+          original: word,
+          correction: word[0].toUpperCase() + word.slice(1),
+          explanation: 'Sentences should start with a capital letter.',
+          ruleId: 'sentence-capitalization',
+        }
+      }),
+}
+
+const lowercasePronoun: Rule = {
+  id: 'lowercase-i',
+  check: ({ text }) =>
+    matchAll(text, /(?<![\w.'’-])i(?=$|[\s,;:!?'’])/g).map(match => ({
+      type: 'grammar',
+      position: { start: match.index!, end: match.index! + 1 },
+      original: 'i',
+      correction: 'I',
+      explanation: 'The pronoun "I" is always capitalized.',
+      ruleId: 'lowercase-i',
+    })),
+}
+
+const doubleSpaces: Rule = {
+  id: 'double-space',
+  check: ({ text }) =>
+    matchAll(text, /(?<=\S) {2,}(?=\S)/g).map(match => ({
+      type: 'punctuation',
+      position: { start: match.index!, end: match.index! + match[0].length },
+      original: match[0],
+      correction: ' ',
+      explanation: 'Use a single space between words.',
+      ruleId: 'double-space',
+    })),
+}
+
+const spaceBeforePunctuation: Rule = {
+  id: 'space-before-punctuation',
+  check: ({ text }) =>
+    matchAll(text, /(?<=\w)[ \t]+([,.;:!?])(?![.\w])/g).map(match => ({
+      type: 'punctuation',
+      position: { start: match.index!, end: match.index! + match[0].length },
+      original: match[0],
+      correction: match[1],
+      explanation: `Remove the space before "${match[1]}".`,
+      ruleId: 'space-before-punctuation',
+    })),
+}
+
+// Frequent misspellings and their corrections
+export const COMMON_MISSPELLINGS: Record<string, string> = {
+  accomodate: 'accommodate',
+  acheive: 'achieve',
+  acknowlege: 'acknowledge',
+  adress: 'address',
+  alot: 'a lot',
+  apparantly: 'apparently',
+  arguement: 'argument',
+  basicly: 'basically',
+  becuase: 'because',
+  begining: 'beginning',
+  beleive: 'believe',
+  buisness: 'business',
+  calender: 'calendar',
+  cemetary: 'cemetery',
+  collegue: 'colleague',
+  comming: 'coming',
+  commited: 'committed',
+  completly: 'completely',
+  concious: 'conscious',
+  definately: 'definitely',
+  dissapoint: 'disappoint',
+  embarass: 'embarrass',
+  enviroment: 'environment',
+  existance: 'existence',
+  experiance: 'experience',
+  familar: 'familiar',
+  finaly: 'finally',
+  foriegn: 'foreign',
+  freind: 'friend',
+  goverment: 'government',
+  grammer: 'grammar',
+  gaurd: 'guard',
+  happend: 'happened',
+  harrass: 'harass',
+  immediatly: 'immediately',
+  independant: 'independent',
+  knowlege: 'knowledge',
+  liason: 'liaison',
+  libary: 'library',
+  lisence: 'license',
+  maintainance: 'maintenance',
+  millenium: 'millennium',
+  neccessary: 'necessary',
+  noticable: 'noticeable',
+  occassion: 'occasion',
+  occured: 'occurred',
+  occurence: 'occurrence',
+  occuring: 'occurring',
+  persue: 'pursue',
+  posession: 'possession',
+  prefered: 'preferred',
+  publically: 'publicly',
+  realy: 'really',
+  recieve: 'receive',
+  recieved: 'received',
+  recomend: 'recommend',
+  refered: 'referred',
+  relevent: 'relevant',
+  remeber: 'remember',
+  responsability: 'responsibility',
+  seperate: 'separate',
+  seperately: 'separately',
+  sucess: 'success',
+  succesful: 'successful',
+  supercede: 'supersede',
+  suprise: 'surprise',
+  teh: 'the',
+  thier: 'their',
+  tommorow: 'tomorrow',
+  tomorow: 'tomorrow',
+  tounge: 'tongue',
+  truely: 'truly',
+  untill: 'until',
+  wierd: 'weird',
+  wich: 'which',
+  writting: 'writing',
+}
+
+const commonMisspellings: Rule = {
+  id: 'common-misspelling',
+  check: ({ text, dictionary }) =>
+    matchAll(text, /\b[A-Za-z]+\b/g)
+      .filter(match => {
+        const word = match[0].toLowerCase()
+        return COMMON_MISSPELLINGS[word] && !dictionary.has(word)
+      })
+      .map(match => {
+        const correction = keepCase(match[0], COMMON_MISSPELLINGS[match[0].toLowerCase()])
+        return {
+          type: 'spelling',
+          position: { start: match.index!, end: match.index! + match[0].length },
+          original: match[0],
+          correction,
+          explanation: `"${match[0]}" is a common misspelling of "${correction}".`,
+          ruleId: 'common-misspelling',
+        }
+      }),
+}
+
+// Vowel letters that sound like consonants and silent consonants
+const CONSONANT_SOUND_PREFIXES = ['uni', 'use', 'usu', 'uti', 'uro', 'eu', 'ewe', 'one', 'once', 'ubiq', 'ufo']
+const VOWEL_SOUND_PREFIXES = ['hour', 'honest', 'honor', 'honour', 'heir', 'herb']
+
+const startsWithVowelSound = (word: string) => {
+  const lower = word.toLowerCase()
+  if (VOWEL_SOUND_PREFIXES.some(prefix => lower.startsWith(prefix))) return true
+  if (CONSONANT_SOUND_PREFIXES.some(prefix => lower.startsWith(prefix))) return false
+  return /^[aeiou]/.test(lower)
+}
+
+const articleAgreement: Rule = {
+  id: 'article-agreement',
+  check: ({ text }) =>
+    matchAll(text, /\b(a|an|A|An)(\s+)([A-Za-z][a-z]+)\b/g)
+      .filter(match => {
+        const needsAn = startsWithVowelSound(match[3])
+        return needsAn !== (match[1].toLowerCase() === 'an')
+      })
+      .map(match => {
+        const article = match[1]
+        const replacement = article.toLowerCase() === 'a' ? 'an' : 'a'
+        const correction = keepCase(article, replacement)
+        return {
+          type: 'grammar',
+          position: { start: match.index!, end: match.index! + article.length },
+          original: article,
+          correction,
+          explanation: `Use "${correction.toLowerCase()}" before a word that starts with a ${correction.toLowerCase() === 'an' ? 'vowel' : 'consonant'} sound.`,
+          ruleId: 'article-agreement',
+        }
+      }),
+}
+
+export const RULES: Rule[] = [
+  doubledWords,
+  sentenceCapitalization,
+  lowercasePronoun,
+  doubleSpaces,
+  spaceBeforePunctuation,
+  commonMisspellings,
+  articleAgreement,
+]
+
+const overlaps = (a: { position: { start: number; end: number } }, b: { position: { start: number; end: number } }) =>
+  a.position.start < b.position.end && b.position.start < a.position.end
+
+// Runs every rule over the text. Overlapping results keep the earlier rule's.
+export const runRules = (text: string, options: RuleOptions = {}): RuleSuggestion[] => {
+  const context: RuleContext = {
+    text,
+    dictionary: new Set(Array.from(options.dictionary || [], word => word.toLowerCase())),
+  }
+
+  const results: RuleSuggestion[] = []
+  for (const rule of RULES) {
+    for (const suggestion of rule.check(context)) {
+      if (!results.some(existing => overlaps(existing, suggestion))) {
+        results.push(suggestion)
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.position.start - b.position.start)
+}
+
+// Drops spelling suggestions for words the user added to their dictionary
+export const excludeDictionaryWords = <T extends { type: string; original: string }>(
+  suggestions: T[],
+  dictionary: Iterable<string>
+): T[] => {
+  const words = new Set(Array.from(dictionary, word => word.toLowerCase()))
+  if (words.size === 0) return suggestions
+  return suggestions.filter(suggestion =>
+    suggestion.type !== 'spelling' || !words.has(suggestion.original.trim().toLowerCase())
+  )
+}
+
+// Combines two suggestion lists, dropping secondary suggestions that overlap
+// a primary one
+export const mergeSuggestions = <T extends { position: { start: number; end: number } }>(
+  primary: T[],
+  secondary: T[]
+): T[] =>
+  [...primary, ...secondary.filter(suggestion => !primary.some(other => overlaps(other, suggestion)))]
+    .sort((a, b) => a.position.start - b.position.start)
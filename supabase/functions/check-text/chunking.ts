@@ -0,0 +1,79 @@
+// Splitting long texts into chunks small enough for a single model call
+
+export interface TextChunk {
+  text: string
+  // Offset of the chunk in the full text
+  start: number
+}
+
+// Roughly 400 words; keeps each response well inside max_tokens
+export const MAX_CHUNK_LENGTH = 2000
+
+interface Piece {
+  start: number
+  end: number
+}
+
+// Splits [start, end) of `text` after every match of `boundary`
+const splitAt = (text: string, start: number, end: number, boundary: RegExp): Piece[] => {
+  const pieces: Piece[] = []
+  const pattern = new RegExp(boundary.source, 'g')
+  pattern.lastIndex = start
+  let pieceStart = start
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(text)) !== null && match.index < end) {
+    const pieceEnd = Math.min(end, match.index + match[0].length)
+    if (pieceEnd > pieceStart) pieces.push({ start: pieceStart, end: pieceEnd })
+    pieceStart = pieceEnd
+    if (match[0].length === 0) pattern.lastIndex++
+  }
+  if (end > pieceStart) pieces.push({ start: pieceStart, end })
+
+  return pieces
+}
+
+// Breaks a piece into parts no longer than maxLength, preferring sentence
+// boundaries, then whitespace, then a hard cut
+const breakPiece = (text: string, piece: Piece, maxLength: number): Piece[] => {
+  if (piece.end - piece.start <= maxLength) return [piece]
+
+  const sentences = splitAt(text, piece.start, piece.end, /[.!?]+["')\]]*\s+/)
+  if (sentences.length > 1) {
+    return sentences.flatMap(sentence => breakPiece(text, sentence, maxLength))
+  }
+
+  const words = splitAt(text, piece.start, piece.end, /\s+/)
+  if (words.length > 1) {
+    return words.flatMap(word => breakPiece(text, word, maxLength))
+  }
+
+  const parts: Piece[] = []
+  for (let start = piece.start; start < piece.end; start += maxLength) {
+    parts.push({ start, end: Math.min(piece.end, start + maxLength) })
+  }
+  return parts
+}
+
+// Segments text on paragraph and sentence boundaries and packs consecutive
+// segments into chunks of at most maxLength characters. Chunks cover the text
+// contiguously, so chunk.start + local offset is always a valid global offset.
+export const segmentText = (text: string, maxLength = MAX_CHUNK_LENGTH): TextChunk[] => {
+  const pieces = splitAt(text, 0, text.length, /\n+/)
+    .flatMap(paragraph => breakPiece(text, paragraph, maxLength))
+
+  const chunks: TextChunk[] = []
+  let current: Piece | null = null
+
+  for (const piece of pieces) {
+    if (current && piece.end - current.start <= maxLength) {
+      current.end = piece.end
+    } else {
+      if (current) chunks.push({ text: text.slice(current.start, current.end), start: current.start })
+      current = { ...piece }
+    }
+  }
+  if (current) chunks.push({ text: text.slice(current.start, current.end), start: current.start })
+
+  return chunks
+}
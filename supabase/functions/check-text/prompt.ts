@@ -0,0 +1,137 @@
+import { AnalyzeOptions, Suggestion, WritingGoals } from './types.ts'
+
+const SYSTEM_PROMPT = 'You are a thorough grammar checker exactly like Grammarly. Find ALL grammatical errors, spelling mistakes, punctuation issues, and word choice problems. Be comprehensive and accurate. Return valid JSON only.'
+
+const REWRITE_SYSTEM_PROMPT = 'You are an editor who makes hard sentences easy to read without changing what they say. Return valid JSON only.'
+
+export const systemPrompt = (options: AnalyzeOptions = {}) =>
+  options.mode === 'rewrite' ? REWRITE_SYSTEM_PROMPT : SYSTEM_PROMPT
+
+const dictionaryInstructions = (dictionary: string[] = []) => dictionary.length === 0 ? '' : `
+
+The author's dictionary lists names and terms that are spelled correctly. Never report these as spelling mistakes: ${dictionary.map(word => JSON.stringify(word)).join(', ')}`
+
+const AUDIENCE_DESCRIPTIONS = {
+  general: 'a general audience, so avoid jargon and explain specialist terms',
+  knowledgeable: 'readers who know the subject, so some specialist terms are fine',
+  expert: 'experts, so technical vocabulary and dense phrasing are fine',
+}
+
+const FORMALITY_DESCRIPTIONS = {
+  informal: 'informal; contractions and a conversational tone are fine',
+  neutral: 'neither casual nor stiff',
+  formal: 'formal; flag slang, contractions and overly casual phrasing',
+}
+
+const INTENT_DESCRIPTIONS = {
+  inform: 'inform the reader clearly',
+  describe: 'describe something precisely',
+  convince: 'convince the reader, so favor confident, persuasive phrasing',
+  'tell-a-story': 'tell a story, so keep the narrative voice engaging',
+}
+
+// Describes only the goals the user set
+const goalInstructions = (goals: WritingGoals = {}) => {
+  const descriptions = [
+    goals.audience && `The text is written for ${AUDIENCE_DESCRIPTIONS[goals.audience]}.`,
+    goals.formality && `Its tone should be ${FORMALITY_DESCRIPTIONS[goals.formality]}.`,
+    goals.domain && `It belongs to the ${goals.domain} domain.`,
+    goals.intent && `It aims to ${INTENT_DESCRIPTIONS[goals.intent]}.`,
+  ].filter(Boolean)
+
+  return descriptions.length === 0 ? '' : `
+
+WRITING GOALS: ${descriptions.join(' ')} Make style suggestions that serve these goals, and don't suggest style changes that work against them.`
+}
+
+const buildCheckPrompt = (text: string, options: AnalyzeOptions) => `You are a professional grammar checker exactly like Grammarly. Analyze this text THOROUGHLY and find ALL grammatical errors, spelling mistakes, punctuation issues, and word choice problems.
+
+TEXT TO ANALYZE: "${text}"
+
+Find and correct these types of errors:
+1. GRAMMAR ERRORS: verb tense errors, subject-verb disagreement, wrong verb forms, pronoun errors
+2. SPELLING MISTAKES: any misspelled words
+3. WORD CHOICE ERRORS: wrong words used (like "mines" instead of "my", "cloths" instead of "clothes")
+4. PUNCTUATION ERRORS: missing or incorrect punctuation, capitalization
+5. STYLE IMPROVEMENTS: awkward phrasing, clarity issues
+
+CRITICAL INSTRUCTIONS:
+- Be extremely thorough like Grammarly - find EVERY single error
+- Calculate EXACT character positions in the original text (count each character including spaces)
+- Only suggest corrections that are definitely needed
+- For each error, provide the exact text that needs to be replaced and the correct replacement
+- Return ALL errors you find in one comprehensive response
+
+Return ONLY a valid JSON array with this exact format:
+[
+  {
+    "type": "grammar",
+    "position": {"start": 13, "end": 17},
+    "original": "goed", 
+    "correction": "went",
+    "explanation": "Past tense of 'go' is 'went', not 'goed'"
+  }
+]
+
+Types to use: "grammar", "spelling", "punctuation", "style"
+
+Count characters very carefully to get exact positions. Return empty array [] ONLY if there are truly NO errors at all.${dictionaryInstructions(options.dictionary)}${goalInstructions(options.goals)}`
+
+const buildRewritePrompt = (text: string, options: AnalyzeOptions) => `Rewrite this sentence so it is easier to read.
+
+SENTENCE: "${text}"
+
+- Keep its meaning, facts and tone
+- Prefer shorter sentences, common words and the active voice; splitting it into two or three sentences is fine
+- Keep names and technical terms the reader needs
+
+Return ONLY a valid JSON array with exactly one item covering the whole sentence:
+[
+  {
+    "type": "style",
+    "position": {"start": 0, "end": ${text.length}},
+    "original": ${JSON.stringify(text)},
+    "correction": "the rewritten sentence",
+    "explanation": "One short sentence on what makes the rewrite easier to read"
+  }
+]
+
+Return an empty array [] if the sentence can't be made easier to read.${dictionaryInstructions(options.dictionary)}${goalInstructions(options.goals)}`
+
+export const buildPrompt = (text: string, options: AnalyzeOptions = {}) =>
+  options.mode === 'rewrite' ? buildRewritePrompt(text, options) : buildCheckPrompt(text, options)
+
+// Parses a model reply into a JSON array of suggestions
+export const parseSuggestions = (content: string): Suggestion[] => {
+  try {
+    // Clean and parse the response
+    content = content.trim()
+    
+    // Remove markdown formatting
+    content = content.replace(/```json\n?/gi, '').replace(/```\n?/gi, '')
+    
+    // Find the JSON array
+    const jsonStart = content.indexOf('[')
+    const jsonEnd = content.lastIndexOf(']')
+    
+    if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
+      const jsonContent = content.substring(jsonStart, jsonEnd + 1)
+      console.log('Extracted JSON:', jsonContent)
+      
+      const suggestions = JSON.parse(jsonContent)
+      
+      if (!Array.isArray(suggestions)) {
+        console.log('Response is not an array:', suggestions)
+        return []
+      }
+      return suggestions
+    }
+
+    console.log('No valid JSON array found in response')
+    return []
+  } catch (parseError) {
+    console.error('Failed to parse model response:', parseError)
+    console.error('Content that failed to parse:', content)
+    return []
+  }
+}
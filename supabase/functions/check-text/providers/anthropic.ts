@@ -0,0 +1,53 @@
+import { buildPrompt, parseSuggestions, systemPrompt } from '../prompt.ts'
+import { CheckerProvider, ProviderAuthError } from '../types.ts'
+
+interface AnthropicProviderOptions {
+  apiKey: string
+  model: string
+  baseUrl: string
+}
+
+export const createAnthropicProvider = ({ apiKey, model, baseUrl }: AnthropicProviderOptions): CheckerProvider => ({
+  name: 'anthropic',
+
+  async analyze(text, options) {
+    const response = await fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        system: systemPrompt(options),
+        messages: [
+          { role: 'user', content: buildPrompt(text, options) }
+        ],
+        temperature: 0.1,
+        max_tokens: 2000
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Anthropic API error:', response.status, response.statusText, errorText)
+
+      if (response.status === 401) {
+        throw new ProviderAuthError('Invalid Anthropic API key. Please check your ANTHROPIC_API_KEY in Edge Function Secrets.')
+      }
+
+      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const content = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('')
+
+    console.log('Raw Anthropic response:', content)
+
+    return content ? parseSuggestions(content) : []
+  },
+})
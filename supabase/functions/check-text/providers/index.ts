@@ -0,0 +1,44 @@
+import { CheckerProvider, ProviderConfigError } from '../types.ts'
+import { createAnthropicProvider } from './anthropic.ts'
+import { createLocalProvider } from './local.ts'
+import { createOpenAIProvider } from './openai.ts'
+
+type Env = { get(name: string): string | undefined }
+
+// Picks the checker from CHECKER_PROVIDER ("openai", "anthropic" or "local").
+// CHECKER_MODEL and CHECKER_BASE_URL override the vendor defaults, which is
+// how other OpenAI-compatible APIs are used.
+export const createProvider = (env: Env): CheckerProvider => {
+  const providerName = (env.get('CHECKER_PROVIDER') || 'openai').toLowerCase()
+  const model = env.get('CHECKER_MODEL')
+  const baseUrl = env.get('CHECKER_BASE_URL')
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = env.get('OPENAI_API_KEY')
+      if (!apiKey) {
+        throw new ProviderConfigError('OpenAI API key not configured. Please set OPENAI_API_KEY in Edge Function Secrets.')
+      }
+      return createOpenAIProvider({
+        apiKey,
+        model: model || 'gpt-4o-mini',
+        baseUrl: baseUrl || 'https://api.openai.com/v1',
+      })
+    }
+    case 'anthropic': {
+      const apiKey = env.get('ANTHROPIC_API_KEY')
+      if (!apiKey) {
+        throw new ProviderConfigError('Anthropic API key not configured. Please set ANTHROPIC_API_KEY in Edge Function Secrets.')
+      }
+      return createAnthropicProvider({
+        apiKey,
+        model: model || 'claude-3-5-haiku-latest',
+        baseUrl: baseUrl || 'https://api.anthropic.com/v1',
+      })
+    }
+    case 'local':
+      return createLocalProvider()
+    default:
+      throw new ProviderConfigError(`Unknown CHECKER_PROVIDER "${providerName}". Use "openai", "anthropic" or "local".`)
+  }
+}
@@ -0,0 +1,13 @@
+import { runRules } from '../../_shared/grammarRules.ts'
+import { CheckerProvider } from '../types.ts'
+
+// Deterministic rule-based checker that needs no network, so the app can run
+// fully offline. It has no way to rewrite sentences.
+export const createLocalProvider = (): CheckerProvider => ({
+  name: 'local',
+
+  analyze(text, options) {
+    if (options?.mode === 'rewrite') return Promise.resolve([])
+    return Promise.resolve(runRules(text, { dictionary: options?.dictionary }))
+  },
+})
@@ -0,0 +1,50 @@
+import { buildPrompt, parseSuggestions, systemPrompt } from '../prompt.ts'
+import { CheckerProvider, ProviderAuthError } from '../types.ts'
+
+interface OpenAIProviderOptions {
+  apiKey: string
+  model: string
+  // Any OpenAI-compatible chat completions API
+  baseUrl: string
+}
+
+export const createOpenAIProvider = ({ apiKey, model, baseUrl }: OpenAIProviderOptions): CheckerProvider => ({
+  name: 'openai',
+
+  async analyze(text, options) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt(options) },
+          { role: 'user', content: buildPrompt(text, options) }
+        ],
+        temperature: 0.1,
+        max_tokens: 2000
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('OpenAI API error:', response.status, response.statusText, errorText)
+
+      if (response.status === 401) {
+        throw new ProviderAuthError('Invalid OpenAI API key. Please check your OPENAI_API_KEY in Edge Function Secrets.')
+      }
+
+      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const content = data.choices?.[0]?.message?.content
+
+    console.log('Raw OpenAI response:', content)
+
+    return content ? parseSuggestions(content) : []
+  },
+})
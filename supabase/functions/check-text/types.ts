@@ -0,0 +1,49 @@
+export interface Suggestion {
+  type: string
+  position: { start: number; end: number }
+  original: string
+  correction: string
+  explanation: string
+}
+
+// What the document is for; mirrors src/lib/writingGoals.ts. Goals the user
+// hasn't set are left out.
+export interface WritingGoals {
+  audience?: 'general' | 'knowledgeable' | 'expert'
+  formality?: 'informal' | 'neutral' | 'formal'
+  domain?: 'general' | 'academic' | 'business' | 'technical' | 'creative' | 'casual'
+  intent?: 'inform' | 'describe' | 'convince' | 'tell-a-story'
+}
+
+export const WRITING_GOAL_VALUES: { [K in keyof WritingGoals]-?: NonNullable<WritingGoals[K]>[] } = {
+  audience: ['general', 'knowledgeable', 'expert'],
+  formality: ['informal', 'neutral', 'formal'],
+  domain: ['general', 'academic', 'business', 'technical', 'creative', 'casual'],
+  intent: ['inform', 'describe', 'convince', 'tell-a-story'],
+}
+
+// "check" finds issues; "rewrite" suggests an easier version of a single
+// sentence the client found hard to read
+export type CheckMode = 'check' | 'rewrite'
+
+export interface AnalyzeOptions {
+  mode?: CheckMode
+  // The user's own words (names, jargon) that are spelled correctly
+  dictionary?: string[]
+  // Style suggestions should suit these; absent for documents without goals
+  goals?: WritingGoals
+}
+
+// Something that finds writing issues in a piece of text. Positions in the
+// returned suggestions are relative to `text`; validation, chunking and
+// merging happen in the request pipeline, not in providers.
+export interface CheckerProvider {
+  name: string
+  analyze(text: string, options?: AnalyzeOptions): Promise<Suggestion[]>
+}
+
+// The provider is missing required configuration (e.g. an API key)
+export class ProviderConfigError extends Error {}
+
+// The provider rejected our credentials
+export class ProviderAuthError extends Error {}
@@ -0,0 +1,5 @@
+-- Store the structured rich-text document alongside the plain-text projection.
+-- `content` keeps holding the plain text that grammar checking and suggestion
+-- offsets are based on; `body` holds the block/inline tree with formatting marks.
+ALTER TABLE public.documents
+  ADD COLUMN body JSONB;
@@ -0,0 +1,16 @@
+-- Track what happened to each suggestion and which version of the document
+-- its positions refer to, so the editor can reload them instead of asking the
+-- model again.
+ALTER TABLE public.suggestions
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'dismissed')),
+  -- Hash of the document's plain text the positions were computed against
+  ADD COLUMN content_hash TEXT,
+  -- Stable id the editor uses for the suggestion while the text is unchanged
+  ADD COLUMN suggestion_key TEXT,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE UNIQUE INDEX suggestions_document_key_idx
+  ON public.suggestions (document_id, suggestion_key);
+
+CREATE INDEX suggestions_document_status_idx
+  ON public.suggestions (document_id, status);
@@ -0,0 +1,43 @@
+-- Why a suggestion was dismissed
+ALTER TABLE public.suggestions
+  ADD COLUMN dismiss_reason TEXT CHECK (dismiss_reason IN ('incorrect', 'not_my_style', 'intentional'));
+
+-- Suggestions a user never wants to see again, everywhere or in one document
+CREATE TABLE public.suggestion_suppressions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- NULL suppresses the suggestion in every document
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE,
+  -- Normalized type, original and correction of the suggestion
+  fingerprint TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('grammar', 'spelling', 'style', 'punctuation')),
+  original TEXT NOT NULL,
+  correction TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('incorrect', 'not_my_style', 'intentional')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX suggestion_suppressions_fingerprint_idx
+  ON public.suggestion_suppressions (user_id, document_id, fingerprint) NULLS NOT DISTINCT;
+
+ALTER TABLE public.suggestion_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suppressions" 
+  ON public.suggestion_suppressions 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own suppressions" 
+  ON public.suggestion_suppressions 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own suppressions" 
+  ON public.suggestion_suppressions 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own suppressions" 
+  ON public.suggestion_suppressions 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
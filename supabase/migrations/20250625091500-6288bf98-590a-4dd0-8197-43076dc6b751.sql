@@ -0,0 +1,30 @@
+-- Words a user never wants flagged as misspellings (names, jargon, product terms)
+CREATE TABLE public.user_dictionary (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  word TEXT NOT NULL CHECK (length(trim(word)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, word)
+);
+
+ALTER TABLE public.user_dictionary ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dictionary" 
+  ON public.user_dictionary 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add to their own dictionary" 
+  ON public.user_dictionary 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own dictionary" 
+  ON public.user_dictionary 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete from their own dictionary" 
+  ON public.user_dictionary 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
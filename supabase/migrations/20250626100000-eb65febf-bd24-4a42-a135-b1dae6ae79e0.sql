@@ -0,0 +1,35 @@
+-- Snapshots of a document over time: periodic ones taken while autosaving and
+-- milestones taken on manual saves and before bulk or destructive changes
+CREATE TABLE public.document_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('auto', 'milestone')),
+  -- What the milestone was, e.g. "Before Accept All"
+  label TEXT,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  body JSONB,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX document_versions_document_created_idx
+  ON public.document_versions (document_id, created_at DESC);
+
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document versions" 
+  ON public.document_versions 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document versions" 
+  ON public.document_versions 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document versions" 
+  ON public.document_versions 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
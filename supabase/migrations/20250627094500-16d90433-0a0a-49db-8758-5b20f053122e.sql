@@ -0,0 +1,26 @@
+-- Optimistic concurrency for documents: every change to the text or title
+-- bumps the revision, and clients only write over the revision they last saw
+ALTER TABLE public.documents
+  ADD COLUMN revision INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_document_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.title IS DISTINCT FROM OLD.title THEN
+    NEW.revision := OLD.revision + 1;
+    NEW.updated_at := now();
+  ELSE
+    NEW.revision := OLD.revision;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER documents_bump_revision
+  BEFORE UPDATE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_document_revision();
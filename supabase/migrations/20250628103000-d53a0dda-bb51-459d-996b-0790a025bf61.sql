@@ -0,0 +1,145 @@
+-- Sharing: people other than the owner can be given access to a document as
+-- viewers (read only), commenters (read and comment) or editors
+CREATE TABLE public.document_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'commenter', 'editor')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, user_id)
+);
+
+CREATE INDEX document_members_user_idx
+  ON public.document_members (user_id);
+
+ALTER TABLE public.document_members ENABLE ROW LEVEL SECURITY;
+
+-- The caller's access to a document: 'owner', their member role, or NULL.
+-- SECURITY DEFINER so policies on documents and document_members can use it
+-- without recursing into each other.
+CREATE OR REPLACE FUNCTION public.document_role(doc_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM documents WHERE id = doc_id AND user_id = auth.uid()) THEN 'owner'
+    ELSE (SELECT role FROM document_members WHERE document_id = doc_id AND user_id = auth.uid())
+  END;
+$$;
+
+-- Documents: members can read, editors can also write. Only the owner can
+-- delete.
+DROP POLICY "Users can view their own documents" ON public.documents;
+DROP POLICY "Users can update their own documents" ON public.documents;
+
+CREATE POLICY "Users can view documents they own or were shared" 
+  ON public.documents 
+  FOR SELECT 
+  USING (public.document_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners and editors can update documents" 
+  ON public.documents 
+  FOR UPDATE 
+  USING (public.document_role(id) IN ('owner', 'editor'));
+
+-- Members: everyone on a document can see who else is; only the owner
+-- manages the list, but members can remove themselves
+CREATE POLICY "Members can view a document's members" 
+  ON public.document_members 
+  FOR SELECT 
+  USING (public.document_role(document_id) IS NOT NULL);
+
+CREATE POLICY "Owners can add document members" 
+  ON public.document_members 
+  FOR INSERT 
+  WITH CHECK (public.document_role(document_id) = 'owner');
+
+CREATE POLICY "Owners can change document members" 
+  ON public.document_members 
+  FOR UPDATE 
+  USING (public.document_role(document_id) = 'owner');
+
+CREATE POLICY "Owners and the member can remove document members" 
+  ON public.document_members 
+  FOR DELETE 
+  USING (public.document_role(document_id) = 'owner' OR auth.uid() = user_id);
+
+-- Version history is shared with everyone who can read the document;
+-- editors take snapshots too
+DROP POLICY "Users can view their own document versions" ON public.document_versions;
+DROP POLICY "Users can create their own document versions" ON public.document_versions;
+
+CREATE POLICY "Members can view document versions" 
+  ON public.document_versions 
+  FOR SELECT 
+  USING (public.document_role(document_id) IS NOT NULL);
+
+CREATE POLICY "Owners and editors can create document versions" 
+  ON public.document_versions 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id AND public.document_role(document_id) IN ('owner', 'editor'));
+
+-- Invites an existing account by email. auth.users is not readable from the
+-- client, so the lookup happens here.
+CREATE OR REPLACE FUNCTION public.invite_document_member(doc_id UUID, member_email TEXT, member_role TEXT)
+RETURNS public.document_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitee UUID;
+  member public.document_members;
+BEGIN
+  IF public.document_role(doc_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can share this document' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO invitee FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF invitee IS NULL THEN
+    RAISE EXCEPTION 'No account found for %', member_email USING ERRCODE = 'P0002';
+  END IF;
+  IF invitee = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this document' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO document_members (document_id, user_id, role, invited_by)
+  VALUES (doc_id, invitee, member_role, auth.uid())
+  ON CONFLICT (document_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO member;
+
+  RETURN member;
+END;
+$$;
+
+-- Everyone with access to a document (the owner first) and their emails, for
+-- the Share dialog
+CREATE OR REPLACE FUNCTION public.get_document_members(doc_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, role TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.document_role(doc_id) IS NULL THEN
+    RAISE EXCEPTION 'Document not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+    SELECT d.user_id, u.email::TEXT, 'owner'::TEXT, d.created_at
+    FROM documents d
+    JOIN auth.users u ON u.id = d.user_id
+    WHERE d.id = doc_id
+    UNION ALL
+    SELECT m.user_id, u.email::TEXT, m.role, m.created_at
+    FROM document_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.document_id = doc_id
+    ORDER BY 4;
+END;
+$$;
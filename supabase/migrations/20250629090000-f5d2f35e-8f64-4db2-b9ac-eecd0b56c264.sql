@@ -0,0 +1,116 @@
+-- Public, read-only share links for people without an account. Links can
+-- have a password and an expiry, count their views and can be revoked.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.document_share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  -- bcrypt hash; never selected by the client
+  password_hash TEXT,
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX document_share_links_document_idx
+  ON public.document_share_links (document_id, created_at DESC);
+
+ALTER TABLE public.document_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Links are managed by the document's owner. Creating one goes through
+-- create_share_link so the password is hashed in the database.
+CREATE POLICY "Owners can view share links" 
+  ON public.document_share_links 
+  FOR SELECT 
+  USING (public.document_role(document_id) = 'owner');
+
+CREATE POLICY "Owners can revoke share links" 
+  ON public.document_share_links 
+  FOR UPDATE 
+  USING (public.document_role(document_id) = 'owner');
+
+CREATE POLICY "Owners can delete share links" 
+  ON public.document_share_links 
+  FOR DELETE 
+  USING (public.document_role(document_id) = 'owner');
+
+CREATE OR REPLACE FUNCTION public.create_share_link(
+  doc_id UUID,
+  link_password TEXT DEFAULT NULL,
+  link_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  link_token TEXT;
+BEGIN
+  IF public.document_role(doc_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can share this document' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO document_share_links (document_id, user_id, password_hash, expires_at)
+  VALUES (
+    doc_id,
+    auth.uid(),
+    CASE WHEN coalesce(link_password, '') = '' THEN NULL ELSE crypt(link_password, gen_salt('bf')) END,
+    link_expires_at
+  )
+  RETURNING token INTO link_token;
+
+  RETURN link_token;
+END;
+$$;
+
+-- Opens a share link. Anyone may call this; `status` says why nothing was
+-- returned: 'not_found' (unknown or revoked), 'expired', 'password_required'
+-- or 'wrong_password'. Successful opens are counted.
+CREATE OR REPLACE FUNCTION public.get_shared_document(share_token TEXT, link_password TEXT DEFAULT NULL)
+RETURNS TABLE (status TEXT, title TEXT, content TEXT, body JSONB, updated_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  link public.document_share_links;
+BEGIN
+  SELECT * INTO link FROM document_share_links l WHERE l.token = share_token AND l.revoked_at IS NULL;
+
+  IF link.id IS NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+  IF link.expires_at IS NOT NULL AND link.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+  IF link.password_hash IS NOT NULL THEN
+    IF coalesce(link_password, '') = '' THEN
+      RETURN QUERY SELECT 'password_required'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+    IF crypt(link_password, link.password_hash) <> link.password_hash THEN
+      RETURN QUERY SELECT 'wrong_password'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE document_share_links
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = link.id;
+
+  RETURN QUERY
+    SELECT 'ok'::TEXT, d.title, d.content, d.body, d.updated_at
+    FROM documents d
+    WHERE d.id = link.document_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_document(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,51 @@
+-- Review comments. A thread starts with a comment anchored to a range of the
+-- document's plain text; replies point at the thread's first comment.
+CREATE TABLE public.document_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.document_comments(id) ON DELETE CASCADE,
+  author_name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- Anchor of a thread, kept up to date as the text changes; NULL on replies
+  position_start INTEGER,
+  position_end INTEGER,
+  -- The text the thread was anchored to when it was started
+  quote TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX document_comments_document_idx
+  ON public.document_comments (document_id, created_at);
+
+ALTER TABLE public.document_comments ENABLE ROW LEVEL SECURITY;
+
+-- Everyone with access reads the comments; commenters, editors and the owner
+-- write them. Resolving and re-anchoring are updates by any of those, but
+-- only authors and the owner delete.
+CREATE POLICY "Members can view document comments" 
+  ON public.document_comments 
+  FOR SELECT 
+  USING (public.document_role(document_id) IS NOT NULL);
+
+CREATE POLICY "Commenters can create document comments" 
+  ON public.document_comments 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id AND public.document_role(document_id) IN ('owner', 'editor', 'commenter'));
+
+CREATE POLICY "Commenters can update document comments" 
+  ON public.document_comments 
+  FOR UPDATE 
+  USING (public.document_role(document_id) IN ('owner', 'editor', 'commenter'));
+
+CREATE POLICY "Authors and owners can delete document comments" 
+  ON public.document_comments 
+  FOR DELETE 
+  USING (auth.uid() = user_id OR public.document_role(document_id) = 'owner');
+
+-- Enable realtime so open editors see new comments
+ALTER TABLE public.document_comments REPLICA IDENTITY FULL;
+ALTER publication supabase_realtime ADD TABLE public.document_comments;
@@ -0,0 +1,48 @@
+-- Edits made in Suggesting mode, waiting for an editor to accept or reject
+-- them. Positions are offsets into the document's plain text: an insertion
+-- covers the text that was typed, a deletion is collapsed to where the
+-- deleted `text` was.
+CREATE TABLE public.document_tracked_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES public.documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  author_name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('insertion', 'deletion')),
+  text TEXT NOT NULL,
+  position_start INTEGER NOT NULL,
+  position_end INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX document_tracked_changes_document_idx
+  ON public.document_tracked_changes (document_id, created_at);
+
+ALTER TABLE public.document_tracked_changes ENABLE ROW LEVEL SECURITY;
+
+-- Everyone with access sees the proposed changes. Only people who can edit
+-- the text make them, move them along with later edits, and accept or
+-- reject them.
+CREATE POLICY "Members can view tracked changes" 
+  ON public.document_tracked_changes 
+  FOR SELECT 
+  USING (public.document_role(document_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create tracked changes" 
+  ON public.document_tracked_changes 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id AND public.document_role(document_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update tracked changes" 
+  ON public.document_tracked_changes 
+  FOR UPDATE 
+  USING (public.document_role(document_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete tracked changes" 
+  ON public.document_tracked_changes 
+  FOR DELETE 
+  USING (public.document_role(document_id) IN ('owner', 'editor'));
+
+-- Enable realtime so open editors see new proposed changes
+ALTER TABLE public.document_tracked_changes REPLICA IDENTITY FULL;
+ALTER publication supabase_realtime ADD TABLE public.document_tracked_changes;
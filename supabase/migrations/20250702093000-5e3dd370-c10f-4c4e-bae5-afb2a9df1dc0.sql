@@ -0,0 +1,60 @@
+-- Organizing documents: each user files their own documents into folders
+-- and labels them with any number of tags
+CREATE TABLE public.folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own folders" 
+  ON public.folders 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own folders" 
+  ON public.folders 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own folders" 
+  ON public.folders 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own folders" 
+  ON public.folders 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Deleting a folder leaves its documents unfiled. Word count and the search
+-- vector are derived from the stored text so they never go stale; neither
+-- they nor the folder and tags bump the revision.
+ALTER TABLE public.documents
+  ADD COLUMN folder_id UUID REFERENCES public.folders(id) ON DELETE SET NULL,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN word_count INTEGER GENERATED ALWAYS AS (
+    CASE
+      WHEN btrim(coalesce(content, '')) = '' THEN 0
+      ELSE array_length(regexp_split_to_array(btrim(content), '\s+'), 1)
+    END
+  ) STORED,
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX documents_search_idx
+  ON public.documents USING GIN (search_vector);
+
+CREATE INDEX documents_tags_idx
+  ON public.documents USING GIN (tags);
+
+CREATE INDEX documents_folder_idx
+  ON public.documents (folder_id);
+
+CREATE INDEX documents_user_updated_idx
+  ON public.documents (user_id, updated_at DESC);
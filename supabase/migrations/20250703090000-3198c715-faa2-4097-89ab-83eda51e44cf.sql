@@ -0,0 +1,119 @@
+-- Trash: deleting a document only sets deleted_at. The owner can restore it
+-- or delete it for good; documents left in the trash for 30 days are purged.
+-- Purging deletes the row, which cascades to its suggestions, versions,
+-- comments, members, share links and tracked changes.
+ALTER TABLE public.documents
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX documents_deleted_idx
+  ON public.documents (user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Editors may update shared documents, but only the owner trashes and
+-- restores them
+CREATE OR REPLACE FUNCTION public.guard_document_trash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at AND OLD.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the owner can delete or restore this document' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER documents_guard_trash
+  BEFORE UPDATE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_document_trash();
+
+-- While a document is in the trash only its owner has access, so everything
+-- guarded by document_role (versions, comments, members...) is hidden from
+-- the people it was shared with
+CREATE OR REPLACE FUNCTION public.document_role(doc_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM documents WHERE id = doc_id AND user_id = auth.uid()) THEN 'owner'
+    WHEN EXISTS (SELECT 1 FROM documents WHERE id = doc_id AND deleted_at IS NOT NULL) THEN NULL
+    ELSE (SELECT role FROM document_members WHERE document_id = doc_id AND user_id = auth.uid())
+  END;
+$$;
+
+-- Share links of trashed documents stop working until the document is
+-- restored
+CREATE OR REPLACE FUNCTION public.get_shared_document(share_token TEXT, link_password TEXT DEFAULT NULL)
+RETURNS TABLE (status TEXT, title TEXT, content TEXT, body JSONB, updated_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  link public.document_share_links;
+BEGIN
+  SELECT l.* INTO link
+    FROM document_share_links l
+    JOIN documents d ON d.id = l.document_id
+    WHERE l.token = share_token AND l.revoked_at IS NULL AND d.deleted_at IS NULL;
+
+  IF link.id IS NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+  IF link.expires_at IS NOT NULL AND link.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+  IF link.password_hash IS NOT NULL THEN
+    IF coalesce(link_password, '') = '' THEN
+      RETURN QUERY SELECT 'password_required'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+    IF crypt(link_password, link.password_hash) <> link.password_hash THEN
+      RETURN QUERY SELECT 'wrong_password'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE document_share_links
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = link.id;
+
+  RETURN QUERY
+    SELECT 'ok'::TEXT, d.title, d.content, d.body, d.updated_at
+    FROM documents d
+    WHERE d.id = link.document_id;
+END;
+$$;
+
+-- Purges documents that have been in the trash longer than the retention
+-- period. Runs daily through pg_cron.
+CREATE OR REPLACE FUNCTION public.purge_deleted_documents()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM documents WHERE deleted_at < now() - INTERVAL '30 days';
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_documents() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-deleted-documents',
+  '0 3 * * *',
+  $$SELECT public.purge_deleted_documents()$$
+);
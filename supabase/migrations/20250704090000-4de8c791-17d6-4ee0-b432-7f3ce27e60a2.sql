@@ -0,0 +1,39 @@
+-- Writing goals tell the assistant who a document is for and how it should
+-- read. Like folders and tags they don't bump the revision.
+ALTER TABLE public.documents
+  ADD COLUMN goals JSONB NOT NULL DEFAULT '{}';
+
+-- Templates users saved from their own documents. The built-in templates
+-- ship with the app. Placeholders are written as {{Name}} in the title and
+-- text and are filled in when a document is created from the template.
+CREATE TABLE public.document_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  body JSONB,
+  goals JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX document_templates_user_idx
+  ON public.document_templates (user_id, name);
+
+ALTER TABLE public.document_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own templates"
+  ON public.document_templates
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own templates"
+  ON public.document_templates
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates"
+  ON public.document_templates
+  FOR DELETE
+  USING (auth.uid() = user_id);
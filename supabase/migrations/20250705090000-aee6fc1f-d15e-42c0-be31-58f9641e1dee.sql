@@ -0,0 +1,36 @@
+-- Collaboration channels ("document:<id>", see useCollaboration) are private
+-- Realtime channels. Everyone with access to the document can listen and
+-- share presence; only owners and editors can broadcast edits.
+
+-- The document a collaboration topic is for, or NULL for other topics
+CREATE OR REPLACE FUNCTION public.document_topic_id(topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN topic ~* '^document:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN substring(topic FROM 10)::UUID
+  END;
+$$;
+
+CREATE POLICY "Document members can receive collaboration messages"
+  ON realtime.messages
+  FOR SELECT
+  USING (public.document_role(public.document_topic_id(realtime.topic())) IS NOT NULL);
+
+CREATE POLICY "Document members can share presence"
+  ON realtime.messages
+  FOR INSERT
+  WITH CHECK (
+    extension = 'presence'
+    AND public.document_role(public.document_topic_id(realtime.topic())) IS NOT NULL
+  );
+
+CREATE POLICY "Owners and editors can broadcast document changes"
+  ON realtime.messages
+  FOR INSERT
+  WITH CHECK (
+    extension = 'broadcast'
+    AND public.document_role(public.document_topic_id(realtime.topic())) IN ('owner', 'editor')
+  );
@@ -0,0 +1,36 @@
+-- Editors may change a shared document's text and title, but who owns it and
+-- where the owner files it stay the owner's: user_id, the folder, tags,
+-- writing goals and the trash. This replaces the trash-only guard.
+DROP POLICY "Owners and editors can update documents" ON public.documents;
+
+CREATE POLICY "Owners and editors can update documents" 
+  ON public.documents 
+  FOR UPDATE 
+  USING (public.document_role(id) IN ('owner', 'editor'))
+  WITH CHECK (public.document_role(id) IN ('owner', 'editor'));
+
+DROP TRIGGER documents_guard_trash ON public.documents;
+DROP FUNCTION public.guard_document_trash();
+
+CREATE OR REPLACE FUNCTION public.guard_document_owner_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.folder_id IS DISTINCT FROM OLD.folder_id
+    OR NEW.tags IS DISTINCT FROM OLD.tags
+    OR NEW.goals IS DISTINCT FROM OLD.goals
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at)
+    AND public.document_role(OLD.id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can change this document''s owner, folder, tags, goals or trash status'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER documents_guard_owner_columns
+  BEFORE UPDATE ON public.documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_document_owner_columns();
@@ -0,0 +1,38 @@
+-- Anyone who can comment resolves threads and moves their anchors, but only
+-- the author edits what a comment says. Who wrote it, where and in reply to
+-- what never change.
+DROP POLICY "Commenters can update document comments" ON public.document_comments;
+
+CREATE POLICY "Commenters can update document comments" 
+  ON public.document_comments 
+  FOR UPDATE 
+  USING (public.document_role(document_id) IN ('owner', 'editor', 'commenter'))
+  WITH CHECK (public.document_role(document_id) IN ('owner', 'editor', 'commenter'));
+
+CREATE OR REPLACE FUNCTION public.guard_document_comment_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.document_id IS DISTINCT FROM OLD.document_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_name IS DISTINCT FROM OLD.author_name
+    OR NEW.quote IS DISTINCT FROM OLD.quote
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only a comment''s text, anchor and status can be changed' USING ERRCODE = '42501';
+  END IF;
+  IF NEW.body IS DISTINCT FROM OLD.body AND OLD.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the author can edit this comment' USING ERRCODE = '42501';
+  END IF;
+  IF NEW.resolved_by IS DISTINCT FROM OLD.resolved_by AND NEW.resolved_by IS DISTINCT FROM auth.uid() AND NEW.resolved_by IS NOT NULL THEN
+    RAISE EXCEPTION 'Threads can only be resolved in your own name' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER document_comments_guard_update
+  BEFORE UPDATE ON public.document_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_document_comment_update();
@@ -0,0 +1,6 @@
+-- Suggestions are per user: everyone on a shared document gets their own
+-- copy of a suggestion, so the key is only unique for one user.
+DROP INDEX public.suggestions_document_key_idx;
+
+CREATE UNIQUE INDEX suggestions_document_user_key_idx
+  ON public.suggestions (document_id, user_id, suggestion_key);
@@ -0,0 +1,89 @@
+-- Editors move tracked changes along with later edits, but who proposed a
+-- change and what kind of change it is stay as they were made.
+CREATE OR REPLACE FUNCTION public.guard_document_tracked_change_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.document_id IS DISTINCT FROM OLD.document_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.author_name IS DISTINCT FROM OLD.author_name
+    OR NEW.kind IS DISTINCT FROM OLD.kind
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only a tracked change''s text and position can be changed' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER document_tracked_changes_guard_update
+  BEFORE UPDATE ON public.document_tracked_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_document_tracked_change_update();
+
+-- Pending tracked changes are part of the stored text. Share links return
+-- them too, so the page can show the document with all of them rejected:
+-- only reviewed text is published. Text typed in a pending insertion is not
+-- needed for that and is left out.
+DROP FUNCTION public.get_shared_document(TEXT, TEXT);
+
+CREATE FUNCTION public.get_shared_document(share_token TEXT, link_password TEXT DEFAULT NULL)
+RETURNS TABLE (status TEXT, title TEXT, content TEXT, body JSONB, tracked_changes JSONB, updated_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  link public.document_share_links;
+BEGIN
+  SELECT l.* INTO link
+    FROM document_share_links l
+    JOIN documents d ON d.id = l.document_id
+    WHERE l.token = share_token AND l.revoked_at IS NULL AND d.deleted_at IS NULL;
+
+  IF link.id IS NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+  IF link.expires_at IS NOT NULL AND link.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+  IF link.password_hash IS NOT NULL THEN
+    IF coalesce(link_password, '') = '' THEN
+      RETURN QUERY SELECT 'password_required'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+    IF crypt(link_password, link.password_hash) <> link.password_hash THEN
+      RETURN QUERY SELECT 'wrong_password'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE document_share_links
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = link.id;
+
+  RETURN QUERY
+    SELECT
+      'ok'::TEXT,
+      d.title,
+      d.content,
+      d.body,
+      coalesce(
+        (SELECT jsonb_agg(jsonb_build_object(
+            'kind', c.kind,
+            'text', CASE WHEN c.kind = 'deletion' THEN c.text ELSE '' END,
+            'position_start', c.position_start,
+            'position_end', c.position_end))
+          FROM document_tracked_changes c
+          WHERE c.document_id = d.id),
+        '[]'::JSONB
+      ),
+      d.updated_at
+    FROM documents d
+    WHERE d.id = link.document_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_document(TEXT, TEXT) TO anon, authenticated;
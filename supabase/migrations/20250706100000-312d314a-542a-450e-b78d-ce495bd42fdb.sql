@@ -0,0 +1,27 @@
+-- The name shown on comments and tracked changes is taken from the account
+-- that writes them, whatever the client sent. Like the editor, it uses the
+-- part of the email address before the @.
+CREATE OR REPLACE FUNCTION public.set_author_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_name := coalesce(
+    (SELECT nullif(split_part(u.email, '@', 1), '') FROM auth.users u WHERE u.id = auth.uid()),
+    'Someone'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER document_comments_set_author_name
+  BEFORE INSERT ON public.document_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_author_name();
+
+CREATE TRIGGER document_tracked_changes_set_author_name
+  BEFORE INSERT ON public.document_tracked_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_author_name();
@@ -0,0 +1,137 @@
+-- Share link passwords move to their own table, which no client role can
+-- read: the owner's SELECT policy on document_share_links returned the
+-- hashes. Hashes use bcrypt with cost 10; older ones are rehashed the next
+-- time their link is opened. Wrong passwords are counted per link and lock
+-- it for a while after too many, since anyone with the link can guess.
+CREATE TABLE public.document_share_link_passwords (
+  link_id UUID PRIMARY KEY REFERENCES public.document_share_links(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE
+);
+
+-- No policies: only the functions below use it
+ALTER TABLE public.document_share_link_passwords ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.document_share_link_passwords (link_id, password_hash)
+  SELECT id, password_hash FROM public.document_share_links WHERE password_hash IS NOT NULL;
+
+ALTER TABLE public.document_share_links
+  DROP COLUMN has_password,
+  DROP COLUMN password_hash,
+  ADD COLUMN has_password BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.document_share_links l
+  SET has_password = true
+  WHERE EXISTS (SELECT 1 FROM public.document_share_link_passwords p WHERE p.link_id = l.id);
+
+CREATE OR REPLACE FUNCTION public.create_share_link(
+  doc_id UUID,
+  link_password TEXT DEFAULT NULL,
+  link_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  new_link public.document_share_links;
+BEGIN
+  IF public.document_role(doc_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can share this document' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO document_share_links (document_id, user_id, has_password, expires_at)
+  VALUES (doc_id, auth.uid(), coalesce(link_password, '') <> '', link_expires_at)
+  RETURNING * INTO new_link;
+
+  IF new_link.has_password THEN
+    INSERT INTO document_share_link_passwords (link_id, password_hash)
+    VALUES (new_link.id, crypt(link_password, gen_salt('bf', 10)));
+  END IF;
+
+  RETURN new_link.token;
+END;
+$$;
+
+-- Opens a share link, as before. After 5 wrong passwords in a row the link
+-- answers 'too_many_attempts' for 15 minutes.
+CREATE OR REPLACE FUNCTION public.get_shared_document(share_token TEXT, link_password TEXT DEFAULT NULL)
+RETURNS TABLE (status TEXT, title TEXT, content TEXT, body JSONB, tracked_changes JSONB, updated_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  link public.document_share_links;
+  secret public.document_share_link_passwords;
+BEGIN
+  SELECT l.* INTO link
+    FROM document_share_links l
+    JOIN documents d ON d.id = l.document_id
+    WHERE l.token = share_token AND l.revoked_at IS NULL AND d.deleted_at IS NULL;
+
+  IF link.id IS NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+  IF link.expires_at IS NOT NULL AND link.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+    RETURN;
+  END IF;
+
+  SELECT * INTO secret FROM document_share_link_passwords WHERE link_id = link.id FOR UPDATE;
+  IF secret.link_id IS NOT NULL THEN
+    IF secret.locked_until > now() THEN
+      RETURN QUERY SELECT 'too_many_attempts'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+    IF coalesce(link_password, '') = '' THEN
+      RETURN QUERY SELECT 'password_required'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+    IF crypt(link_password, secret.password_hash) <> secret.password_hash THEN
+      UPDATE document_share_link_passwords
+        SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+            locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + INTERVAL '15 minutes' ELSE NULL END
+        WHERE link_id = link.id;
+      RETURN QUERY SELECT 'wrong_password'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::JSONB, NULL::TIMESTAMP WITH TIME ZONE;
+      RETURN;
+    END IF;
+
+    UPDATE document_share_link_passwords
+      SET failed_attempts = 0,
+          locked_until = NULL,
+          password_hash = CASE
+            WHEN substring(password_hash FROM 5 FOR 2)::INTEGER < 10 THEN crypt(link_password, gen_salt('bf', 10))
+            ELSE password_hash
+          END
+      WHERE link_id = link.id;
+  END IF;
+
+  UPDATE document_share_links
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = link.id;
+
+  RETURN QUERY
+    SELECT
+      'ok'::TEXT,
+      d.title,
+      d.content,
+      d.body,
+      coalesce(
+        (SELECT jsonb_agg(jsonb_build_object(
+            'kind', c.kind,
+            'text', CASE WHEN c.kind = 'deletion' THEN c.text ELSE '' END,
+            'position_start', c.position_start,
+            'position_end', c.position_end))
+          FROM document_tracked_changes c
+          WHERE c.document_id = d.id),
+        '[]'::JSONB
+      ),
+      d.updated_at
+    FROM documents d
+    WHERE d.id = link.document_id;
+END;
+$$;